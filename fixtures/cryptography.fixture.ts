@@ -1,12 +1,16 @@
-import { test as baseTest } from "@playwright/test";
+import { test as baseTest } from "./sandbox.fixture";
 import { CryptoService } from "../src/cryptography/service/cryptoService";
 import { EncryptionManager } from "../src/cryptography/manager/encryptionManager";
+import { KeyRotationManager } from "../src/cryptography/manager/keyRotationManager";
+import { CiphertextMigrationManager } from "../src/cryptography/manager/ciphertextMigrationManager";
 import { CryptoOrchestrator } from "../src/cryptography/service/cryptoOrchestrator";
 import { EncryptionValidator } from "../src/cryptography/manager/encryptionValidator";
 
 type CryptographyFixtures = {
   cryptoService: CryptoService;
   encryptionManager: EncryptionManager;
+  keyRotationManager: KeyRotationManager;
+  ciphertextMigrationManager: CiphertextMigrationManager;
   cryptoOrchestrator: CryptoOrchestrator;
   encryptionValidator: EncryptionValidator;
 };
@@ -18,8 +22,19 @@ export const test = baseTest.extend<CryptographyFixtures>({
   encryptionManager: async ({}, use) => {
     await use(new EncryptionManager());
   },
-  cryptoOrchestrator: async ({ encryptionManager }, use) => {
-    await use(new CryptoOrchestrator(encryptionManager));
+  keyRotationManager: async ({ encryptionManager }, use) => {
+    await use(new KeyRotationManager(encryptionManager));
+  },
+  ciphertextMigrationManager: async ({ encryptionManager }, use) => {
+    await use(new CiphertextMigrationManager(encryptionManager));
+  },
+  cryptoOrchestrator: async (
+    { encryptionManager, keyRotationManager, ciphertextMigrationManager },
+    use,
+  ) => {
+    await use(
+      new CryptoOrchestrator(encryptionManager, keyRotationManager, ciphertextMigrationManager),
+    );
   },
   encryptionValidator: async ({ encryptionManager }, use) => {
     await use(new EncryptionValidator(encryptionManager));
@@ -0,0 +1,30 @@
+import { test as baseTest } from "./runManifest.fixture";
+import ScopedEnvironment from "../src/configuration/environment/overrides/scopedEnvironment";
+import type { EnvironmentOverrideOptions } from "../src/configuration/environment/overrides/environment-overrides.types";
+
+type EnvironmentFixtures = {
+  scopedEnv: ScopedEnvironment;
+};
+
+/**
+ * Layers `env` overrides on the loaded environment for each test, e.g.
+ * `test.use({ env: { FEATURE_X: "on" } })` in a spec or `use: { env }` in a project.
+ * Tests can change more variables through `scopedEnv`; everything is restored after
+ * the test.
+ */
+export const test = baseTest.extend<EnvironmentOverrideOptions & EnvironmentFixtures>({
+  env: [{}, { option: true }],
+  scopedEnv: [
+    async ({ env }, use) => {
+      const scope = new ScopedEnvironment(env);
+      try {
+        await use(scope);
+      } finally {
+        scope.restore();
+      }
+    },
+    { auto: true },
+  ],
+});
+
+export const expect = baseTest.expect;
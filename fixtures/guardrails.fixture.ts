@@ -0,0 +1,36 @@
+import { test as baseTest } from "./environment.fixture";
+import TestPolicyEnforcer from "../src/configuration/guardrails/testPolicyEnforcer";
+import GuardrailAuditLog from "../src/configuration/guardrails/guardrailAuditLog";
+
+type GuardrailFixtures = {
+  testPolicy: void;
+};
+
+/**
+ * Base test for every spec. Checks the test's tags against the stage's test policy
+ * before it runs: disallowed tests are skipped with the reason, and tests that only
+ * run because of a confirmed override are audit-logged.
+ */
+export const test = baseTest.extend<GuardrailFixtures>({
+  testPolicy: [
+    async ({}, use, testInfo) => {
+      const decision = TestPolicyEnforcer.evaluate(testInfo.tags);
+
+      if (!decision.allowed && decision.overridden) {
+        testInfo.annotations.push({ type: "guardrail-override", description: decision.reason });
+        await GuardrailAuditLog.record({
+          event: "test-overridden",
+          test: testInfo.titlePath.join(" > "),
+          tags: testInfo.tags,
+          reason: decision.reason,
+        });
+      }
+
+      testInfo.skip(!decision.allowed && !decision.overridden, decision.reason);
+      await use();
+    },
+    { auto: true },
+  ],
+});
+
+export const expect = baseTest.expect;
@@ -0,0 +1,22 @@
+import { test as baseTest } from "@playwright/test";
+import RunManifestWriter from "../src/configuration/manifest/runManifestWriter";
+
+type RunManifestWorkerFixtures = {
+  workerErrorTotals: void;
+};
+
+/**
+ * Saves each worker's error totals when the worker shuts down, so global teardown
+ * can add them to the run manifest.
+ */
+export const test = baseTest.extend<object, RunManifestWorkerFixtures>({
+  workerErrorTotals: [
+    async ({}, use, workerInfo) => {
+      await use();
+      await RunManifestWriter.recordWorkerErrors(workerInfo.workerIndex);
+    },
+    { scope: "worker", auto: true },
+  ],
+});
+
+export const expect = baseTest.expect;
@@ -0,0 +1,75 @@
+import fs from "fs";
+import path from "path";
+import { test as baseTest } from "./guardrails.fixture";
+import StageRegistry from "../src/configuration/environment/stages/stageRegistry";
+import SecretKeyResolver from "../src/cryptography/key/secretKeyResolver";
+import { ENVIRONMENT_FILE_CONFIG } from "../src/configuration/environment/dotenv/environment.constants";
+import type { StageConfigEntry } from "../src/configuration/environment/stages/stage.types";
+
+export interface EnvironmentSandbox {
+  /** Temporary directory holding the stage files and the keystore */
+  directory: string;
+  /** Keystore path, set as `ENV_KEYSTORE_PATH` for the test */
+  keystorePath: string;
+  resolve(fileName: string): string;
+  writeFile(fileName: string, content: string): Promise<string>;
+  readFile(fileName: string): Promise<string>;
+  /**
+   * Points the stage registry at a stages config in the sandbox. Stage files default to
+   * `.env.<stage>` in the sandbox directory.
+   */
+  declareStages(stages: Record<string, StageConfigEntry>, defaultStage?: string): Promise<void>;
+}
+
+type SandboxFixtures = {
+  sandbox: EnvironmentSandbox;
+};
+
+/**
+ * Gives a unit test its own stages config, stage files and keystore in the test's
+ * output directory, so it never reads or writes the files under envs/.
+ */
+export const test = baseTest.extend<SandboxFixtures>({
+  sandbox: async ({ scopedEnv }, use, testInfo) => {
+    const directory = testInfo.outputPath("sandbox");
+    const resolve = (fileName: string) => path.join(directory, fileName);
+
+    await fs.promises.mkdir(directory, { recursive: true });
+    scopedEnv.set(ENVIRONMENT_FILE_CONFIG.KEYSTORE_OVERRIDE_VARIABLE, resolve(".keystore.json"));
+
+    const sandbox: EnvironmentSandbox = {
+      directory,
+      keystorePath: resolve(".keystore.json"),
+      resolve,
+      writeFile: async (fileName, content) => {
+        await fs.promises.writeFile(resolve(fileName), content);
+        return resolve(fileName);
+      },
+      readFile: (fileName) => fs.promises.readFile(resolve(fileName), "utf8"),
+      declareStages: async (stages, defaultStage = Object.keys(stages)[0]) => {
+        const withFiles = Object.fromEntries(
+          Object.entries(stages).map(([name, entry]) => [
+            name,
+            { filePath: resolve(`.env.${name}`), ...entry },
+          ]),
+        );
+        const configPath = await sandbox.writeFile(
+          "stages.config.json",
+          JSON.stringify({ defaultStage, stages: withFiles }, null, 2),
+        );
+
+        scopedEnv.set(ENVIRONMENT_FILE_CONFIG.STAGES_CONFIG_OVERRIDE_VARIABLE, configPath);
+        StageRegistry.reload();
+      },
+    };
+
+    try {
+      await use(sandbox);
+    } finally {
+      StageRegistry.reload();
+      SecretKeyResolver.clearCache();
+    }
+  },
+});
+
+export const expect = baseTest.expect;
@@ -1,85 +1,42 @@
-import { defineConfig, devices } from "@playwright/test";
-
-/**
- * Read environment variables from file.
- * https://github.com/motdotla/dotenv
- */
-// import dotenv from 'dotenv';
-// import path from 'path';
-// dotenv.config({ path: path.resolve(__dirname, '.env') });
+import { defineConfig } from "@playwright/test";
+import PlaywrightConfigBuilder from "./src/configuration/playwright/playwrightConfigBuilder";
 
 /**
+ * Stage-dependent settings (baseURL, projects, timeouts, retries, workers and
+ * trace/screenshot/video policy) are derived from the current stage by
+ * `PlaywrightConfigBuilder`. Configure them per stage in envs/stages.config.json.
+ *
  * See https://playwright.dev/docs/test-configuration.
  */
-export default defineConfig({
-  testDir: "./tests",
-  globalSetup: "./src/configuration/environment/manager/globalSetup.ts",
-  /* Run tests in files in parallel */
-  fullyParallel: true,
-  /* Fail the build on CI if you accidentally left test.only in the source code. */
-  forbidOnly: !!process.env.CI,
-  /* Retry on CI only */
-  retries: process.env.CI ? 2 : 0,
-  /* Opt out of parallel tests on CI. */
-  workers: process.env.CI ? 1 : undefined,
-  /* Reporter to use. See https://playwright.dev/docs/test-reporters */
-  reporter: "html",
-  grep:
-    typeof process.env.PLAYWRIGHT_GREP === "string"
-      ? new RegExp(process.env.PLAYWRIGHT_GREP)
-      : (process.env.PLAYWRIGHT_GREP ?? /.*/),
-  /* Shared settings for all the projects below. See https://playwright.dev/docs/api/class-testoptions. */
-  use: {
-    /* Base URL to use in actions like `await page.goto('/')`. */
-    // baseURL: 'http://localhost:3000',
-
-    /* Collect trace when retrying the failed test. See https://playwright.dev/docs/trace-viewer */
-    trace: "on-first-retry",
-    screenshot: "on",
-  },
-
-  /* Configure projects for major browsers */
-  projects: [
+export default defineConfig(
+  PlaywrightConfigBuilder.build(
     {
-      name: "chromium",
-      use: { ...devices["Desktop Chrome"] },
+      testDir: "./tests",
+      globalSetup: "./src/configuration/environment/manager/globalSetup.ts",
+      globalTeardown: "./src/configuration/environment/manager/globalTeardown.ts",
+      /* Fail the build on CI if you accidentally left test.only in the source code. */
+      forbidOnly: !!process.env.CI,
+      /* Reporter to use. See https://playwright.dev/docs/test-reporters */
+      reporter: "html",
+      grep:
+        typeof process.env.PLAYWRIGHT_GREP === "string"
+          ? new RegExp(process.env.PLAYWRIGHT_GREP)
+          : (process.env.PLAYWRIGHT_GREP ?? /.*/),
+      /* `test:all:*` sets it to `@maintenance` to leave out commands that change keys or files */
+      grepInvert: process.env.PLAYWRIGHT_GREP_INVERT
+        ? new RegExp(process.env.PLAYWRIGHT_GREP_INVERT)
+        : undefined,
+
+      /* Run your local dev server before starting the tests */
+      // webServer: {
+      //   command: 'npm run start',
+      //   url: 'http://localhost:3000',
+      //   reuseExistingServer: !process.env.CI,
+      // },
     },
-
-    // {
-    //   name: 'firefox',
-    //   use: { ...devices['Desktop Firefox'] },
-    // },
-
-    // {
-    //   name: 'webkit',
-    //   use: { ...devices['Desktop Safari'] },
-    // },
-
-    /* Test against mobile viewports. */
-    // {
-    //   name: 'Mobile Chrome',
-    //   use: { ...devices['Pixel 5'] },
-    // },
-    // {
-    //   name: 'Mobile Safari',
-    //   use: { ...devices['iPhone 12'] },
-    // },
-
-    /* Test against branded browsers. */
-    // {
-    //   name: 'Microsoft Edge',
-    //   use: { ...devices['Desktop Edge'], channel: 'msedge' },
-    // },
-    // {
-    //   name: 'Google Chrome',
-    //   use: { ...devices['Desktop Chrome'], channel: 'chrome' },
-    // },
-  ],
-
-  /* Run your local dev server before starting the tests */
-  // webServer: {
-  //   command: 'npm run start',
-  //   url: 'http://localhost:3000',
-  //   reuseExistingServer: !process.env.CI,
-  // },
-});
+    {
+      /* Suites that never open a browser run once instead of once per browser */
+      browserlessTestMatch: ["encryption/**", "environment/**"],
+    },
+  ),
+);
@@ -0,0 +1,43 @@
+export type CiProvider =
+  | "github-actions"
+  | "gitlab"
+  | "jenkins"
+  | "circleci"
+  | "travis"
+  | "bitbucket"
+  | "azure-devops"
+  | "generic";
+
+/**
+ * Shard of the test run, from `SHARD_INDEX` (1-based) and `SHARD_TOTAL`.
+ */
+export interface CiShard {
+  index: number;
+  total: number;
+}
+
+/**
+ * Build metadata a provider exposes through its environment variables.
+ * Any field the provider does not set is left undefined.
+ */
+export interface CiBuildInfo {
+  buildId?: string;
+  buildUrl?: string;
+  branch?: string;
+  commitSha?: string;
+  pullRequest?: string;
+}
+
+export interface CiContext extends CiBuildInfo {
+  isCI: boolean;
+  /** Undefined when not running in CI */
+  provider?: CiProvider;
+  /** Set locally too when SHARD_INDEX and SHARD_TOTAL are valid */
+  shard?: CiShard;
+}
+
+export interface CiProviderDefinition {
+  label: string;
+  detect: (env: NodeJS.ProcessEnv) => boolean;
+  read: (env: NodeJS.ProcessEnv) => CiBuildInfo;
+}
@@ -0,0 +1,225 @@
+import type {
+  CiBuildInfo,
+  CiContext,
+  CiProvider,
+  CiProviderDefinition,
+  CiShard,
+} from "./ci-context.types";
+
+/**
+ * Detects the CI provider and the build it is running, from environment variables.
+ *
+ * Flags count only when they hold a truthy value, so `CI=false`, `CI=0` or an empty
+ * value do not. An explicit falsy `CI` also turns provider detection off, which lets
+ * a pipeline step run in local mode.
+ *
+ * The logger and error details depend on this detector, so it must not log or use
+ * ErrorHandler.
+ */
+export default class CiContextDetector {
+  private static readonly FALSY_VALUES = ["false", "0", "no", "off"];
+
+  /** Checked in order; `generic` must stay last as it only needs `CI` */
+  private static readonly PROVIDERS: Record<CiProvider, CiProviderDefinition> = {
+    "github-actions": {
+      label: "GitHub Actions",
+      detect: (env) => CiContextDetector.isSet(env.GITHUB_ACTIONS),
+      read: (env) => ({
+        buildId: env.GITHUB_RUN_ID,
+        buildUrl: CiContextDetector.join(
+          env.GITHUB_SERVER_URL,
+          env.GITHUB_REPOSITORY && `/${env.GITHUB_REPOSITORY}/actions/runs/`,
+          env.GITHUB_RUN_ID,
+        ),
+        branch: env.GITHUB_HEAD_REF || env.GITHUB_REF_NAME,
+        commitSha: env.GITHUB_SHA,
+        pullRequest: env.GITHUB_REF?.match(/^refs\/pull\/(\d+)\//)?.[1],
+      }),
+    },
+    gitlab: {
+      label: "GitLab CI",
+      detect: (env) => CiContextDetector.isSet(env.GITLAB_CI),
+      read: (env) => ({
+        buildId: env.CI_PIPELINE_ID,
+        buildUrl: env.CI_PIPELINE_URL,
+        branch: env.CI_MERGE_REQUEST_SOURCE_BRANCH_NAME || env.CI_COMMIT_REF_NAME,
+        commitSha: env.CI_COMMIT_SHA,
+        pullRequest: env.CI_MERGE_REQUEST_IID,
+      }),
+    },
+    jenkins: {
+      label: "Jenkins",
+      detect: (env) => CiContextDetector.isSet(env.JENKINS_URL),
+      read: (env) => ({
+        buildId: env.BUILD_NUMBER || env.BUILD_ID,
+        buildUrl: env.BUILD_URL,
+        branch: env.CHANGE_BRANCH || env.BRANCH_NAME || env.GIT_BRANCH,
+        commitSha: env.GIT_COMMIT,
+        pullRequest: env.CHANGE_ID,
+      }),
+    },
+    circleci: {
+      label: "CircleCI",
+      detect: (env) => CiContextDetector.isSet(env.CIRCLECI),
+      read: (env) => ({
+        buildId: env.CIRCLE_BUILD_NUM,
+        buildUrl: env.CIRCLE_BUILD_URL,
+        branch: env.CIRCLE_BRANCH,
+        commitSha: env.CIRCLE_SHA1,
+        pullRequest: env.CIRCLE_PR_NUMBER || env.CIRCLE_PULL_REQUEST?.match(/\/(\d+)$/)?.[1],
+      }),
+    },
+    travis: {
+      label: "Travis CI",
+      detect: (env) => CiContextDetector.isSet(env.TRAVIS),
+      read: (env) => ({
+        buildId: env.TRAVIS_BUILD_ID,
+        buildUrl: env.TRAVIS_BUILD_WEB_URL,
+        branch: env.TRAVIS_PULL_REQUEST_BRANCH || env.TRAVIS_BRANCH,
+        commitSha: env.TRAVIS_COMMIT,
+        // Travis sets "false" outside pull request builds
+        pullRequest: CiContextDetector.isSet(env.TRAVIS_PULL_REQUEST)
+          ? env.TRAVIS_PULL_REQUEST
+          : undefined,
+      }),
+    },
+    bitbucket: {
+      label: "Bitbucket Pipelines",
+      detect: (env) => CiContextDetector.isSet(env.BITBUCKET_BUILD_NUMBER),
+      read: (env) => ({
+        buildId: env.BITBUCKET_BUILD_NUMBER,
+        buildUrl: CiContextDetector.join(
+          env.BITBUCKET_GIT_HTTP_ORIGIN,
+          "/addon/pipelines/home#!/results/",
+          env.BITBUCKET_BUILD_NUMBER,
+        ),
+        branch: env.BITBUCKET_BRANCH,
+        commitSha: env.BITBUCKET_COMMIT,
+        pullRequest: env.BITBUCKET_PR_ID,
+      }),
+    },
+    "azure-devops": {
+      label: "Azure DevOps",
+      detect: (env) => CiContextDetector.isSet(env.TF_BUILD),
+      read: (env) => ({
+        buildId: env.BUILD_BUILDID,
+        buildUrl: CiContextDetector.join(
+          env.SYSTEM_COLLECTIONURI,
+          env.SYSTEM_TEAMPROJECT && `${env.SYSTEM_TEAMPROJECT}/_build/results?buildId=`,
+          env.BUILD_BUILDID,
+        ),
+        branch: (env.SYSTEM_PULLREQUEST_SOURCEBRANCH || env.BUILD_SOURCEBRANCH)?.replace(
+          /^refs\/heads\//,
+          "",
+        ),
+        commitSha: env.BUILD_SOURCEVERSION,
+        pullRequest:
+          env.SYSTEM_PULLREQUEST_PULLREQUESTNUMBER || env.SYSTEM_PULLREQUEST_PULLREQUESTID,
+      }),
+    },
+    generic: {
+      label: "CI",
+      detect: (env) => CiContextDetector.isSet(env.CI),
+      read: () => ({}),
+    },
+  };
+
+  /**
+   * Detects the CI context from the given variables.
+   * @param env - Variables to read, the process environment by default
+   */
+  public static detect(env: NodeJS.ProcessEnv = process.env): CiContext {
+    const shard = this.readShard(env);
+    const provider = this.detectProvider(env);
+
+    if (!provider) {
+      return { isCI: false, shard };
+    }
+
+    return {
+      isCI: true,
+      provider,
+      ...this.withoutEmpty(this.PROVIDERS[provider].read(env)),
+      shard,
+    };
+  }
+
+  /**
+   * Returns the display name of a provider, e.g. "GitHub Actions".
+   */
+  public static getProviderLabel(provider: CiProvider): string {
+    return this.PROVIDERS[provider].label;
+  }
+
+  /**
+   * Formats a context as one line, e.g.
+   * `GitHub Actions build 42 on main@1a2b3c4 (PR #7, shard 1/3) https://...`.
+   */
+  public static describe(context: CiContext = this.detect()): string {
+    const details = [
+      context.pullRequest && `PR #${context.pullRequest}`,
+      context.shard && `shard ${context.shard.index}/${context.shard.total}`,
+    ].filter(Boolean);
+
+    const parts = [
+      context.provider ? this.getProviderLabel(context.provider) : "Local run",
+      context.buildId && `build ${context.buildId}`,
+      context.branch &&
+        `on ${context.branch}${context.commitSha ? `@${context.commitSha.slice(0, 7)}` : ""}`,
+      details.length > 0 && `(${details.join(", ")})`,
+      context.buildUrl,
+    ];
+
+    return parts.filter(Boolean).join(" ");
+  }
+
+  private static detectProvider(env: NodeJS.ProcessEnv): CiProvider | undefined {
+    if (env.CI !== undefined && !this.isSet(env.CI)) {
+      return undefined;
+    }
+
+    return (Object.keys(this.PROVIDERS) as CiProvider[]).find((provider) =>
+      this.PROVIDERS[provider].detect(env),
+    );
+  }
+
+  /**
+   * Reads the shard from SHARD_INDEX and SHARD_TOTAL. Values that are not positive
+   * integers, or an index past the total, leave the run unsharded.
+   */
+  private static readShard(env: NodeJS.ProcessEnv): CiShard | undefined {
+    const index = Number(env.SHARD_INDEX);
+    const total = Number(env.SHARD_TOTAL);
+
+    if (!env.SHARD_INDEX || !env.SHARD_TOTAL) {
+      return undefined;
+    }
+
+    if (!Number.isInteger(index) || !Number.isInteger(total) || index < 1 || index > total) {
+      return undefined;
+    }
+
+    return { index, total };
+  }
+
+  private static isSet(value: string | undefined): boolean {
+    return (
+      value !== undefined &&
+      value.trim() !== "" &&
+      !this.FALSY_VALUES.includes(value.trim().toLowerCase())
+    );
+  }
+
+  /**
+   * Concatenates URL parts, or returns undefined when any part is missing.
+   */
+  private static join(...parts: (string | undefined)[]): string | undefined {
+    return parts.every(Boolean) ? parts.join("") : undefined;
+  }
+
+  private static withoutEmpty(info: CiBuildInfo): CiBuildInfo {
+    return Object.fromEntries(
+      Object.entries(info).filter(([, value]) => value !== undefined && value !== ""),
+    ) as CiBuildInfo;
+  }
+}
@@ -1,25 +1,41 @@
-import { isEnvironmentStage } from "../dotenv/environment.types";
+import StageRegistry from "../stages/stageRegistry";
+import CiContextDetector from "./ciContextDetector";
 import type { EnvironmentStage } from "../dotenv/environment.types";
+import type { CiContext } from "./ci-context.types";
 
 export default class EnvironmentDetector {
   /**
    * Checks if running in CI environment
    */
   public static isCI(): boolean {
-    return !!(
-      process.env.CI ??
-      process.env.GITHUB_ACTIONS ??
-      process.env.GITLAB_CI ??
-      process.env.TRAVIS ??
-      process.env.CIRCLECI ??
-      process.env.JENKINS_URL ??
-      process.env.BITBUCKET_BUILD_NUMBER
-    );
+    return CiContextDetector.detect().isCI;
   }
 
+  /**
+   * Returns the CI provider, build metadata and shard of the current run.
+   */
+  public static getCiContext(): CiContext {
+    return CiContextDetector.detect();
+  }
+
+  /**
+   * Resolves the current stage from `ENV`, falling back to `NODE_ENV` when it names a
+   * declared stage and finally to the configured default stage.
+   *
+   * @throws CategorizedError if `ENV` names a stage that is not declared
+   */
   public static getCurrentEnvironmentStage(): EnvironmentStage {
-    const env = process.env.ENV ?? process.env.NODE_ENV ?? "dev";
-    return isEnvironmentStage(env) ? env : "dev";
+    const env = process.env.ENV;
+    if (env) {
+      return StageRegistry.getStage(env).name;
+    }
+
+    const nodeEnv = process.env.NODE_ENV;
+    if (nodeEnv && StageRegistry.has(nodeEnv)) {
+      return nodeEnv;
+    }
+
+    return StageRegistry.getDefaultStage();
   }
 
   public static isDevelopment(): boolean {
@@ -42,6 +58,13 @@ export default class EnvironmentDetector {
     return this.getCurrentEnvironmentStage() === "prod";
   }
 
+  /**
+   * Checks if the current stage is flagged as production-like in the stages config.
+   */
+  public static isProductionLike(): boolean {
+    return StageRegistry.getStage(this.getCurrentEnvironmentStage()).productionLike;
+  }
+
   /**
    * Checks if sharding is enabled for the current test run.
    * Sharding can be enabled either in CI or locally by setting SHARD_INDEX and SHARD_TOTAL.
@@ -49,6 +72,6 @@ export default class EnvironmentDetector {
    * @returns {boolean} `true` if sharding is enabled, `false` otherwise
    */
   public static isShardingEnabled(): boolean {
-    return !!(process.env.SHARD_INDEX && process.env.SHARD_TOTAL);
+    return CiContextDetector.detect().shard !== undefined;
   }
 }
@@ -0,0 +1,62 @@
+import type { VariableFormat } from "../schema/variable-schema.types";
+
+/**
+ * Line ending of an environment file line, kept when the file is written back.
+ */
+export type EnvLineEnding = "\n" | "\r\n";
+
+export type EnvQuote = '"' | "'" | "`";
+
+interface EnvNodeBase {
+  /** Line the node starts at, 1-based, as parsed */
+  lineNumber: number;
+  /** Source text of the node; more than one line for multi-line quoted values */
+  lines: string[];
+  /** Line ending after each source line, as parsed; unset once the node is rewritten */
+  lineEndings?: EnvLineEnding[];
+}
+
+export interface EnvBlankNode extends EnvNodeBase {
+  type: "blank";
+}
+
+export interface EnvCommentNode extends EnvNodeBase {
+  type: "comment";
+}
+
+/**
+ * A line that could not be parsed as an assignment. It is kept verbatim on rewrite.
+ */
+export interface EnvInvalidNode extends EnvNodeBase {
+  type: "invalid";
+  reason: "invalid-key" | "missing-assignment";
+  key: string;
+}
+
+export interface EnvEntryNode extends EnvNodeBase {
+  type: "entry";
+  key: string;
+  /** Decoded value, without quotes or inline comment */
+  value: string;
+  exported: boolean;
+  quote: EnvQuote | null;
+  /** Source text before the value: indentation, `export `, key and `=` */
+  prefix: string;
+  /** Source text after the value: spacing and inline comment */
+  suffix: string;
+}
+
+export type EnvNode = EnvBlankNode | EnvCommentNode | EnvInvalidNode | EnvEntryNode;
+
+/**
+ * Metadata declared in `# @...` comments directly above an entry, e.g.
+ * `# @secret`, `# @required`, `# @type=url` or `# @description Login user`.
+ */
+export interface EnvAnnotations {
+  secret: boolean;
+  required: boolean;
+  type?: VariableFormat;
+  /** Allowed values when the type is `enum(a,b,c)` */
+  values?: string[];
+  description?: string;
+}
@@ -0,0 +1,494 @@
+import { SECURITY_CONSTANTS } from "../../../cryptography/types/security.constant";
+import type { EnvironmentFileIssue } from "../manager/env-file.types";
+import type { VariableFormat } from "../schema/variable-schema.types";
+import type {
+  EnvAnnotations,
+  EnvEntryNode,
+  EnvLineEnding,
+  EnvNode,
+  EnvQuote,
+} from "./env-document.types";
+
+interface PendingAnnotation {
+  text: string;
+  lineNumber: number;
+}
+
+/**
+ * Parsed environment file that can be edited and written back without reformatting.
+ *
+ * Every line is kept as a node (blank, comment, entry or invalid). Serializing an
+ * unmodified document returns the original text, including the line ending of each
+ * line and whether the file ended with a newline. Updating a value only rewrites that
+ * entry, keeping its `export ` prefix, quote style and inline comment. Rewritten and
+ * added lines use the line ending of the first line.
+ *
+ * Values are decoded the same way dotenv does: quotes are removed, quoted values may
+ * span lines, and `#` starts an inline comment in unquoted values. In double quotes,
+ * `\n` and `\r` are expanded and `\\` and `\"` are unescaped; other backslashes are
+ * kept as written. Single and backtick quotes take the value literally.
+ *
+ * Comment lines starting with `@` directly above an entry annotate it (see
+ * `EnvAnnotations`). Several annotations may share a line, e.g. `# @secret @required`;
+ * `@description` takes the rest of its line. File directives such as `@extends`
+ * are not annotations.
+ */
+export default class EnvFileDocument {
+  private static readonly ASSIGNMENT_PATTERN = /^(\s*)(export\s+)?([^=]*?)(\s*=[ \t]*)(.*)$/;
+  private static readonly QUOTES: readonly EnvQuote[] = ['"', "'", "`"];
+  private static readonly ANNOTATION_PATTERN = /^@([\w-]+)(?:=([^\s(]*(?:\([^)]*\))?))?\s*/;
+  private static readonly ENUM_TYPE_PATTERN = /^enum\((.+)\)$/;
+  private static readonly DIRECTIVES = ["extends"];
+  private static readonly DIRECTIVE_PATTERN = /^(@[\w-]+)\s+(\S+)$/;
+  private static readonly ESCAPES: Record<string, string> = { n: "\n", r: "\r" };
+  private static readonly FORMATS: readonly VariableFormat[] = [
+    "string",
+    "url",
+    "email",
+    "int",
+    "bool",
+  ];
+
+  private constructor(
+    private nodes: EnvNode[],
+    public readonly lineEnding: EnvLineEnding,
+    private readonly trailingNewline: boolean,
+  ) {}
+
+  /**
+   * Parses environment file content into a document.
+   */
+  public static parse(content: string): EnvFileDocument {
+    const lineEnding = (/\r?\n/.exec(content)?.[0] ?? "\n") as EnvLineEnding;
+    const trailingNewline = /\r?\n$/.test(content);
+    const parts = content === "" ? [] : content.split(/(\r?\n)/);
+    const lines = parts.filter((_, position) => position % 2 === 0);
+    const lineEndings = parts.filter((_, position) => position % 2 === 1) as EnvLineEnding[];
+
+    if (trailingNewline) {
+      lines.pop();
+    }
+
+    const nodes: EnvNode[] = [];
+    let index = 0;
+
+    while (index < lines.length) {
+      const node = this.parseNode(lines, index);
+      node.lineEndings = lines
+        .slice(index, index + node.lines.length)
+        .map((_, offset) => lineEndings[index + offset] ?? lineEnding);
+      nodes.push(node);
+      index += node.lines.length;
+    }
+
+    return new EnvFileDocument(nodes, lineEnding, trailingNewline);
+  }
+
+  public getNodes(): readonly EnvNode[] {
+    return this.nodes;
+  }
+
+  public getEntries(): EnvEntryNode[] {
+    return this.nodes.filter((node): node is EnvEntryNode => node.type === "entry");
+  }
+
+  public has(key: string): boolean {
+    return this.findEntry(key) !== undefined;
+  }
+
+  /**
+   * Returns the effective value of a key. As with dotenv, the last definition wins.
+   */
+  public get(key: string): string | undefined {
+    return this.findEntry(key)?.value;
+  }
+
+  /**
+   * Sets a value, rewriting only the effective definition of the key. New keys are
+   * appended at the end of the file.
+   */
+  public set(key: string, value: string): void {
+    const entry = this.findEntry(key);
+
+    if (!entry) {
+      this.nodes.push(this.createEntry(key, value));
+      return;
+    }
+
+    const multiline = entry.lines.length > 1;
+    const quote = this.chooseQuote(value, entry.quote);
+    const text = `${entry.prefix}${this.renderValue(value, quote, multiline)}${entry.suffix}`;
+
+    entry.value = value;
+    entry.quote = quote;
+    entry.lines = text.split("\n");
+    delete entry.lineEndings;
+  }
+
+  /**
+   * Removes every definition of a key.
+   * @returns true if at least one definition was removed
+   */
+  public delete(key: string): boolean {
+    const remaining = this.nodes.filter((node) => node.type !== "entry" || node.key !== key);
+    const removed = remaining.length !== this.nodes.length;
+    this.nodes = remaining;
+    return removed;
+  }
+
+  /**
+   * Returns the effective key-value pairs.
+   */
+  public toObject(): Record<string, string> {
+    const variables: Record<string, string> = {};
+
+    for (const entry of this.getEntries()) {
+      variables[entry.key] = entry.value;
+    }
+
+    return variables;
+  }
+
+  /**
+   * Returns the annotations of the effective definition of a key, or undefined when
+   * it has none.
+   */
+  public getAnnotations(key: string): EnvAnnotations | undefined {
+    return this.parseAnnotations().annotations[key];
+  }
+
+  /**
+   * Returns the annotations of every annotated key.
+   */
+  public getAllAnnotations(): Record<string, EnvAnnotations> {
+    return this.parseAnnotations().annotations;
+  }
+
+  /**
+   * Returns the value of a file directive such as `# @extends qa`, or undefined when
+   * the file does not declare it. The first declaration wins.
+   * @param directive - The directive including its `@`, e.g. `@extends`
+   */
+  public getDirective(directive: string): string | undefined {
+    for (const node of this.nodes) {
+      if (node.type !== "comment") {
+        continue;
+      }
+
+      const text = node.lines[0].trim().replace(/^#\s*/, "");
+      const match = EnvFileDocument.DIRECTIVE_PATTERN.exec(text);
+
+      if (match?.[1] === directive) {
+        return match[2];
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Returns duplicate definitions, keys with an invalid format and annotations that
+   * are unknown or malformed.
+   */
+  public getIssues(): EnvironmentFileIssue[] {
+    const issues: EnvironmentFileIssue[] = [];
+    const seen = new Set<string>();
+
+    for (const node of this.nodes) {
+      if (node.type === "invalid" && node.reason === "invalid-key") {
+        issues.push({ kind: "invalid-key", key: node.key, lineNumber: node.lineNumber });
+      } else if (node.type === "entry") {
+        if (seen.has(node.key)) {
+          issues.push({ kind: "duplicate", key: node.key, lineNumber: node.lineNumber });
+        }
+        seen.add(node.key);
+      }
+    }
+
+    return [...issues, ...this.parseAnnotations().issues];
+  }
+
+  /**
+   * Serializes the document with the original line ending of each line.
+   */
+  public toString(): string {
+    const lines = this.nodes.flatMap((node) =>
+      node.lines.map((line, index) => ({
+        line,
+        ending: node.lineEndings?.[index] ?? this.lineEnding,
+      })),
+    );
+
+    return lines
+      .map(({ line, ending }, index) =>
+        index < lines.length - 1 || this.trailingNewline ? line + ending : line,
+      )
+      .join("");
+  }
+
+  private parseAnnotations(): {
+    annotations: Record<string, EnvAnnotations>;
+    issues: EnvironmentFileIssue[];
+  } {
+    const annotations: Record<string, EnvAnnotations> = {};
+    const issues: EnvironmentFileIssue[] = [];
+    let pending: PendingAnnotation[] = [];
+
+    for (const node of this.nodes) {
+      if (node.type === "comment") {
+        const text = node.lines[0].trim().replace(/^#\s*/, "");
+        const name = EnvFileDocument.ANNOTATION_PATTERN.exec(text)?.[1];
+
+        if (text.startsWith("@") && !EnvFileDocument.DIRECTIVES.includes(name ?? "")) {
+          pending.push({ text, lineNumber: node.lineNumber });
+        }
+        continue;
+      }
+
+      if (node.type === "entry") {
+        if (pending.length > 0) {
+          annotations[node.key] = this.readAnnotations(pending, issues);
+        } else {
+          delete annotations[node.key];
+        }
+      }
+
+      pending = [];
+    }
+
+    return { annotations, issues };
+  }
+
+  private readAnnotations(
+    pending: PendingAnnotation[],
+    issues: EnvironmentFileIssue[],
+  ): EnvAnnotations {
+    const annotations: EnvAnnotations = { secret: false, required: false };
+
+    for (const { text, lineNumber } of pending) {
+      let rest = text;
+
+      while (rest.startsWith("@")) {
+        const match = EnvFileDocument.ANNOTATION_PATTERN.exec(rest);
+
+        if (!match) {
+          issues.push({ kind: "invalid-annotation", key: rest.split(/\s/)[0], lineNumber });
+          break;
+        }
+
+        const [token, name, value] = match;
+        rest = rest.slice(token.length);
+
+        if (name === "description") {
+          annotations.description = [value, rest].filter(Boolean).join(" ").trim();
+          rest = "";
+          break;
+        }
+
+        if (name === "secret" && value === undefined) {
+          annotations.secret = true;
+        } else if (name === "required" && value === undefined) {
+          annotations.required = true;
+        } else if (name !== "type" || !this.applyType(value, annotations)) {
+          issues.push({ kind: "invalid-annotation", key: token.trim(), lineNumber });
+        }
+      }
+
+      if (rest && !rest.startsWith("@")) {
+        issues.push({ kind: "invalid-annotation", key: rest.split(/\s/)[0], lineNumber });
+      }
+    }
+
+    return annotations;
+  }
+
+  /**
+   * Applies `@type=<format>` or `@type=enum(a,b,c)`.
+   * @returns false when the type is not supported
+   */
+  private applyType(value: string | undefined, annotations: EnvAnnotations): boolean {
+    const enumValues = value ? EnvFileDocument.ENUM_TYPE_PATTERN.exec(value)?.[1] : undefined;
+
+    if (enumValues) {
+      annotations.type = "enum";
+      annotations.values = enumValues.split(",").map((entry) => entry.trim());
+      return true;
+    }
+
+    if (value && EnvFileDocument.FORMATS.includes(value as VariableFormat)) {
+      annotations.type = value as VariableFormat;
+      return true;
+    }
+
+    return false;
+  }
+
+  private findEntry(key: string): EnvEntryNode | undefined {
+    const entries = this.getEntries().filter((entry) => entry.key === key);
+    return entries[entries.length - 1];
+  }
+
+  private createEntry(key: string, value: string): EnvEntryNode {
+    const quote = this.chooseQuote(value, null);
+    const prefix = `${key}=`;
+
+    return {
+      type: "entry",
+      lineNumber: this.nodes.reduce((total, node) => total + node.lines.length, 0) + 1,
+      lines: `${prefix}${this.renderValue(value, quote, false)}`.split("\n"),
+      key,
+      value,
+      exported: false,
+      quote,
+      prefix,
+      suffix: "",
+    };
+  }
+
+  /**
+   * Keeps the existing quote style when the value can be written with it, and only
+   * adds quotes to unquoted values that would not survive a round trip otherwise.
+   * Double quotes can hold any value because they are escaped.
+   */
+  private chooseQuote(value: string, current: EnvQuote | null): EnvQuote | null {
+    const needsQuotes = value !== value.trim() || /[#\r\n"'`]/.test(value);
+
+    if (current === null && !needsQuotes) {
+      return null;
+    }
+
+    const candidates = current ? [current, ...EnvFileDocument.QUOTES] : EnvFileDocument.QUOTES;
+    return candidates.find((quote) => this.fitsQuote(value, quote)) ?? '"';
+  }
+
+  /**
+   * Single and backtick quotes have no escapes, so the value must not contain the
+   * quote or end in a backslash, which the parser reads as escaping the closing quote.
+   */
+  private fitsQuote(value: string, quote: EnvQuote): boolean {
+    return !value.includes(quote) && (quote === '"' || !value.endsWith("\\"));
+  }
+
+  private renderValue(value: string, quote: EnvQuote | null, multiline: boolean): string {
+    if (quote !== '"') {
+      return quote === null ? value : `${quote}${value}${quote}`;
+    }
+
+    const escaped = value.replace(/[\\"]/g, "\\$&").replace(/\r/g, "\\r");
+    const body = multiline ? escaped : escaped.replace(/\n/g, "\\n");
+    return `"${body}"`;
+  }
+
+  private static parseNode(lines: string[], index: number): EnvNode {
+    const line = lines[index];
+    const lineNumber = index + 1;
+    const trimmed = line.trim();
+
+    if (!trimmed) {
+      return { type: "blank", lineNumber, lines: [line] };
+    }
+
+    if (trimmed.startsWith("#")) {
+      return { type: "comment", lineNumber, lines: [line] };
+    }
+
+    const match = this.ASSIGNMENT_PATTERN.exec(line);
+
+    if (!match) {
+      return {
+        type: "invalid",
+        reason: "missing-assignment",
+        key: trimmed,
+        lineNumber,
+        lines: [line],
+      };
+    }
+
+    const [, indent, exportKeyword = "", key, assignment, rest] = match;
+
+    if (!SECURITY_CONSTANTS.VALIDATION.ENV_VAR_KEY_PATTERN.test(key)) {
+      return { type: "invalid", reason: "invalid-key", key, lineNumber, lines: [line] };
+    }
+
+    const prefix = `${indent}${exportKeyword}${key}${assignment}`;
+    const quoted = this.parseQuotedValue(lines, index, rest);
+
+    if (quoted) {
+      return {
+        type: "entry",
+        lineNumber,
+        lines: lines.slice(index, index + quoted.lineCount),
+        key,
+        value: quoted.value,
+        exported: exportKeyword !== "",
+        quote: quoted.quote,
+        prefix,
+        suffix: quoted.suffix,
+      };
+    }
+
+    const commentIndex = rest.indexOf("#");
+    const rawValue = (commentIndex === -1 ? rest : rest.slice(0, commentIndex)).trimEnd();
+
+    return {
+      type: "entry",
+      lineNumber,
+      lines: [line],
+      key,
+      value: rawValue,
+      exported: exportKeyword !== "",
+      quote: null,
+      prefix,
+      suffix: rest.slice(rawValue.length),
+    };
+  }
+
+  /**
+   * Reads a quoted value, following it onto later lines until the closing quote.
+   * @returns null when the value is not quoted or the quote is never closed
+   */
+  private static parseQuotedValue(
+    lines: string[],
+    index: number,
+    rest: string,
+  ): { value: string; quote: EnvQuote; suffix: string; lineCount: number } | null {
+    const quote = this.QUOTES.find((candidate) => rest.startsWith(candidate));
+
+    if (!quote) {
+      return null;
+    }
+
+    let buffer = rest.slice(1);
+    let lineCount = 1;
+    let closing = this.findClosingQuote(buffer, quote);
+
+    while (closing === -1 && index + lineCount < lines.length) {
+      buffer += `\n${lines[index + lineCount]}`;
+      lineCount++;
+      closing = this.findClosingQuote(buffer, quote);
+    }
+
+    if (closing === -1) {
+      return null;
+    }
+
+    const inner = buffer.slice(0, closing);
+    const value =
+      quote === '"'
+        ? inner.replace(/\\([\\"nr])/g, (_, escape: string) => this.ESCAPES[escape] ?? escape)
+        : inner;
+
+    return { value, quote, suffix: buffer.slice(closing + 1), lineCount };
+  }
+
+  private static findClosingQuote(buffer: string, quote: EnvQuote): number {
+    for (let i = 0; i < buffer.length; i++) {
+      if (buffer[i] === "\\") {
+        i++;
+      } else if (buffer[i] === quote) {
+        return i;
+      }
+    }
+    return -1;
+  }
+}
@@ -4,5 +4,13 @@
 export const ENVIRONMENT_FILE_CONFIG = {
   ROOT_DIRECTORY: "envs",
   BASE_ENV_FILE: ".env",
+  COMMON_ENV_SUFFIX: "common",
+  LOCAL_ENV_SUFFIX: "local",
+  EXAMPLE_ENV_SUFFIX: "example",
+  EXTENDS_DIRECTIVE: "@extends",
   SECRET_KEY_PREFIX: "SECRET_KEY",
+  KEYSTORE_FILE: ".keystore.json",
+  KEYSTORE_OVERRIDE_VARIABLE: "ENV_KEYSTORE_PATH",
+  STAGES_CONFIG_FILE: "stages.config.json",
+  STAGES_CONFIG_OVERRIDE_VARIABLE: "ENV_STAGES_CONFIG",
 } as const;
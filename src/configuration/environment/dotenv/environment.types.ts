@@ -1,14 +1,13 @@
-// List of valid environment stages as a tuple of string literals
-export const ENVIRONMENT_STAGES = ["dev", "qa", "uat", "preprod", "prod"] as const;
+import StageRegistry from "../stages/stageRegistry";
 
-// Type alias representing any one of the environment stages
-export type EnvironmentStage = (typeof ENVIRONMENT_STAGES)[number];
+// Name of an environment stage declared in the stages config file
+export type EnvironmentStage = string;
 
 /**
- * Type guard to check if a given value is a valid EnvironmentStage
+ * Type guard to check if a given value is a declared EnvironmentStage
  * @param value - value to check
- * @returns true if value is one of the EnvironmentStage strings
+ * @returns true if value is one of the stages declared in the stages config
  */
 export function isEnvironmentStage(value: unknown): value is EnvironmentStage {
-  return typeof value === "string" && ENVIRONMENT_STAGES.includes(value as EnvironmentStage);
+  return typeof value === "string" && StageRegistry.has(value);
 }
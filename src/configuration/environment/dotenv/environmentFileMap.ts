@@ -1,12 +1,12 @@
-import { ENVIRONMENT_STAGES } from "./environment.types";
+import StageRegistry from "../stages/stageRegistry";
 import EnvironmentPathUtils from "../../../utils/environment/environmentPathUtils";
 
 export const EnvironmentFilePaths = EnvironmentPathUtils.createImmutableMapping(
-  ENVIRONMENT_STAGES,
+  StageRegistry.getStageNames(),
   EnvironmentPathUtils.getEnvironmentFilePath,
 );
 
 export const SecretKeyVariables = EnvironmentPathUtils.createImmutableMapping(
-  ENVIRONMENT_STAGES,
+  StageRegistry.getStageNames(),
   EnvironmentPathUtils.getSecretKeyVariable,
 );
@@ -0,0 +1,45 @@
+import type { EnvironmentFileIssue } from "../manager/env-file.types";
+
+/**
+ * Kind of drift detected for a single key across stages.
+ */
+export type KeyDriftKind = "missing" | "empty" | "mixed-encryption";
+
+/**
+ * How one key is defined across every stage file that could be read.
+ * Values are never included, only the stages each state applies to.
+ */
+export interface KeyDriftEntry {
+  key: string;
+  definedIn: string[];
+  /** Stages that do not define the key but inherit it through `# @extends` */
+  inheritedIn: string[];
+  missingIn: string[];
+  emptyIn: string[];
+  encryptedIn: string[];
+  plaintextIn: string[];
+  drift: KeyDriftKind[];
+}
+
+export interface StageDriftSummary {
+  stage: string;
+  filePath: string;
+  exists: boolean;
+  extends: string[];
+  variableCount: number;
+  issues: EnvironmentFileIssue[];
+}
+
+export interface EnvironmentDriftReport {
+  generatedAt: string;
+  hasDrift: boolean;
+  stages: StageDriftSummary[];
+  keys: KeyDriftEntry[];
+  summary: {
+    stagesCompared: number;
+    missingFiles: string[];
+    keysCompared: number;
+    keysWithDrift: number;
+    fileIssues: number;
+  };
+}
@@ -0,0 +1,218 @@
+import path from "path";
+import StageEnvFileManager from "../manager/stageEnvFileManager";
+import EnvironmentLayerResolver from "../manager/environmentLayerResolver";
+import { EnvironmentFilePaths } from "../dotenv/environmentFileMap";
+import { CryptoManager } from "../../../cryptography/manager/cryptoManager";
+import FileManager from "../../../utils/fileManager/fileManager";
+import { FileEncoding } from "../../../utils/types/fileManager/file-encoding.enum";
+import type { EnvironmentFileIssue } from "../manager/env-file.types";
+import type {
+  EnvironmentDriftReport,
+  KeyDriftEntry,
+  KeyDriftKind,
+  StageDriftSummary,
+} from "./environment-drift.types";
+import ErrorHandler from "../../../utils/errorHandling/errorHandler";
+import logger from "../../../utils/logger/loggerManager";
+
+interface StageSnapshot {
+  summary: StageDriftSummary;
+  variables: Record<string, string>;
+}
+
+/**
+ * Compares the variables defined in every stage file and reports keys that drift
+ * between stages: missing in some stages, empty in some, or encrypted in some and
+ * plaintext in others. Duplicate and invalid keys are reported per file.
+ *
+ * Stage files that do not exist are listed but left out of the key comparison.
+ * The report never contains variable values.
+ */
+export default class EnvironmentDriftAnalyzer {
+  public static readonly DEFAULT_REPORT_PATH = "reports/environment-drift-report.json";
+
+  /**
+   * Loads every stage file in `EnvironmentFilePaths` and builds the drift report.
+   */
+  public static async analyze(): Promise<EnvironmentDriftReport> {
+    try {
+      const snapshots: StageSnapshot[] = [];
+
+      for (const [stage, filePath] of Object.entries(EnvironmentFilePaths)) {
+        snapshots.push(await this.loadStage(stage, filePath));
+      }
+
+      const compared = snapshots.filter((snapshot) => snapshot.summary.exists);
+      const keys = this.collectKeys(compared).map((key) => this.analyzeKey(key, compared));
+      const keysWithDrift = keys.filter((entry) => entry.drift.length > 0).length;
+      const fileIssues = compared.reduce((total, s) => total + s.summary.issues.length, 0);
+
+      return {
+        generatedAt: new Date().toISOString(),
+        hasDrift: keysWithDrift > 0 || fileIssues > 0,
+        stages: snapshots.map((snapshot) => snapshot.summary),
+        keys,
+        summary: {
+          stagesCompared: compared.length,
+          missingFiles: snapshots
+            .filter((snapshot) => !snapshot.summary.exists)
+            .map((snapshot) => snapshot.summary.stage),
+          keysCompared: keys.length,
+          keysWithDrift,
+          fileIssues,
+        },
+      };
+    } catch (error) {
+      ErrorHandler.captureError(error, "analyze", "Failed to build environment drift report");
+      throw error;
+    }
+  }
+
+  /**
+   * Formats the report as a human-readable summary. Keys without drift are omitted.
+   */
+  public static format(report: EnvironmentDriftReport): string {
+    const { summary } = report;
+    const lines = [
+      `Environment drift report: ${summary.keysWithDrift} of ${summary.keysCompared} key(s) drift across ${summary.stagesCompared} stage(s), ${summary.fileIssues} file issue(s)`,
+    ];
+
+    if (summary.missingFiles.length > 0) {
+      lines.push(`  Skipped stages without a file: ${summary.missingFiles.join(", ")}`);
+    }
+
+    for (const entry of report.keys.filter((key) => key.drift.length > 0)) {
+      lines.push(`  ${entry.key}`);
+      if (entry.missingIn.length > 0) lines.push(`    missing in:   ${entry.missingIn.join(", ")}`);
+      if (entry.emptyIn.length > 0) lines.push(`    empty in:     ${entry.emptyIn.join(", ")}`);
+      if (entry.drift.includes("mixed-encryption")) {
+        lines.push(`    encrypted in: ${entry.encryptedIn.join(", ")}`);
+        lines.push(`    plaintext in: ${entry.plaintextIn.join(", ")}`);
+      }
+    }
+
+    for (const stage of report.stages.filter((summary) => summary.issues.length > 0)) {
+      for (const issue of stage.issues) {
+        lines.push(
+          `  [${issue.kind}] '${issue.key}' in ${path.basename(stage.filePath)}:${issue.lineNumber}`,
+        );
+      }
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Logs the formatted report, as a warning when drift was found.
+   */
+  public static log(report: EnvironmentDriftReport): void {
+    const message = this.format(report);
+
+    if (report.hasDrift) {
+      logger.warn(message);
+    } else {
+      logger.info(message);
+    }
+  }
+
+  /**
+   * Writes the report as JSON so a pipeline can fail on drift.
+   * @param report - Report to write
+   * @param filePath - Output path, defaults to `reports/environment-drift-report.json`
+   */
+  public static async writeJson(
+    report: EnvironmentDriftReport,
+    filePath: string = this.DEFAULT_REPORT_PATH,
+  ): Promise<void> {
+    await FileManager.writeFile(
+      filePath,
+      JSON.stringify(report, null, 2),
+      "environmentDriftReport",
+      FileEncoding.UTF8,
+    );
+    logger.info(`Environment drift report written to ${filePath}`);
+  }
+
+  private static async loadStage(stage: string, filePath: string): Promise<StageSnapshot> {
+    const summary: StageDriftSummary = {
+      stage,
+      filePath,
+      exists: await StageEnvFileManager.doesEnvironmentFileExist(filePath),
+      extends: [],
+      variableCount: 0,
+      issues: [],
+    };
+
+    if (!summary.exists) {
+      StageEnvFileManager.logEnvironmentFileNotFound(filePath, stage);
+      return { summary, variables: {} };
+    }
+
+    const issues: EnvironmentFileIssue[] = [];
+    const document = await StageEnvFileManager.readEnvironmentDocument(filePath);
+    const variables = StageEnvFileManager.extractEnvironmentVariables(document, issues);
+
+    summary.extends = EnvironmentLayerResolver.resolveExtendsChain(stage);
+    summary.variableCount = Object.keys(variables).length;
+    summary.issues = issues;
+
+    return { summary, variables };
+  }
+
+  private static collectKeys(snapshots: StageSnapshot[]): string[] {
+    const keys = new Set<string>();
+
+    for (const snapshot of snapshots) {
+      Object.keys(snapshot.variables).forEach((key) => keys.add(key));
+    }
+
+    return [...keys].sort();
+  }
+
+  private static analyzeKey(key: string, snapshots: StageSnapshot[]): KeyDriftEntry {
+    const entry: KeyDriftEntry = {
+      key,
+      definedIn: [],
+      inheritedIn: [],
+      missingIn: [],
+      emptyIn: [],
+      encryptedIn: [],
+      plaintextIn: [],
+      drift: [],
+    };
+    const definingStages = new Set(
+      snapshots
+        .filter((snapshot) => Object.prototype.hasOwnProperty.call(snapshot.variables, key))
+        .map((snapshot) => snapshot.summary.stage),
+    );
+
+    for (const { summary, variables } of snapshots) {
+      if (!definingStages.has(summary.stage)) {
+        const inherited = summary.extends.some((parent) => definingStages.has(parent));
+        (inherited ? entry.inheritedIn : entry.missingIn).push(summary.stage);
+        continue;
+      }
+
+      const value = variables[key].trim();
+      entry.definedIn.push(summary.stage);
+
+      if (value === "") {
+        entry.emptyIn.push(summary.stage);
+      } else if (CryptoManager.isEncrypted(value)) {
+        entry.encryptedIn.push(summary.stage);
+      } else {
+        entry.plaintextIn.push(summary.stage);
+      }
+    }
+
+    const drift: KeyDriftKind[] = [];
+    if (entry.missingIn.length > 0) drift.push("missing");
+    if (entry.emptyIn.length > 0) drift.push("empty");
+    if (entry.encryptedIn.length > 0 && entry.plaintextIn.length > 0) {
+      drift.push("mixed-encryption");
+    }
+    entry.drift = drift;
+
+    return entry;
+  }
+}
@@ -0,0 +1,136 @@
+import path from "path";
+import { CryptoManager } from "../../../cryptography/manager/cryptoManager";
+import type {
+  InterpolatedValue,
+  InterpolationSources,
+  VariableLocation,
+} from "./interpolation.types";
+import ErrorHandler from "../../../utils/errorHandling/errorHandler";
+
+/**
+ * Expands `${VAR}` and `${VAR:-default}` references in environment values.
+ *
+ * - `${VAR}` must resolve to a defined variable, otherwise resolution fails.
+ * - `${VAR:-default}` falls back to `default` when VAR is unset or empty.
+ * - `\${VAR}` is kept literally (without the backslash).
+ *
+ * Encrypted references are resolved through the `reveal` source, so the expanded
+ * value is marked secret. Error messages only ever contain variable names and
+ * locations, never values.
+ */
+export default class EnvironmentInterpolator {
+  private static readonly REFERENCE_PATTERN = /(\\?)\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+  private readonly resolved = new Map<string, InterpolatedValue | undefined>();
+
+  constructor(private readonly sources: InterpolationSources) {}
+
+  /**
+   * Checks if a value contains at least one `${...}` reference.
+   */
+  public static hasReferences(value: string | undefined): boolean {
+    if (!value) return false;
+    return new RegExp(this.REFERENCE_PATTERN.source).test(value);
+  }
+
+  /**
+   * Resolves a variable and every variable it references.
+   * @param key - Variable to resolve
+   * @returns The expanded value, or undefined when the variable is not defined
+   * @throws Error on circular or undefined references
+   */
+  public async resolve(key: string): Promise<InterpolatedValue | undefined> {
+    return this.resolveWithStack(key, []);
+  }
+
+  private async resolveWithStack(
+    key: string,
+    stack: string[],
+  ): Promise<InterpolatedValue | undefined> {
+    if (this.resolved.has(key)) {
+      return this.resolved.get(key);
+    }
+
+    if (stack.includes(key)) {
+      const cycle = [...stack.slice(stack.indexOf(key)), key].join(" -> ");
+      ErrorHandler.logAndThrow(
+        `Circular variable reference detected: ${cycle} (${this.describeLocation(key)})`,
+        "EnvironmentInterpolator.resolve",
+      );
+    }
+
+    const rawValue = this.sources.lookup(key);
+    let result: InterpolatedValue | undefined;
+
+    if (rawValue === undefined) {
+      result = undefined;
+    } else if (CryptoManager.isEncrypted(rawValue)) {
+      result = await this.revealEncrypted(key, rawValue);
+    } else {
+      result = await this.expand(key, rawValue, [...stack, key]);
+    }
+
+    this.resolved.set(key, result);
+    return result;
+  }
+
+  private async revealEncrypted(key: string, encryptedValue: string): Promise<InterpolatedValue> {
+    const plaintext = await this.sources.reveal(key, encryptedValue);
+
+    return plaintext === undefined
+      ? { value: encryptedValue, secret: true, unresolved: true, references: [] }
+      : { value: plaintext, secret: true, unresolved: false, references: [] };
+  }
+
+  private async expand(key: string, rawValue: string, stack: string[]): Promise<InterpolatedValue> {
+    const pattern = new RegExp(EnvironmentInterpolator.REFERENCE_PATTERN.source, "g");
+    let value = "";
+    let secret = false;
+    let unresolved = false;
+    const references = new Set<string>();
+    let lastIndex = 0;
+
+    for (const match of rawValue.matchAll(pattern)) {
+      const [expression, escape, reference, fallback] = match;
+      value += rawValue.slice(lastIndex, match.index);
+      lastIndex = match.index + expression.length;
+
+      if (escape) {
+        value += expression.slice(1);
+        continue;
+      }
+
+      const referenced = await this.resolveWithStack(reference, stack);
+      references.add(reference);
+      referenced?.references.forEach((name) => references.add(name));
+
+      if (referenced === undefined || referenced.value === "") {
+        if (fallback === undefined) {
+          ErrorHandler.logAndThrow(
+            `Undefined variable '${reference}' referenced by '${key}' (${this.describeLocation(key)})`,
+            "EnvironmentInterpolator.expand",
+          );
+        }
+        value += fallback;
+        continue;
+      }
+
+      value += referenced.value;
+      secret ||= referenced.secret;
+      unresolved ||= referenced.unresolved;
+    }
+
+    value += rawValue.slice(lastIndex);
+    return { value, secret, unresolved, references: [...references] };
+  }
+
+  private describeLocation(key: string): string {
+    const location: VariableLocation | undefined = this.sources.locate?.(key);
+
+    if (!location) {
+      return "process environment";
+    }
+
+    return `${path.basename(location.filePath)}:${location.lineNumber}`;
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Where a variable's effective value was defined.
+ */
+export interface VariableLocation {
+  filePath: string;
+  lineNumber: number;
+}
+
+/**
+ * Result of resolving a variable and all of its references.
+ */
+export interface InterpolatedValue {
+  value: string;
+  /** True when the value is, or was built from, an encrypted value */
+  secret: boolean;
+  /** True when an encrypted reference could not be decrypted yet */
+  unresolved: boolean;
+  /** Every variable the value was built from, including indirect references */
+  references: string[];
+}
+
+export interface InterpolationSources {
+  /** Returns the raw (un-interpolated) value of a variable */
+  lookup: (key: string) => string | undefined;
+  /** Returns the plaintext of an encrypted variable, or undefined if not available */
+  reveal: (key: string, encryptedValue: string) => Promise<string | undefined>;
+  /** Returns where a variable was defined, for error messages */
+  locate?: (key: string) => VariableLocation | undefined;
+}
@@ -0,0 +1,166 @@
+import EnvironmentSchemaValidator from "../schema/environmentSchemaValidator";
+import { ENVIRONMENT_SCHEMA } from "../schema/environmentSchema";
+import { CryptoManager } from "../../../cryptography/manager/cryptoManager";
+import StageRegistry from "../stages/stageRegistry";
+import { CategorizedError } from "../../../utils/errorHandling/internals/categorizedError";
+import { ErrorCategories } from "../../../utils/types/errorHandling/error-categories.enum";
+import StageEnvFileManager from "./stageEnvFileManager";
+import EnvironmentPathUtils from "../../../utils/environment/environmentPathUtils";
+import FileManager from "../../../utils/fileManager/fileManager";
+import DataSanitizer from "../../../utils/sanitization/dataSanitizer";
+import type { EnvironmentStage } from "../dotenv/environment.types";
+import type { EnvironmentSchema } from "../schema/variable-schema.types";
+import type { EffectiveConfigEntry } from "../provenance/provenance.types";
+import type { ExpectedVariables } from "./environment-setup.types";
+import ErrorHandler from "../../../utils/errorHandling/errorHandler";
+
+/**
+ * Checks that a CI pipeline injected everything the suite needs and summarizes where
+ * each value came from.
+ */
+export default class CiEnvironmentValidator {
+  /**
+   * Returns the variables the suite expects: the schema variables and the keys listed
+   * in the committed `envs/.env.example` template, with those the template marks
+   * `# @secret`.
+   */
+  public static async readExpectedVariables(): Promise<ExpectedVariables> {
+    const keys = new Set(Object.keys(ENVIRONMENT_SCHEMA));
+    const secretKeys: string[] = [];
+    const templatePath = EnvironmentPathUtils.getExampleEnvFilePath();
+
+    if (await FileManager.doesFileExist(templatePath)) {
+      const template = await StageEnvFileManager.readEnvironmentDocument(templatePath);
+      const annotations = template.getAllAnnotations();
+
+      for (const key of Object.keys(template.toObject())) {
+        keys.add(key);
+        if (annotations[key]?.secret) {
+          secretKeys.push(key);
+        }
+      }
+    }
+
+    return { keys: [...keys], secretKeys };
+  }
+
+  /**
+   * Returns the given variables the pipeline set in process.env.
+   */
+  public static collectInjectedVariables(keys: string[]): Record<string, string> {
+    const injected: Record<string, string> = {};
+
+    for (const key of keys) {
+      const value = process.env[key];
+      if (value !== undefined && value !== "") {
+        injected[key] = value;
+      }
+    }
+
+    return injected;
+  }
+
+  /**
+   * Formats one line per variable saying whether the pipeline injected it, a fallback
+   * file supplied it or its schema default applies.
+   * @param entries - Masked effective config of the run
+   */
+  public static formatSourceSummary(
+    stage: EnvironmentStage,
+    entries: EffectiveConfigEntry[],
+    fileFallback: boolean,
+  ): string {
+    const lines = entries.map(
+      (entry) =>
+        `  ${entry.key} = ${entry.value} <- ${entry.source === "process" ? "ci-injected" : `file-fallback (${entry.source})`}`,
+    );
+    const configured = new Set(entries.map((entry) => entry.key));
+    const defaults = DataSanitizer.sanitize(this.collectDefaults(stage, configured));
+
+    for (const [key, value] of Object.entries(defaults)) {
+      lines.push(`  ${key} = ${value} <- default`);
+    }
+
+    return [
+      `CI environment for '${stage}' (file fallback ${fileFallback ? "enabled" : "disabled"}), ${lines.length} variable(s):`,
+      ...lines,
+    ].join("\n");
+  }
+
+  /**
+   * Returns the schema defaults that apply because the variable was not set.
+   */
+  private static collectDefaults(
+    stage: EnvironmentStage,
+    configured: Set<string>,
+  ): Record<string, string> {
+    const defaults: Record<string, string> = {};
+    const schema: EnvironmentSchema = ENVIRONMENT_SCHEMA;
+
+    for (const [key, definition] of Object.entries(schema)) {
+      const rule = EnvironmentSchemaValidator.resolveRule(definition, stage);
+      if (!configured.has(key) && !process.env[key] && rule.default !== undefined) {
+        defaults[key] = rule.default;
+      }
+    }
+
+    return defaults;
+  }
+
+  /**
+   * Fails with every required schema variable that is neither injected by the
+   * pipeline nor covered by a default or a fallback file.
+   */
+  public static assertRequiredVariables(stage: EnvironmentStage): void {
+    const missing = EnvironmentSchemaValidator.validate(ENVIRONMENT_SCHEMA, stage)
+      .issues.filter((issue) => issue.kind === "missing")
+      .map((issue) => issue.key);
+
+    if (missing.length === 0) {
+      return;
+    }
+
+    const error = new CategorizedError(
+      ErrorCategories.ENVIRONMENT_AND_DEPENDENCIES,
+      { stage, missing },
+      "CI Environment",
+      `CI pipeline did not provide ${missing.length} required variable(s) for '${stage}': ${missing.join(", ")}`,
+    );
+    ErrorHandler.captureError(error, "assertRequiredVariables", "CI environment is incomplete");
+    throw error;
+  }
+
+  /**
+   * Fails when encrypted values are present but the pipeline did not supply the
+   * stage's secret key variable. Stages whose `secretKeys.providers` leave out
+   * `process-env` get their key elsewhere and are not checked.
+   */
+  public static assertSecretKeyProvided(
+    variables: Record<string, string>,
+    secretKeyVariable: string,
+  ): void {
+    const encryptedKeys = Object.keys(variables).filter((key) =>
+      CryptoManager.isEncrypted(variables[key]),
+    );
+
+    const providers =
+      StageRegistry.findStageBySecretKeyVariable(secretKeyVariable)?.secretKeys.providers;
+
+    if (
+      encryptedKeys.length === 0 ||
+      process.env[secretKeyVariable] ||
+      (providers && !providers.includes("process-env"))
+    ) {
+      return;
+    }
+
+    const error = new CategorizedError(
+      ErrorCategories.SECURITY_AND_ACCESS,
+      { secretKeyVariable, encryptedKeys },
+      "CI Environment",
+      `Encrypted variable(s) ${encryptedKeys.join(", ")} require the CI variable '${secretKeyVariable}'`,
+    );
+    ErrorHandler.captureError(error, "assertSecretKeyProvided", "CI secret key is missing");
+    throw error;
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * Problem found while parsing an environment file. Lines with an issue are either
+ * skipped (invalid keys), override an earlier definition (duplicates), or are
+ * ignored (annotations that are unknown or malformed; `key` is the annotation).
+ */
+export interface EnvironmentFileIssue {
+  kind: "duplicate" | "invalid-key" | "invalid-annotation";
+  key: string;
+  lineNumber: number;
+}
@@ -0,0 +1,83 @@
+import path from "path";
+import EnvFileDocument from "../dotenv/envFileDocument";
+import FileManager from "../../../utils/fileManager/fileManager";
+import FileLock from "../../../utils/fileManager/fileLock";
+import { FileEncoding } from "../../../utils/types/fileManager/file-encoding.enum";
+import ErrorHandler from "../../../utils/errorHandling/errorHandler";
+import logger from "../../../utils/logger/loggerManager";
+
+/**
+ * Single write path for environment files.
+ *
+ * Each update runs under a cross-process `FileLock`, re-reads the file inside the
+ * lock so concurrent workers never overwrite each other's changes, snapshots the
+ * current file to `<file>.bak`, and writes the result atomically with the file's
+ * mode. If the write fails, the snapshot is restored. The snapshot is deleted either
+ * way: it may hold values the update just encrypted.
+ */
+export default class EnvFileWriter {
+  public static getBackupPath(filePath: string): string {
+    return `${filePath}.bak`;
+  }
+
+  /**
+   * Applies a change to an environment file. Missing files start out empty.
+   * @param filePath - Environment file to update
+   * @param mutate - Edits the freshly read document; may be async
+   * @returns Whatever `mutate` returns
+   */
+  public static async update<T>(
+    filePath: string,
+    mutate: (document: EnvFileDocument) => T | Promise<T>,
+  ): Promise<T> {
+    return FileLock.withLock(filePath, async () => {
+      const exists = await FileManager.doesFileExist(filePath);
+      const original = exists ? await FileManager.readFile(filePath, FileEncoding.UTF8) : "";
+      const document = EnvFileDocument.parse(original);
+
+      const result = await mutate(document);
+      const updated = document.toString();
+
+      if (exists && updated === original) {
+        logger.debug(`No changes to write for ${path.basename(filePath)}`);
+        return result;
+      }
+
+      await this.writeWithBackup(filePath, updated, exists);
+      return result;
+    });
+  }
+
+  private static async writeWithBackup(
+    filePath: string,
+    content: string,
+    exists: boolean,
+  ): Promise<void> {
+    const backupPath = this.getBackupPath(filePath);
+
+    if (exists) {
+      await FileManager.copyFile(filePath, backupPath);
+    }
+
+    try {
+      await FileManager.writeFileAtomic(filePath, content, FileEncoding.UTF8);
+      logger.debug(`Updated environment file: ${path.basename(filePath)}`);
+    } catch (error) {
+      if (exists) {
+        await FileManager.copyFile(backupPath, filePath);
+        logger.warn(`Restored ${path.basename(filePath)} from ${path.basename(backupPath)}`);
+      }
+
+      ErrorHandler.captureError(
+        error,
+        "EnvFileWriter.update",
+        `Failed to update environment file: ${filePath}`,
+      );
+      throw error;
+    } finally {
+      if (exists) {
+        await FileManager.deleteFile(backupPath);
+      }
+    }
+  }
+}
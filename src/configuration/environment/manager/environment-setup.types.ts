@@ -0,0 +1,52 @@
+/**
+ * Options controlling how `EnvironmentSetup` loads environment files.
+ */
+export interface EnvironmentSetupOptions {
+  /**
+   * Decrypt encrypted values with the current stage's secret key while loading.
+   * Off unless `ENV_DECRYPT_SECRETS=true`.
+   */
+  decryptSecrets?: boolean;
+
+  /**
+   * Write decrypted plaintext back to process.env. Plaintext is only held in the
+   * secure store unless this is explicitly enabled with `ENV_EXPOSE_SECRETS=true`.
+   */
+  exposeSecretsToProcessEnv?: boolean;
+
+  /**
+   * In CI, also load committed stage files (common, extends and stage layers) for
+   * variables the pipeline did not inject. Off unless `ENV_CI_FILE_FALLBACK=true`.
+   */
+  ciFileFallback?: boolean;
+}
+
+/**
+ * Variables a CI pipeline is expected to inject.
+ */
+export interface ExpectedVariables {
+  keys: string[];
+  /** Keys whose values are masked whatever their name */
+  secretKeys: string[];
+}
+
+export interface DecryptionFailure {
+  key: string;
+  message: string;
+}
+
+export interface DecryptionSummary {
+  decrypted: string[];
+  failures: DecryptionFailure[];
+}
+
+/**
+ * Kind of layer in the environment stack, from lowest to highest precedence.
+ */
+export type EnvironmentLayerKind = "base" | "common" | "extends" | "stage" | "local";
+
+export interface EnvironmentLayer {
+  kind: EnvironmentLayerKind;
+  filePath: string;
+  stage?: string;
+}
@@ -0,0 +1,110 @@
+import fs from "fs";
+import EnvironmentPathUtils from "../../../utils/environment/environmentPathUtils";
+import BaseEnvFileManager from "./baseEnvFileManager";
+import EnvFileDocument from "../dotenv/envFileDocument";
+import { ENVIRONMENT_FILE_CONFIG } from "../dotenv/environment.constants";
+import { FileEncoding } from "../../../utils/types/fileManager/file-encoding.enum";
+import { isEnvironmentStage } from "../dotenv/environment.types";
+import type { EnvironmentStage } from "../dotenv/environment.types";
+import type { EnvironmentLayer, EnvironmentLayerKind } from "./environment-setup.types";
+import ErrorHandler from "../../../utils/errorHandling/errorHandler";
+
+/**
+ * Resolves the ordered stack of environment files for a stage.
+ *
+ * Precedence, from lowest to highest:
+ *   1. envs/.env                  (base file, holds secret keys)
+ *   2. envs/.env.common           (values shared by every stage)
+ *   3. envs/.env.<parent>         (stages pulled in through `# @extends <parent>`, root first)
+ *   4. envs/.env.<stage>          (the selected stage, or its `filePath` in the stages config)
+ *   5. envs/.env.<stage>.local    (gitignored developer overrides, next to the stage file)
+ *   6. process environment        (variables already set in the shell always win)
+ *
+ * Later layers override earlier ones. The stack itself never includes the process
+ * environment; `EnvironmentSetup` applies that rule when merging.
+ */
+export default class EnvironmentLayerResolver {
+  /**
+   * Layers that may be loaded in CI when file fallback is enabled. The base file
+   * (secret keys) and local overrides are never loaded in CI.
+   */
+  public static readonly CI_FALLBACK_LAYERS: readonly EnvironmentLayerKind[] = [
+    "common",
+    "extends",
+    "stage",
+  ];
+
+  /**
+   * Builds the layer stack for a stage, lowest precedence first. Synchronous, so the
+   * Playwright config can call it too.
+   * @param stage - The selected environment stage
+   * @returns Ordered layers; files that do not exist are still listed
+   */
+  public static resolveLayers(stage: EnvironmentStage): EnvironmentLayer[] {
+    const parentStages = this.resolveExtendsChain(stage);
+
+    return [
+      { kind: "base", filePath: BaseEnvFileManager.BASE_ENV_FILE },
+      { kind: "common", filePath: EnvironmentPathUtils.getCommonEnvFilePath() },
+      ...parentStages.map(
+        (parent): EnvironmentLayer => ({
+          kind: "extends",
+          filePath: EnvironmentPathUtils.getEnvironmentFilePath(parent),
+          stage: parent,
+        }),
+      ),
+      { kind: "stage", filePath: EnvironmentPathUtils.getEnvironmentFilePath(stage), stage },
+      {
+        kind: "local",
+        filePath: EnvironmentPathUtils.getLocalEnvironmentFilePath(stage),
+        stage,
+      },
+    ];
+  }
+
+  /**
+   * Follows `# @extends <stage>` directives starting at the given stage.
+   * @returns Parent stages ordered root first, excluding the stage itself
+   * @throws Error on unknown stages or circular inheritance
+   */
+  public static resolveExtendsChain(stage: EnvironmentStage): EnvironmentStage[] {
+    const chain: EnvironmentStage[] = [];
+    const visited = new Set<EnvironmentStage>([stage]);
+    let current = this.readExtendsDirective(EnvironmentPathUtils.getEnvironmentFilePath(stage));
+
+    while (current) {
+      if (!isEnvironmentStage(current)) {
+        ErrorHandler.logAndThrow(
+          `Environment '${stage}' extends unknown stage '${current}'`,
+          "EnvironmentLayerResolver.resolveExtendsChain",
+        );
+      }
+
+      if (visited.has(current)) {
+        ErrorHandler.logAndThrow(
+          `Circular environment inheritance detected: ${[...visited, current].join(" -> ")}`,
+          "EnvironmentLayerResolver.resolveExtendsChain",
+        );
+      }
+
+      visited.add(current);
+      chain.unshift(current);
+      current = this.readExtendsDirective(EnvironmentPathUtils.getEnvironmentFilePath(current));
+    }
+
+    return chain;
+  }
+
+  /**
+   * Reads the `# @extends <stage>` directive from an environment file.
+   * @returns The parent stage name, or null when the file has no directive
+   */
+  public static readExtendsDirective(filePath: string): string | null {
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+
+    const document = EnvFileDocument.parse(fs.readFileSync(filePath, FileEncoding.UTF8));
+    return document.getDirective(ENVIRONMENT_FILE_CONFIG.EXTENDS_DIRECTIVE) ?? null;
+  }
+}
@@ -1,17 +1,52 @@
-import dotenv from "dotenv";
 import EnvironmentDetector from "../detector/environmentDetector";
 import path from "path";
 import BaseEnvFileManager from "./baseEnvFileManager";
 import StageEnvFileManager from "./stageEnvFileManager";
-import { EnvironmentFilePaths } from "../../environment/dotenv/environmentFileMap";
+import EnvironmentLayerResolver from "./environmentLayerResolver";
+import CiEnvironmentValidator from "./ciEnvironmentValidator";
+import { SecretKeyVariables } from "../dotenv/environmentFileMap";
+import EnvironmentInterpolator from "../interpolation/environmentInterpolator";
+import SecretReferences from "../references/secretReferences";
+import EnvFileDocument from "../dotenv/envFileDocument";
+import FileManager from "../../../utils/fileManager/fileManager";
+import { FileEncoding } from "../../../utils/types/fileManager/file-encoding.enum";
 import ErrorHandler from "../../../utils/errorHandling/errorHandler";
+import SecureEnvironment from "../secrets/secureEnvironment";
+import { CategorizedError } from "../../../utils/errorHandling/internals/categorizedError";
+import { ErrorCategories } from "../../../utils/types/errorHandling/error-categories.enum";
 import type { EnvironmentStage } from "../dotenv/environment.types";
+import type { EnvironmentLayer, EnvironmentSetupOptions } from "./environment-setup.types";
+import EffectiveConfigReporter from "../provenance/effectiveConfigReporter";
+import DataSanitizer from "../../../utils/sanitization/dataSanitizer";
+import { ENVIRONMENT_SCHEMA } from "../schema/environmentSchema";
+import EnvironmentSchemaValidator from "../schema/environmentSchemaValidator";
+import type { EnvironmentSchema } from "../schema/variable-schema.types";
+import type { EnvAnnotations } from "../dotenv/env-document.types";
+import type { EffectiveConfigEntry, VariableProvenance } from "../provenance/provenance.types";
 import logger from "../../../utils/logger/loggerManager";
 
 export class EnvironmentSetup {
   // Instance state tracking
   public initialized = false;
   private loadedFiles: string[] = [];
+  private loadedVariables: Record<string, string> = {};
+  private layers: EnvironmentLayer[] = [];
+  private provenance: Record<string, VariableProvenance> = {};
+  private annotations: Record<string, EnvAnnotations> = {};
+  private shellOverrides = new Set<string>();
+  private referencedKeys = new Set<string>();
+  private declaredSecretKeys = new Set<string>();
+  private interpolatedReferences: Record<string, string[]> = {};
+  private readonly options: Required<EnvironmentSetupOptions>;
+
+  constructor(options: EnvironmentSetupOptions = {}) {
+    this.options = {
+      decryptSecrets: options.decryptSecrets ?? process.env.ENV_DECRYPT_SECRETS === "true",
+      exposeSecretsToProcessEnv:
+        options.exposeSecretsToProcessEnv ?? process.env.ENV_EXPOSE_SECRETS === "true",
+      ciFileFallback: options.ciFileFallback ?? process.env.ENV_CI_FILE_FALLBACK === "true",
+    };
+  }
 
   public async initialize(): Promise<void> {
     // Skip if already initialized
@@ -21,121 +56,496 @@ export class EnvironmentSetup {
     }
 
     try {
-      // Skip local file loading in CI environments
-      if (EnvironmentDetector.isCI()) {
-        return;
+      const isCI = EnvironmentDetector.isCI();
+
+      // CI pipelines inject variables instead of shipping local files
+      if (isCI) {
+        await this.loadCiEnvironment();
+      } else {
+        await this.loadEnvironments();
+      }
+
+      await this.resolveSecretReferences();
+
+      if (this.options.decryptSecrets) {
+        await this.decryptLoadedSecrets();
       }
 
-      // Load environment files
-      await this.loadEnvironments();
+      await this.interpolateLoadedVariables();
+      this.validateAnnotatedVariables();
+
+      this.recordProcessOnlyVariables();
       this.initialized = true;
 
-      // Log success only if we loaded at least one file
-      this.logInitializationResult();
+      if (isCI) {
+        logger.info(
+          CiEnvironmentValidator.formatSourceSummary(
+            this.getCurrentEnvironmentStage(),
+            this.getEffectiveConfig(),
+            this.options.ciFileFallback,
+          ),
+        );
+      } else {
+        this.logInitializationResult();
+      }
     } catch (error) {
       ErrorHandler.captureError(error, "initialize", "Failed to set up environment variables");
       throw error;
     }
   }
 
+  /**
+   * Returns the resolved layer stack, lowest precedence first.
+   */
+  public getLayers(): EnvironmentLayer[] {
+    return [...this.layers];
+  }
+
+  /**
+   * Returns where a variable's effective value came from, or undefined if it was
+   * neither loaded from a file nor declared in the schema.
+   */
+  public getProvenance(key: string): VariableProvenance | undefined {
+    return this.provenance[key];
+  }
+
+  /**
+   * Returns the names of the env files that were loaded, lowest precedence first.
+   */
+  public getLoadedFiles(): string[] {
+    return [...this.loadedFiles];
+  }
+
+  public getAllProvenance(): VariableProvenance[] {
+    return Object.values(this.provenance);
+  }
+
+  /**
+   * Returns the `# @...` annotations of every loaded variable, merged across layers.
+   */
+  public getAnnotations(): Record<string, EnvAnnotations> {
+    return { ...this.annotations };
+  }
+
+  /**
+   * Returns the effective value and origin of every tracked variable, masked for display.
+   * Variables annotated `# @secret` (in CI also in `envs/.env.example`), held decrypted
+   * by `SecureEnvironment`, or interpolated from any of those are always masked,
+   * whatever their name.
+   */
+  public getEffectiveConfig(): EffectiveConfigEntry[] {
+    const provenance = this.getAllProvenance();
+    const secretKeys = new Set([
+      ...Object.keys(this.annotations).filter((key) => this.annotations[key].secret),
+      ...this.referencedKeys,
+      ...this.declaredSecretKeys,
+      ...provenance.map(({ key }) => key).filter((key) => SecureEnvironment.has(key)),
+    ]);
+    const isSecret = (key: string) =>
+      secretKeys.has(key) || DataSanitizer.containsSensitiveKey(key);
+
+    for (const [key, references] of Object.entries(this.interpolatedReferences)) {
+      if (references.some(isSecret)) {
+        secretKeys.add(key);
+      }
+    }
+
+    return EffectiveConfigReporter.build(provenance, process.env, [...secretKeys]);
+  }
+
   private logInitializationResult(): void {
     if (this.loadedFiles.length > 0) {
+      const layerStack = [...this.loadedFiles, "process env"].join(" -> ");
       logger.info(
-        `Environment successfully initialized with ${this.loadedFiles.length} config files: ${this.loadedFiles.join(", ")}`,
+        `Environment successfully initialized with ${this.loadedFiles.length} config files (lowest to highest precedence): ${layerStack}`,
       );
     } else {
       logger.warn("Environment initialized but no config files were loaded");
     }
   }
 
-  private async loadEnvironments(): Promise<void> {
-    await this.loadBaseEnvironmentFile();
-    await this.loadEnvironmentStages();
+  /**
+   * Replaces `ref+<scheme>://` values loaded from files with the value they
+   * reference, before decryption and interpolation. Resolved values are written to
+   * process.env so workers see them, and are masked in the effective config.
+   *
+   * @throws CategorizedError listing every reference that failed to resolve
+   */
+  private async resolveSecretReferences(): Promise<void> {
+    const candidates = Object.fromEntries(
+      Object.entries(this.loadedVariables).filter(
+        ([key, value]) => !this.shellOverrides.has(key) && SecretReferences.isReference(value),
+      ),
+    );
+
+    if (Object.keys(candidates).length === 0) {
+      return;
+    }
+
+    const { values, summary } = await SecretReferences.resolveAll(
+      candidates,
+      (name) => process.env[name],
+    );
+
+    for (const [key, value] of Object.entries(values)) {
+      process.env[key] = value;
+      this.loadedVariables[key] = value;
+      this.referencedKeys.add(key);
+    }
+
+    if (summary.failures.length > 0) {
+      const categories = new Set(summary.failures.map((failure) => failure.category));
+      const failedKeys = summary.failures.map((failure) => failure.key);
+      const error = new CategorizedError(
+        categories.size === 1 ? [...categories][0] : ErrorCategories.ENVIRONMENT_AND_DEPENDENCIES,
+        { failures: summary.failures },
+        "Secret Reference Resolution",
+        `Failed to resolve ${failedKeys.length} secret reference(s): ${summary.failures.map((failure) => `${failure.key} (${failure.category}: ${failure.message})`).join("; ")}`,
+      );
+      ErrorHandler.captureError(error, "resolveSecretReferences", "Secret references failed");
+      throw error;
+    }
+
+    logger.info(
+      `Resolved ${summary.resolved.length} secret reference(s): ${summary.resolved.join(", ")}`,
+    );
   }
 
   /**
-   * Loads the base environment file if it exists, otherwise handles the missing file.
+   * Decrypts encrypted values loaded from the environment files into the secure store.
+   * Plaintext is only written back to process.env when exposure is explicitly allowed.
    *
-   * @param baseEnvFilePath - Path to the base environment file
-   * @throws Error if file loading fails
+   * @throws CategorizedError listing every variable that failed to decrypt
    */
-  private async loadBaseEnvironmentFile(): Promise<void> {
-    try {
-      // Check if the base environment file exists
-      const baseEnvExists = await BaseEnvFileManager.doesBaseEnvFileExist();
+  private async decryptLoadedSecrets(): Promise<void> {
+    const summary = await SecureEnvironment.decryptAll(this.loadedVariables);
 
-      if (!baseEnvExists) {
-        BaseEnvFileManager.handleMissingBaseEnvFile();
-        return;
-      }
-
-      // Load the base environment file
-      this.loadEnvironment(BaseEnvFileManager.BASE_ENV_FILE);
-      const baseName = path.basename(BaseEnvFileManager.BASE_ENV_FILE);
-      this.loadedFiles.push(baseName);
+    if (this.options.exposeSecretsToProcessEnv) {
+      SecureEnvironment.exposeToProcessEnv(summary.decrypted);
+      logger.warn(
+        `Decrypted values exposed to process.env: ${summary.decrypted.join(", ") || "none"}`,
+      );
+    }
 
-      logger.info(`Successfully loaded base environment file: ${baseName}`);
-    } catch (error) {
-      ErrorHandler.captureError(
-        error,
-        "loadBaseEnvironmentFile",
-        `Failed to load base environment file at ${BaseEnvFileManager.BASE_ENV_FILE}`,
+    if (summary.failures.length > 0) {
+      const failedKeys = summary.failures.map((failure) => failure.key);
+      const error = new CategorizedError(
+        ErrorCategories.SECURITY_AND_ACCESS,
+        { failures: summary.failures },
+        "Environment Decryption",
+        `Failed to decrypt ${failedKeys.length} environment variable(s): ${failedKeys.join(", ")}`,
       );
+      ErrorHandler.captureError(error, "decryptLoadedSecrets", "Environment decryption failed");
       throw error;
     }
+
+    logger.info(`Decrypted ${summary.decrypted.length} encrypted environment variable(s)`);
+  }
+
+  /**
+   * Expands `${VAR}` references in values loaded from files. References are
+   * resolved across all layers and the process environment.
+   *
+   * Values built from encrypted variables never reach process.env: their plaintext
+   * goes to the secure store (when decryption is enabled) and process.env keeps the
+   * unexpanded template so workers resolve it through `SecureEnvironment`.
+   */
+  private async interpolateLoadedVariables(): Promise<void> {
+    const interpolator = new EnvironmentInterpolator({
+      lookup: (key) => process.env[key],
+      reveal: async (key) => SecureEnvironment.peek(key),
+      locate: (key) => this.provenance[key]?.definition,
+    });
+
+    const expandedKeys: string[] = [];
+
+    for (const [key, rawValue] of Object.entries(this.loadedVariables)) {
+      if (this.shellOverrides.has(key) || !EnvironmentInterpolator.hasReferences(rawValue)) {
+        continue;
+      }
+
+      const result = await interpolator.resolve(key);
+      if (!result) {
+        continue;
+      }
+      this.interpolatedReferences[key] = result.references;
+
+      if (!result.secret) {
+        process.env[key] = result.value;
+        this.loadedVariables[key] = result.value;
+      } else if (!result.unresolved) {
+        SecureEnvironment.store(key, result.value);
+
+        if (this.options.exposeSecretsToProcessEnv) {
+          SecureEnvironment.exposeToProcessEnv([key]);
+        }
+      }
+
+      expandedKeys.push(key);
+    }
+
+    if (expandedKeys.length > 0) {
+      logger.debug(`Interpolated environment variables: ${expandedKeys.join(", ")}`);
+    }
+  }
+
+  /**
+   * Enforces `# @required` and `# @type` annotations on the loaded values, after
+   * interpolation. Encrypted values are not type-checked.
+   *
+   * @throws CategorizedError listing every missing or malformed annotated variable
+   */
+  private validateAnnotatedVariables(): void {
+    const schema: EnvironmentSchema = {};
+
+    for (const [key, annotations] of Object.entries(this.annotations)) {
+      if (annotations.required || annotations.type) {
+        schema[key] = {
+          format: annotations.type ?? "string",
+          required: annotations.required,
+          values: annotations.values,
+          description: annotations.description,
+        };
+      }
+    }
+
+    if (Object.keys(schema).length > 0) {
+      EnvironmentSchemaValidator.assertValid(schema, this.getCurrentEnvironmentStage());
+    }
+  }
+
+  /**
+   * Merges a layer's annotations into those of lower layers. Flags stay set once a
+   * layer sets them; a type or description from a higher layer replaces the lower one.
+   */
+  private mergeAnnotations(layerAnnotations: Record<string, EnvAnnotations>): void {
+    for (const [key, annotations] of Object.entries(layerAnnotations)) {
+      const previous = this.annotations[key];
+      this.annotations[key] = {
+        secret: annotations.secret || (previous?.secret ?? false),
+        required: annotations.required || (previous?.required ?? false),
+        type: annotations.type ?? previous?.type,
+        values: annotations.type ? annotations.values : previous?.values,
+        description: annotations.description ?? previous?.description,
+      };
+    }
   }
 
   /**
-   * Loads environment-specific configuration
+   * Loads every layer of the environment stack and applies the merged result to
+   * process.env. See `EnvironmentLayerResolver` for the precedence rules.
    */
-  private async loadEnvironmentStages(): Promise<void> {
-    const env = EnvironmentDetector.getCurrentEnvironmentStage();
-    const stageEnvironmentFilePath = EnvironmentFilePaths[env];
-    await this.loadStageEnvironmentFile(stageEnvironmentFilePath, env);
+  private async loadEnvironments(): Promise<void> {
+    const stage = this.getCurrentEnvironmentStage();
+    this.layers = EnvironmentLayerResolver.resolveLayers(stage);
+    await this.loadLayers(stage);
+  }
+
+  /**
+   * CI strategy: variables come from the pipeline. Committed stage files can be
+   * loaded as a fallback, but the base file (secret keys) and local overrides never
+   * are. Fails when required variables are missing, or when encrypted values are
+   * present without the stage's secret key variable.
+   */
+  private async loadCiEnvironment(): Promise<void> {
+    const stage = this.getCurrentEnvironmentStage();
+    const expected = await CiEnvironmentValidator.readExpectedVariables();
+    const injectedVariables = CiEnvironmentValidator.collectInjectedVariables(expected.keys);
+    expected.secretKeys.forEach((key) => this.declaredSecretKeys.add(key));
+
+    // Pipeline values are taken literally and always win over fallback files
+    for (const [key, value] of Object.entries(injectedVariables)) {
+      this.shellOverrides.add(key);
+      this.loadedVariables[key] = value;
+      this.recordProcessSource(key);
+    }
+
+    if (this.options.ciFileFallback) {
+      const layers = EnvironmentLayerResolver.resolveLayers(stage);
+      this.layers = layers.filter((layer) =>
+        EnvironmentLayerResolver.CI_FALLBACK_LAYERS.includes(layer.kind),
+      );
+      await this.loadLayers(stage);
+    }
+
+    CiEnvironmentValidator.assertRequiredVariables(stage);
+    CiEnvironmentValidator.assertSecretKeyProvided(this.loadedVariables, SecretKeyVariables[stage]);
+  }
+
+  private async loadLayers(stage: EnvironmentStage): Promise<void> {
+    const shellVariables = new Set(Object.keys(process.env));
+    const mergedVariables: Record<string, string> = {};
+
+    for (const layer of this.layers) {
+      const variables = await this.loadLayer(layer, stage);
+      Object.assign(mergedVariables, variables);
+    }
+
+    this.applyToProcessEnv(mergedVariables, shellVariables);
   }
 
   private getCurrentEnvironmentStage(): EnvironmentStage {
     return EnvironmentDetector.getCurrentEnvironmentStage();
   }
 
-  private async loadStageEnvironmentFile(
-    filePath: string,
-    environmentStage: string,
-  ): Promise<boolean> {
+  /**
+   * Loads a single layer of the stack if its file exists.
+   *
+   * @returns The parsed variables, or an empty object when the file is missing
+   * @throws Error if file loading fails
+   */
+  private async loadLayer(
+    layer: EnvironmentLayer,
+    stage: EnvironmentStage,
+  ): Promise<Record<string, string>> {
     try {
-      const fileExists = await StageEnvFileManager.doesEnvironmentFileExist(filePath);
+      const fileExists = await StageEnvFileManager.doesEnvironmentFileExist(layer.filePath);
 
       if (!fileExists) {
-        StageEnvFileManager.logEnvironmentFileNotFound(filePath, environmentStage);
-        return false;
+        this.handleMissingLayer(layer, stage);
+        return {};
       }
 
-      // Load the environment file
-      const baseName = path.basename(filePath);
-      this.loadEnvironment(filePath);
+      const document = await this.loadEnvironment(layer.filePath);
+      const variables = this.withoutSecretKeys(layer, document.toObject());
+      this.recordProvenance(layer, variables, document);
+      this.mergeAnnotations(document.getAllAnnotations());
+      const baseName = path.basename(layer.filePath);
       this.loadedFiles.push(baseName);
 
-      logger.info(`Successfully loaded environment file: ${baseName}`);
-      return true;
+      logger.info(`Successfully loaded ${layer.kind} environment file: ${baseName}`);
+      return variables;
     } catch (error) {
       ErrorHandler.captureError(
         error,
-        "loadStageEnvironmentFile",
-        `Failed to load environment file '${filePath}' for ${environmentStage} environment`,
+        "loadLayer",
+        `Failed to load ${layer.kind} environment file '${layer.filePath}' for ${stage} environment`,
       );
       throw error;
     }
   }
 
-  private loadEnvironment(filePath: string): void {
-    try {
-      const result = dotenv.config({ path: filePath, override: true });
+  /**
+   * Keeps secret keys left in the base file out of process.env. They are read from
+   * the file only to import them into the keystore.
+   */
+  private withoutSecretKeys(
+    layer: EnvironmentLayer,
+    variables: Record<string, string>,
+  ): Record<string, string> {
+    if (layer.kind !== "base") {
+      return variables;
+    }
 
-      if (result.error) {
-        throw new Error(
-          `Error loading environment variables from ${filePath}: ${result.error.message}`,
-        );
+    const secretKeyVariables: string[] = Object.values(SecretKeyVariables);
+    const found = Object.keys(variables).filter((key) => secretKeyVariables.includes(key));
+
+    if (found.length === 0) {
+      return variables;
+    }
+
+    logger.warn(
+      `${path.basename(layer.filePath)} holds secret key(s) ${found.join(", ")}; they are not loaded into process.env and are imported into the keystore on first use`,
+    );
+    return Object.fromEntries(
+      Object.entries(variables).filter(([key]) => !secretKeyVariables.includes(key)),
+    );
+  }
+
+  private handleMissingLayer(layer: EnvironmentLayer, stage: EnvironmentStage): void {
+    switch (layer.kind) {
+      case "base":
+        BaseEnvFileManager.handleMissingBaseEnvFile();
+        break;
+      case "stage":
+      case "extends":
+        StageEnvFileManager.logEnvironmentFileNotFound(layer.filePath, layer.stage ?? stage);
+        break;
+      default:
+        logger.debug(`Optional ${layer.kind} environment file not found: ${layer.filePath}`);
+    }
+  }
+
+  /**
+   * Applies merged file values to process.env. Variables that were already set in
+   * the shell before loading take precedence over every file layer.
+   */
+  private applyToProcessEnv(
+    mergedVariables: Record<string, string>,
+    shellVariables: Set<string>,
+  ): void {
+    for (const [key, value] of Object.entries(mergedVariables)) {
+      if (shellVariables.has(key)) {
+        this.shellOverrides.add(key);
+        this.recordProcessSource(key);
+      } else {
+        process.env[key] = value;
+      }
+
+      this.loadedVariables[key] = process.env[key] ?? value;
+    }
+
+    if (this.shellOverrides.size > 0) {
+      logger.debug(
+        `Process environment overrides file values for: ${[...this.shellOverrides].join(", ")}`,
+      );
+    }
+  }
+
+  /**
+   * Records the file and line each variable was defined at. A later layer becomes
+   * the effective definition and the earlier one is kept as overridden.
+   */
+  private recordProvenance(
+    layer: EnvironmentLayer,
+    variables: Record<string, string>,
+    document: EnvFileDocument,
+  ): void {
+    const lineNumbers = StageEnvFileManager.locateEnvironmentVariables(document);
+
+    for (const key of Object.keys(variables)) {
+      const previous = this.provenance[key];
+      this.provenance[key] = {
+        key,
+        source: layer.kind,
+        definition: {
+          layer: layer.kind,
+          filePath: layer.filePath,
+          lineNumber: lineNumbers[key] ?? 0,
+        },
+        overrides: previous?.definition ? [...previous.overrides, previous.definition] : [],
+      };
+    }
+  }
+
+  /**
+   * Marks a variable as coming from the process environment, keeping any file
+   * definition it shadows as overridden.
+   */
+  private recordProcessSource(key: string): void {
+    const previous = this.provenance[key];
+    this.provenance[key] = {
+      key,
+      source: "process",
+      overrides: previous?.definition ? [...previous.overrides, previous.definition] : [],
+    };
+  }
+
+  /**
+   * Tracks schema variables that were only set in the process environment.
+   */
+  private recordProcessOnlyVariables(): void {
+    for (const key of Object.keys(ENVIRONMENT_SCHEMA)) {
+      if (!this.provenance[key] && process.env[key] !== undefined) {
+        this.recordProcessSource(key);
       }
+    }
+  }
+
+  private async loadEnvironment(filePath: string): Promise<EnvFileDocument> {
+    try {
+      const content = await FileManager.readFile(filePath, FileEncoding.UTF8);
+      return EnvFileDocument.parse(content);
     } catch (error) {
       ErrorHandler.captureError(
         error,
@@ -0,0 +1,53 @@
+import fs from "fs";
+import EnvironmentDetector from "../detector/environmentDetector";
+import EnvironmentLayerResolver from "./environmentLayerResolver";
+import EnvFileDocument from "../dotenv/envFileDocument";
+import { FileEncoding } from "../../../utils/types/fileManager/file-encoding.enum";
+import type { EnvironmentStage } from "../dotenv/environment.types";
+import type { EnvironmentLayer } from "./environment-setup.types";
+
+/**
+ * Synchronous, read-only view of the layered environment for a stage.
+ *
+ * `playwright.config.ts` is evaluated before global setup, so it cannot use the
+ * async `EnvironmentSetup`. The snapshot applies the same layer precedence and CI
+ * rules but never writes to process.env, decrypts or interpolates; global setup
+ * still performs the full initialization.
+ */
+export default class EnvironmentSnapshot {
+  private constructor(private readonly variables: Record<string, string>) {}
+
+  public static load(
+    stage: EnvironmentStage = EnvironmentDetector.getCurrentEnvironmentStage(),
+  ): EnvironmentSnapshot {
+    const variables: Record<string, string> = {};
+
+    for (const layer of this.selectLayers(stage)) {
+      if (fs.existsSync(layer.filePath)) {
+        const content = fs.readFileSync(layer.filePath, FileEncoding.UTF8);
+        Object.assign(variables, EnvFileDocument.parse(content).toObject());
+      }
+    }
+
+    return new EnvironmentSnapshot(variables);
+  }
+
+  /**
+   * Returns a variable's value; the process environment wins over file layers.
+   */
+  public get(key: string): string | undefined {
+    return process.env[key] ?? this.variables[key];
+  }
+
+  private static selectLayers(stage: EnvironmentStage): EnvironmentLayer[] {
+    const layers = EnvironmentLayerResolver.resolveLayers(stage);
+
+    if (!EnvironmentDetector.isCI()) {
+      return layers;
+    }
+
+    return process.env.ENV_CI_FILE_FALLBACK === "true"
+      ? layers.filter((layer) => EnvironmentLayerResolver.CI_FALLBACK_LAYERS.includes(layer.kind))
+      : [];
+  }
+}
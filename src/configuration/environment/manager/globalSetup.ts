@@ -1,20 +1,155 @@
+import type { FullConfig } from "@playwright/test";
 import { EnvironmentSetup } from "../manager/environmentSetup";
+import EffectiveConfigReporter from "../provenance/effectiveConfigReporter";
+import TestPolicyEnforcer from "../../guardrails/testPolicyEnforcer";
+import GuardrailAuditLog from "../../guardrails/guardrailAuditLog";
+import PreflightRunner from "../../preflight/preflightRunner";
+import RunManifestWriter from "../../manifest/runManifestWriter";
+import StageRegistry from "../stages/stageRegistry";
+import EnvironmentSchemaValidator from "../schema/environmentSchemaValidator";
+import EnvironmentDetector from "../detector/environmentDetector";
+import CiContextDetector from "../detector/ciContextDetector";
 import ErrorHandler from "../../../utils/errorHandling/errorHandler";
+import type { EffectiveConfigEntry } from "../provenance/provenance.types";
+import logger from "../../../utils/logger/loggerManager";
 
-async function initializeEnvironment(): Promise<void> {
+async function initializeEnvironment(): Promise<EnvironmentSetup> {
   try {
     // Initialize the environment setup
     const environmentSetup = new EnvironmentSetup();
     await environmentSetup.initialize();
+    return environmentSetup;
   } catch (error) {
     ErrorHandler.captureError(error, "initializeEnvironment", "Environment initialization failed");
     throw error;
   }
 }
 
-async function globalSetup(): Promise<void> {
+async function reportEffectiveConfig(
+  environmentSetup: EnvironmentSetup,
+  config: FullConfig,
+): Promise<EffectiveConfigEntry[]> {
   try {
-    await initializeEnvironment();
+    const entries = environmentSetup.getEffectiveConfig();
+    await EffectiveConfigReporter.publish(entries);
+
+    // Metadata set here is shown in the test report
+    config.metadata.effectiveConfig = Object.fromEntries(
+      entries.map((entry) => [entry.key, `${entry.value} <- ${entry.source}`]),
+    );
+    return entries;
+  } catch (error) {
+    ErrorHandler.captureError(error, "reportEffectiveConfig", "Effective config report failed");
+    throw error;
+  }
+}
+
+async function writeRunManifest(
+  envFiles: string[],
+  effectiveConfig: EffectiveConfigEntry[],
+  config: FullConfig,
+): Promise<void> {
+  try {
+    await RunManifestWriter.start({
+      stage: EnvironmentDetector.getCurrentEnvironmentStage(),
+      envFiles,
+      effectiveConfig,
+      playwrightVersion: config.version,
+      shard: config.shard ? { index: config.shard.current, total: config.shard.total } : undefined,
+    });
+    config.metadata.runManifest = RunManifestWriter.MANIFEST_FILE;
+  } catch (error) {
+    ErrorHandler.captureError(error, "writeRunManifest", "Run manifest could not be written");
+    throw error;
+  }
+}
+
+async function applyTestPolicy(config: FullConfig): Promise<void> {
+  try {
+    TestPolicyEnforcer.assertOverrideMatchesStage();
+
+    const policy = TestPolicyEnforcer.describe();
+    if (!policy) {
+      return;
+    }
+
+    config.metadata.testPolicy = policy;
+
+    if (TestPolicyEnforcer.isOverrideConfirmed()) {
+      // Audited once per run; each test that only runs because of it is audited too
+      await GuardrailAuditLog.record({ event: "override-confirmed", reason: policy });
+    } else {
+      logger.warn(policy);
+    }
+  } catch (error) {
+    ErrorHandler.captureError(error, "applyTestPolicy", "Test policy check failed");
+    throw error;
+  }
+}
+
+async function runPreflightChecks(config: FullConfig): Promise<void> {
+  try {
+    const stage = StageRegistry.getStage(EnvironmentDetector.getCurrentEnvironmentStage());
+    if (stage.preflight.enabled === false) {
+      logger.info(`Pre-flight checks are disabled for '${stage.name}'`);
+      return;
+    }
+
+    // Fail fast with one categorized report before any worker starts
+    const report = await PreflightRunner.run();
+    await PreflightRunner.publish(report);
+    config.metadata.preflight = `${report.errors} error(s), ${report.warnings} warning(s)`;
+    PreflightRunner.assertPassed(report);
+  } catch (error) {
+    ErrorHandler.captureError(error, "runPreflightChecks", "Pre-flight checks failed");
+    throw error;
+  }
+}
+
+function validateEnvironment(): void {
+  try {
+    // Runs whatever the stage's pre-flight settings are
+    EnvironmentSchemaValidator.assertValid();
+  } catch (error) {
+    ErrorHandler.captureError(error, "validateEnvironment", "Environment validation failed");
+    throw error;
+  }
+}
+
+/**
+ * Set by commands whose specs only use throwaway keys and temporary files. They do
+ * not load the stage environment, so they run without stage files or, in CI, without
+ * the variables a pipeline injects for the suite.
+ */
+function isStandaloneRun(): boolean {
+  return process.env.STANDALONE_RUN === "true";
+}
+
+function logCiContext(): void {
+  const context = EnvironmentDetector.getCiContext();
+  logger.info(`Run context: ${CiContextDetector.describe(context)}`);
+}
+
+async function globalSetup(config: FullConfig): Promise<void> {
+  try {
+    logCiContext();
+
+    if (isStandaloneRun()) {
+      logger.info(
+        "Standalone run: the stage environment is not loaded; schema validation and pre-flight checks are skipped",
+      );
+      await writeRunManifest([], [], config);
+      await applyTestPolicy(config);
+      return;
+    }
+
+    const environmentSetup = await initializeEnvironment();
+    const effectiveConfig = await reportEffectiveConfig(environmentSetup, config);
+    // Written before the policy and pre-flight checks so a failed run still has one
+    await writeRunManifest(environmentSetup.getLoadedFiles(), effectiveConfig, config);
+    await applyTestPolicy(config);
+    await runPreflightChecks(config);
+    validateEnvironment();
   } catch (error) {
     ErrorHandler.captureError(error, "globalSetup", "Global setup failed");
     throw error;
@@ -0,0 +1,13 @@
+import RunManifestWriter from "../../manifest/runManifestWriter";
+import ErrorHandler from "../../../utils/errorHandling/errorHandler";
+
+async function globalTeardown(): Promise<void> {
+  try {
+    await RunManifestWriter.finish();
+  } catch (error) {
+    ErrorHandler.captureError(error, "globalTeardown", "Global teardown failed");
+    throw error;
+  }
+}
+
+export default globalTeardown;
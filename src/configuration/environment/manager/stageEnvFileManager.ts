@@ -1,7 +1,8 @@
 import FileManager from "../../../utils/fileManager/fileManager";
-import { SECURITY_CONSTANTS } from "../../../cryptography/types/security.constant";
+import EnvFileDocument from "../dotenv/envFileDocument";
+import EnvFileWriter from "./envFileWriter";
 import { FileEncoding } from "../../../utils/types/fileManager/file-encoding.enum";
-import ErrorHandler from "../../../utils/errorHandling/errorHandler";
+import type { EnvironmentFileIssue } from "./env-file.types";
 import logger from "../../../utils/logger/loggerManager";
 
 export default class StageEnvFileManager {
@@ -26,103 +27,101 @@ export default class StageEnvFileManager {
   }
 
   /**
-   * Writes the updated lines back to the environment file.
+   * Reads the environment file as an editable document.
    */
-  public static async writeEnvironmentFileLines(filePath: string, lines: string[]): Promise<void> {
-    try {
-      const content = lines.join("\n");
-      await FileManager.writeFile(filePath, content, FileEncoding.UTF8);
-      logger.debug(`Successfully wrote ${lines.length} lines to ${filePath}`);
-    } catch (error) {
-      ErrorHandler.captureError(
-        error,
-        "writeEnvironmentFileLines",
-        "Failed to write environment file",
-      );
-      throw error;
+  public static async readEnvironmentDocument(filePath: string): Promise<EnvFileDocument> {
+    const exists = await FileManager.doesFileExist(filePath);
+    if (!exists) {
+      throw new Error(`Environment file not found: ${filePath}`);
     }
+
+    const content = await FileManager.readFile(filePath, FileEncoding.UTF8);
+    return EnvFileDocument.parse(content);
   }
 
   /**
-   * Extracts all environment variables from the file lines.
+   * Updates the environment file under a file lock, preserving its formatting.
+   * See `EnvFileWriter` for the locking, backup and atomic write guarantees.
    */
-  public static extractEnvironmentVariables(lines: string[]): Record<string, string> {
-    const variables: Record<string, string> = {};
-    let lineNumber = 0;
-
-    for (const line of lines) {
-      lineNumber++;
-      const parsedVariable = this.parseEnvironmentLine(line, lineNumber);
-
-      if (parsedVariable) {
-        const [key, value] = parsedVariable;
-
-        if (Object.prototype.hasOwnProperty.call(variables, key)) {
-          logger.warn(`Duplicate environment variable '${key}' found at line ${lineNumber}`);
-        }
+  public static async updateEnvironmentDocument<T>(
+    filePath: string,
+    mutate: (document: EnvFileDocument) => T | Promise<T>,
+  ): Promise<T> {
+    return EnvFileWriter.update(filePath, mutate);
+  }
 
-        variables[key] = value;
+  /**
+   * Extracts all environment variables from a parsed file, logging its issues.
+   * @param document - The parsed environment file
+   * @param issues - Optional collector for duplicate and invalid keys
+   */
+  public static extractEnvironmentVariables(
+    document: EnvFileDocument,
+    issues?: EnvironmentFileIssue[],
+  ): Record<string, string> {
+    for (const issue of document.getIssues()) {
+      if (issue.kind === "duplicate") {
+        logger.warn(
+          `Duplicate environment variable '${issue.key}' found at line ${issue.lineNumber}`,
+        );
+      } else if (issue.kind === "invalid-annotation") {
+        logger.warn(`Unknown or malformed annotation '${issue.key}' at line ${issue.lineNumber}`);
+      } else {
+        logger.warn(
+          `Invalid environment variable key format: '${issue.key}' at line ${issue.lineNumber}`,
+        );
       }
+      issues?.push(issue);
     }
 
+    const variables = document.toObject();
     logger.debug(`Extracted ${Object.keys(variables).length} environment variables`);
     return variables;
   }
 
   /**
-   * Parses a single environment file line to extract key-value pairs.
+   * Maps each variable to the comment describing it: the comment lines directly
+   * above its first definition, or its inline comment. Annotations and directives
+   * such as `# @extends` are not part of the description.
    */
-  public static parseEnvironmentLine(line: string, lineNumber?: number): [string, string] | null {
-    const trimmedLine = line.trim();
-
-    // Skip empty lines, comments, and lines without equals
-    if (!trimmedLine || trimmedLine.startsWith("#") || !trimmedLine.includes("=")) {
-      return null;
-    }
+  public static extractEnvironmentComments(document: EnvFileDocument): Record<string, string> {
+    const comments: Record<string, string> = {};
+    let pending: string[] = [];
+
+    for (const node of document.getNodes()) {
+      if (node.type === "comment") {
+        const text = node.lines[0].trim().replace(/^#\s*/, "");
+        if (!text.startsWith("@")) {
+          pending.push(text);
+        }
+        continue;
+      }
 
-    const equalIndex = trimmedLine.indexOf("=");
-    const key = trimmedLine.substring(0, equalIndex).trim();
-    const value = trimmedLine.substring(equalIndex + 1);
+      if (node.type === "entry" && !(node.key in comments)) {
+        const inline = node.suffix.replace(/^\s*#?\s*/, "").trim();
+        const description = pending.join(" ").trim() || inline;
+        if (description) {
+          comments[node.key] = description;
+        }
+      }
 
-    // Validate key format
-    if (!key || !SECURITY_CONSTANTS.VALIDATION.ENV_VAR_KEY_PATTERN.test(key)) {
-      const lineInfo = lineNumber ? ` at line ${lineNumber}` : "";
-      logger.warn(`Invalid environment variable key format: '${key}'${lineInfo}`);
-      return null;
+      pending = [];
     }
 
-    return [key, value];
+    return comments;
   }
 
   /**
-   * Updates the environment file lines with a new value for the specified variable.
+   * Maps each variable to the line number of its effective (last) definition.
    */
-  public static updateEnvironmentFileLines(
-    existingLines: string[],
-    envVariable: string,
-    value: string,
-  ): string[] {
-    let wasUpdated = false;
-
-    const updatedLines = existingLines.map((line) => {
-      const trimmedLine = line.trim();
-
-      // Look for the exact variable assignment
-      if (trimmedLine.startsWith(`${envVariable}=`)) {
-        wasUpdated = true;
-        return `${envVariable}=${value}`;
-      }
-
-      return line;
-    });
+  public static locateEnvironmentVariables(document: EnvFileDocument): Record<string, number> {
+    const locations: Record<string, number> = {};
 
-    // If the variable wasn't found, append it to the end
-    if (!wasUpdated) {
-      updatedLines.push(`${envVariable}=${value}`);
-      logger.debug(`Added new environment variable: ${envVariable}`);
+    for (const entry of document.getEntries()) {
+      locations[entry.key] = entry.lineNumber;
     }
 
-    return updatedLines;
+    return locations;
   }
 
   /**
@@ -0,0 +1,19 @@
+/**
+ * Variables to layer on the loaded environment. `undefined` unsets a variable.
+ */
+export type EnvironmentOverrides = Record<string, string | undefined>;
+
+export interface OverriddenVariable {
+  /** process.env value before the first override */
+  value: string | undefined;
+  /** Decrypted value cached by SecureEnvironment before the first override */
+  plaintext: string | undefined;
+}
+
+/**
+ * Playwright option that applies overrides to every test of a spec, describe block
+ * or project.
+ */
+export interface EnvironmentOverrideOptions {
+  env: EnvironmentOverrides;
+}
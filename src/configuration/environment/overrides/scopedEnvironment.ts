@@ -0,0 +1,113 @@
+import SecureEnvironment from "../secrets/secureEnvironment";
+import { SECURITY_CONSTANTS } from "../../../cryptography/types/security.constant";
+import type { EnvironmentOverrides, OverriddenVariable } from "./environment-overrides.types";
+import ErrorHandler from "../../../utils/errorHandling/errorHandler";
+import logger from "../../../utils/logger/loggerManager";
+
+/**
+ * Overrides environment variables for one test and puts them back afterwards.
+ *
+ * Overrides are written to process.env, so `EnvironmentVariables`,
+ * `EnvironmentDetector` and `SecureEnvironment` all see them. A worker runs one test
+ * at a time, so nothing leaks as long as `restore()` is called, which the
+ * environment fixture does after every test.
+ *
+ * The stage variables cannot be overridden: env files and secrets are loaded once
+ * per run for the stage it started with.
+ */
+export default class ScopedEnvironment {
+  public static readonly PROTECTED_VARIABLES = ["ENV", "NODE_ENV"];
+
+  private readonly originals = new Map<string, OverriddenVariable>();
+
+  constructor(overrides: EnvironmentOverrides = {}) {
+    this.apply(overrides);
+  }
+
+  /**
+   * Sets or unsets several variables until the scope is restored.
+   */
+  public apply(overrides: EnvironmentOverrides): void {
+    for (const [key, value] of Object.entries(overrides)) {
+      this.set(key, value);
+    }
+  }
+
+  /**
+   * Sets a variable until the scope is restored. Encrypted values are decrypted on access
+   * like loaded ones.
+   * @param key - Variable name
+   * @param value - New value, or undefined to unset the variable
+   */
+  public set(key: string, value: string | undefined): void {
+    this.assertOverridable(key);
+
+    if (!this.originals.has(key)) {
+      this.originals.set(key, { value: process.env[key], plaintext: SecureEnvironment.peek(key) });
+    }
+
+    // A value decrypted before the override must not shadow it
+    SecureEnvironment.forget(key);
+
+    if (value === undefined) {
+      delete process.env[key];
+    } else {
+      process.env[key] = value;
+    }
+  }
+
+  public unset(key: string): void {
+    this.set(key, undefined);
+  }
+
+  public get(key: string): string | undefined {
+    return process.env[key];
+  }
+
+  /**
+   * Returns the names of the variables overridden in this scope.
+   */
+  public getOverriddenKeys(): string[] {
+    return [...this.originals.keys()];
+  }
+
+  /**
+   * Puts back every overridden variable and its cached plaintext.
+   */
+  public restore(): void {
+    for (const [key, original] of this.originals) {
+      if (original.value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = original.value;
+      }
+
+      SecureEnvironment.forget(key);
+      if (original.plaintext !== undefined) {
+        SecureEnvironment.store(key, original.plaintext);
+      }
+    }
+
+    if (this.originals.size > 0) {
+      logger.debug(`Restored environment overrides: ${this.getOverriddenKeys().join(", ")}`);
+    }
+
+    this.originals.clear();
+  }
+
+  private assertOverridable(key: string): void {
+    if (!SECURITY_CONSTANTS.VALIDATION.ENV_VAR_KEY_PATTERN.test(key)) {
+      ErrorHandler.logAndThrow(
+        `Invalid environment override '${key}': names may only contain letters, digits and '_'`,
+        "ScopedEnvironment.set",
+      );
+    }
+
+    if (ScopedEnvironment.PROTECTED_VARIABLES.includes(key)) {
+      ErrorHandler.logAndThrow(
+        `'${key}' selects the stage and cannot be overridden per test; start a run for the other stage instead`,
+        "ScopedEnvironment.set",
+      );
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import path from "path";
+import { CryptoManager } from "../../../cryptography/manager/cryptoManager";
+import DataSanitizer from "../../../utils/sanitization/dataSanitizer";
+import FileManager from "../../../utils/fileManager/fileManager";
+import { FileEncoding } from "../../../utils/types/fileManager/file-encoding.enum";
+import { winstonLoggerConfig } from "../../../utils/types/logger/logger.config";
+import type {
+  EffectiveConfigEntry,
+  VariableDefinitionSite,
+  VariableProvenance,
+} from "./provenance.types";
+import logger from "../../../utils/logger/loggerManager";
+
+/**
+ * Builds the sanitized "effective config" report from variable provenance.
+ *
+ * Encrypted values are only labelled, and values of sensitive variables (any name
+ * containing a sensitive key, e.g. `PORTAL_PASSWORD`) are masked by `DataSanitizer`.
+ */
+export default class EffectiveConfigReporter {
+  public static readonly REPORT_FILE = path.join(
+    winstonLoggerConfig.logFilePaths.LOG_DIR,
+    "effective-config.json",
+  );
+
+  private static readonly ENCRYPTED_LABEL = "[encrypted]";
+
+  /**
+   * Builds one masked entry per variable, sorted by key.
+   * @param provenance - Provenance of each variable
+   * @param source - Effective values, defaults to process.env
+   * @param secretKeys - Variables to mask regardless of their name, e.g. `# @secret` ones
+   */
+  public static build(
+    provenance: VariableProvenance[],
+    source: NodeJS.ProcessEnv = process.env,
+    secretKeys: string[] = [],
+  ): EffectiveConfigEntry[] {
+    const displayValues: Record<string, string> = {};
+
+    for (const { key } of provenance) {
+      const value = source[key] ?? "";
+      displayValues[key] = CryptoManager.isEncrypted(value) ? this.ENCRYPTED_LABEL : value;
+    }
+
+    const sensitiveKeys = Object.keys(displayValues).filter(
+      (key) => secretKeys.includes(key) || DataSanitizer.containsSensitiveKey(key),
+    );
+    const masked = DataSanitizer.sanitize(displayValues, {
+      sensitiveKeys: [...DataSanitizer.getDefaultParams().sensitiveKeys, ...sensitiveKeys],
+    });
+
+    return [...provenance]
+      .sort((a, b) => a.key.localeCompare(b.key))
+      .map((entry) => ({
+        key: entry.key,
+        value: masked[entry.key],
+        source: entry.definition ? this.describeSite(entry.definition) : entry.source,
+        overrides: entry.overrides.map((site) => this.describeSite(site)),
+      }));
+  }
+
+  /**
+   * Formats the report with one line per variable.
+   */
+  public static format(entries: EffectiveConfigEntry[]): string {
+    const lines = entries.map((entry) => {
+      const overrides =
+        entry.overrides.length > 0 ? ` (overrides ${entry.overrides.join(", ")})` : "";
+      return `  ${entry.key} = ${entry.value} <- ${entry.source}${overrides}`;
+    });
+
+    return [`Effective environment config (${entries.length} variable(s)):`, ...lines].join("\n");
+  }
+
+  /**
+   * Logs the report and writes it as JSON next to the log files.
+   */
+  public static async publish(entries: EffectiveConfigEntry[]): Promise<void> {
+    logger.info(this.format(entries));
+    await FileManager.writeFile(
+      this.REPORT_FILE,
+      JSON.stringify(entries, null, 2),
+      "effectiveConfig",
+      FileEncoding.UTF8,
+    );
+  }
+
+  private static describeSite(site: VariableDefinitionSite): string {
+    return `${path.basename(site.filePath)}:${site.lineNumber}`;
+  }
+}
@@ -0,0 +1,38 @@
+import type { EnvironmentLayerKind } from "../manager/environment-setup.types";
+
+/**
+ * Layer a variable's effective value came from. `process` means the value was
+ * already set in the shell or injected by the pipeline.
+ */
+export type VariableSource = EnvironmentLayerKind | "process";
+
+/**
+ * A single definition of a variable in an environment file.
+ */
+export interface VariableDefinitionSite {
+  layer: EnvironmentLayerKind;
+  filePath: string;
+  lineNumber: number;
+}
+
+/**
+ * Where a variable's effective value came from and which definitions it replaced.
+ */
+export interface VariableProvenance {
+  key: string;
+  source: VariableSource;
+  /** Winning file definition, absent when the process environment won */
+  definition?: VariableDefinitionSite;
+  /** Definitions shadowed by the effective value, lowest precedence first */
+  overrides: VariableDefinitionSite[];
+}
+
+/**
+ * One row of the effective-config report. Values are masked for display.
+ */
+export interface EffectiveConfigEntry {
+  key: string;
+  value: string;
+  source: string;
+  overrides: string[];
+}
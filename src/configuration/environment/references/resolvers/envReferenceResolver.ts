@@ -0,0 +1,32 @@
+import { CategorizedError } from "../../../../utils/errorHandling/internals/categorizedError";
+import { ErrorCategories } from "../../../../utils/types/errorHandling/error-categories.enum";
+import type {
+  SecretReference,
+  SecretReferenceContext,
+  SecretReferenceResolver,
+} from "../secret-reference.types";
+
+/**
+ * `ref+env://<NAME>`: the value of another variable, which may itself be a reference.
+ */
+export default class EnvReferenceResolver implements SecretReferenceResolver {
+  public readonly scheme = "env";
+
+  public async resolve(
+    reference: SecretReference,
+    context: SecretReferenceContext,
+  ): Promise<string> {
+    const value = await context.resolveVariable(reference.target);
+
+    if (value === undefined) {
+      throw new CategorizedError(
+        ErrorCategories.ENVIRONMENT_AND_DEPENDENCIES,
+        { variable: context.key, target: reference.target },
+        "Secret Reference",
+        `'${context.key}' references '${reference.target}', which is not set`,
+      );
+    }
+
+    return value;
+  }
+}
@@ -0,0 +1,17 @@
+import path from "path";
+import FileManager from "../../../../utils/fileManager/fileManager";
+import type { SecretReference, SecretReferenceResolver } from "../secret-reference.types";
+
+/**
+ * `ref+file://<path>`: the content of a file, e.g. a client certificate or a
+ * service-account JSON. Relative paths are resolved from the project root. One
+ * trailing newline is dropped, as most editors add it.
+ */
+export default class FileReferenceResolver implements SecretReferenceResolver {
+  public readonly scheme = "file";
+
+  public async resolve(reference: SecretReference): Promise<string> {
+    const content = await FileManager.readFile(path.resolve(reference.target));
+    return content.replace(/\r?\n$/, "");
+  }
+}
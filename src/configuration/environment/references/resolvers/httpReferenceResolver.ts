@@ -0,0 +1,87 @@
+import axios from "axios";
+import { CategorizedError } from "../../../../utils/errorHandling/internals/categorizedError";
+import { ErrorCategories } from "../../../../utils/types/errorHandling/error-categories.enum";
+import type { SecretReference, SecretReferenceResolver } from "../secret-reference.types";
+
+/**
+ * `ref+http://localhost:<port>/secret/<name>`: a value served by a local stand-in
+ * secrets service. The response body is the value, or the `value` field of a JSON
+ * body.
+ *
+ * Plain HTTP is only allowed to loopback hosts. Values are cached per process for
+ * `ENV_REF_HTTP_CACHE_TTL` ms (default 5 minutes) and requests time out after
+ * `ENV_REF_HTTP_TIMEOUT` ms (default 5 seconds).
+ */
+export default class HttpReferenceResolver implements SecretReferenceResolver {
+  public readonly scheme = "http";
+
+  private static readonly LOOPBACK_HOSTS = ["localhost", "127.0.0.1", "[::1]"];
+  private static readonly DEFAULT_TIMEOUT = 5_000;
+  private static readonly DEFAULT_CACHE_TTL = 300_000;
+  private static readonly cache = new Map<string, { value: string; expiresAt: number }>();
+
+  public async resolve(reference: SecretReference): Promise<string> {
+    const url = new URL(`http://${reference.target}`);
+
+    if (!HttpReferenceResolver.LOOPBACK_HOSTS.includes(url.hostname)) {
+      throw new CategorizedError(
+        ErrorCategories.SECURITY_AND_ACCESS,
+        { host: url.hostname },
+        "Secret Reference",
+        `ref+http:// only reaches a local secrets service; '${url.hostname}' is not a loopback host`,
+      );
+    }
+
+    const cached = HttpReferenceResolver.cache.get(url.href);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.value;
+    }
+
+    const response = await axios.get<string>(url.href, {
+      timeout: this.readMilliseconds("ENV_REF_HTTP_TIMEOUT", HttpReferenceResolver.DEFAULT_TIMEOUT),
+      responseType: "text",
+      transformResponse: (data: string) => data,
+    });
+    const value = this.extractValue(response.data, String(response.headers["content-type"] ?? ""));
+
+    HttpReferenceResolver.cache.set(url.href, {
+      value,
+      expiresAt:
+        Date.now() +
+        this.readMilliseconds("ENV_REF_HTTP_CACHE_TTL", HttpReferenceResolver.DEFAULT_CACHE_TTL),
+    });
+
+    return value;
+  }
+
+  /**
+   * Empties the cache, e.g. after the secrets service was restarted.
+   */
+  public static clearCache(): void {
+    this.cache.clear();
+  }
+
+  private extractValue(body: string, contentType: string): string {
+    if (!contentType.includes("application/json")) {
+      return body;
+    }
+
+    const parsed = JSON.parse(body) as { value?: unknown };
+
+    if (typeof parsed?.value !== "string") {
+      throw new CategorizedError(
+        ErrorCategories.API_AND_NETWORK,
+        undefined,
+        "Secret Reference",
+        "Secrets service returned JSON without a string 'value' field",
+      );
+    }
+
+    return parsed.value;
+  }
+
+  private readMilliseconds(variable: string, fallback: number): number {
+    const value = Number(process.env[variable]);
+    return Number.isInteger(value) && value > 0 ? value : fallback;
+  }
+}
@@ -0,0 +1,44 @@
+import type { ErrorCategories } from "../../../utils/types/errorHandling/error-categories.enum";
+
+/**
+ * A parsed `ref+<scheme>://<target>` value.
+ */
+export interface SecretReference {
+  scheme: string;
+  target: string;
+}
+
+export interface SecretReferenceContext {
+  /** Variable whose value is being resolved */
+  key: string;
+  /** Returns another variable's value, resolving it first if it is a reference */
+  resolveVariable: (name: string) => Promise<string | undefined>;
+}
+
+/**
+ * Backend for one reference scheme. Register custom resolvers in
+ * `SECRET_REFERENCE_RESOLVERS`.
+ */
+export interface SecretReferenceResolver {
+  /** Scheme after `ref+`, e.g. `file` */
+  scheme: string;
+  /**
+   * Returns the referenced value. Throwing fails the variable and the error is
+   * categorized by `ErrorAnalyzer`; messages must never contain secret values.
+   */
+  resolve(reference: SecretReference, context: SecretReferenceContext): Promise<string>;
+}
+
+export interface SecretReferenceFailure {
+  key: string;
+  scheme: string;
+  message: string;
+  category: ErrorCategories;
+  context?: string;
+  statusCode?: number;
+}
+
+export interface SecretReferenceSummary {
+  resolved: string[];
+  failures: SecretReferenceFailure[];
+}
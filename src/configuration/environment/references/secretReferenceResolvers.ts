@@ -0,0 +1,14 @@
+import FileReferenceResolver from "./resolvers/fileReferenceResolver";
+import EnvReferenceResolver from "./resolvers/envReferenceResolver";
+import HttpReferenceResolver from "./resolvers/httpReferenceResolver";
+import type { SecretReferenceResolver } from "./secret-reference.types";
+
+/**
+ * Backends for `ref+<scheme>://` values. Add custom resolvers to this list; each
+ * scheme may only be handled by one resolver.
+ */
+export const SECRET_REFERENCE_RESOLVERS: SecretReferenceResolver[] = [
+  new FileReferenceResolver(),
+  new EnvReferenceResolver(),
+  new HttpReferenceResolver(),
+];
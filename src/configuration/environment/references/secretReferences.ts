@@ -0,0 +1,126 @@
+import ErrorAnalyzer from "../../../utils/errorHandling/internals/errorAnalyzer";
+import { CategorizedError } from "../../../utils/errorHandling/internals/categorizedError";
+import { ErrorCategories } from "../../../utils/types/errorHandling/error-categories.enum";
+import { SECRET_REFERENCE_RESOLVERS } from "./secretReferenceResolvers";
+import type {
+  SecretReference,
+  SecretReferenceResolver,
+  SecretReferenceSummary,
+} from "./secret-reference.types";
+
+/**
+ * Resolves `ref+<scheme>://<target>` values through the registered resolvers, e.g.
+ * `ref+file://certs/client.pem`, `ref+env://OTHER_VAR` or
+ * `ref+http://localhost:8200/secret/name`.
+ *
+ * A value is a reference only when the whole value matches the syntax. Failures
+ * are categorized by `ErrorAnalyzer` and never contain the resolved values.
+ */
+export default class SecretReferences {
+  private static readonly REFERENCE_PATTERN = /^ref\+([a-z][a-z0-9-]*):\/\/(.+)$/s;
+
+  public static isReference(value: string | undefined): boolean {
+    return !!value && this.REFERENCE_PATTERN.test(value);
+  }
+
+  public static parse(value: string): SecretReference | undefined {
+    const match = this.REFERENCE_PATTERN.exec(value);
+    return match ? { scheme: match[1], target: match[2] } : undefined;
+  }
+
+  /**
+   * Resolves every reference in the given variables. References to other variables
+   * are looked up with `lookup` and resolved first when they are references too.
+   * Each failure is reported against its variable and resolution continues.
+   * @param variables - Variables whose values may be references
+   * @param lookup - Returns the raw value of any variable
+   * @param resolvers - Backends to use, defaults to `SECRET_REFERENCE_RESOLVERS`
+   * @returns The resolved values by key, and the summary of resolved and failed keys
+   */
+  public static async resolveAll(
+    variables: Record<string, string>,
+    lookup: (name: string) => string | undefined,
+    resolvers: SecretReferenceResolver[] = SECRET_REFERENCE_RESOLVERS,
+  ): Promise<{ values: Record<string, string>; summary: SecretReferenceSummary }> {
+    const resolved = new Map<string, Promise<string | undefined>>();
+    const values: Record<string, string> = {};
+    const summary: SecretReferenceSummary = { resolved: [], failures: [] };
+
+    const resolveVariable = (name: string, stack: string[]): Promise<string | undefined> => {
+      if (stack.includes(name)) {
+        const cycle = [...stack.slice(stack.indexOf(name)), name].join(" -> ");
+        return Promise.reject(
+          new CategorizedError(
+            ErrorCategories.ENVIRONMENT_AND_DEPENDENCIES,
+            { cycle },
+            "Secret Reference",
+            `Circular secret reference detected: ${cycle}`,
+          ),
+        );
+      }
+
+      const rawValue = lookup(name);
+      const reference = rawValue === undefined ? undefined : this.parse(rawValue);
+      if (!reference) {
+        return Promise.resolve(rawValue);
+      }
+
+      if (!resolved.has(name)) {
+        resolved.set(
+          name,
+          this.findResolver(reference.scheme, resolvers).resolve(reference, {
+            key: name,
+            resolveVariable: (other) => resolveVariable(other, [...stack, name]),
+          }),
+        );
+      }
+
+      return resolved.get(name)!;
+    };
+
+    for (const [key, value] of Object.entries(variables)) {
+      const reference = this.parse(value);
+      if (!reference) {
+        continue;
+      }
+
+      try {
+        const result = await resolveVariable(key, []);
+        if (result !== undefined) {
+          values[key] = result;
+          summary.resolved.push(key);
+        }
+      } catch (error) {
+        const analysis = ErrorAnalyzer.createErrorDetails(error, `SecretReferences.${key}`);
+        summary.failures.push({
+          key,
+          scheme: reference.scheme,
+          message: analysis.message,
+          category: analysis.category,
+          context: analysis.context,
+          statusCode: analysis.statusCode,
+        });
+      }
+    }
+
+    return { values, summary };
+  }
+
+  private static findResolver(
+    scheme: string,
+    resolvers: SecretReferenceResolver[],
+  ): SecretReferenceResolver {
+    const resolver = resolvers.find((candidate) => candidate.scheme === scheme);
+
+    if (!resolver) {
+      throw new CategorizedError(
+        ErrorCategories.ENVIRONMENT_AND_DEPENDENCIES,
+        { scheme },
+        "Secret Reference",
+        `No resolver registered for 'ref+${scheme}://'. Registered: ${resolvers.map((candidate) => candidate.scheme).join(", ")}`,
+      );
+    }
+
+    return resolver;
+  }
+}
@@ -0,0 +1,31 @@
+import type { EnvironmentSchema } from "./variable-schema.types";
+
+/**
+ * Declarative registry of the environment variables the suite depends on.
+ *
+ * Each entry declares its format, whether it is required, an optional default and
+ * optional per-stage overrides. The registry is validated once in global setup and
+ * drives the typed accessor exposed by `EnvironmentVariables`.
+ */
+export const ENVIRONMENT_SCHEMA = {
+  // URLS
+  PORTAL_BASE_URL: {
+    format: "url",
+    required: true,
+    description: "Base URL of the portal under test",
+  },
+
+  // Users
+  PORTAL_USERNAME: {
+    format: "string",
+    required: true,
+    description: "Portal login username",
+  },
+  PORTAL_PASSWORD: {
+    format: "string",
+    required: true,
+    description: "Portal login password",
+  },
+} as const satisfies EnvironmentSchema;
+
+export type EnvironmentVariableKey = keyof typeof ENVIRONMENT_SCHEMA;
@@ -0,0 +1,193 @@
+import EnvironmentDetector from "../detector/environmentDetector";
+import { ENVIRONMENT_SCHEMA } from "./environmentSchema";
+import { CryptoManager } from "../../../cryptography/manager/cryptoManager";
+import { CategorizedError } from "../../../utils/errorHandling/internals/categorizedError";
+import { ErrorCategories } from "../../../utils/types/errorHandling/error-categories.enum";
+import type { EnvironmentStage } from "../dotenv/environment.types";
+import type {
+  EnvironmentSchema,
+  SchemaValidationResult,
+  VariableDefinition,
+  VariableIssue,
+  VariableRule,
+} from "./variable-schema.types";
+import ErrorHandler from "../../../utils/errorHandling/errorHandler";
+import logger from "../../../utils/logger/loggerManager";
+
+/**
+ * Validates environment variables against the declarative schema and converts raw
+ * string values to their declared format.
+ */
+export default class EnvironmentSchemaValidator {
+  private static readonly EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+  private static readonly INT_PATTERN = /^-?\d+$/;
+  private static readonly TRUE_VALUES = new Set(["true", "1", "yes", "on"]);
+  private static readonly FALSE_VALUES = new Set(["false", "0", "no", "off"]);
+
+  /**
+   * Validates every variable in the schema and collects all issues instead of
+   * stopping at the first one.
+   * @param schema - Schema to validate against
+   * @param stage - Stage whose overrides should be applied
+   * @param source - Variable source, defaults to process.env
+   * @returns Validation result with every missing or malformed variable
+   */
+  public static validate(
+    schema: EnvironmentSchema = ENVIRONMENT_SCHEMA,
+    stage: EnvironmentStage = EnvironmentDetector.getCurrentEnvironmentStage(),
+    source: NodeJS.ProcessEnv = process.env,
+  ): SchemaValidationResult {
+    const issues: VariableIssue[] = [];
+
+    for (const [key, definition] of Object.entries(schema)) {
+      const issue = this.validateVariable(key, definition, stage, source[key]);
+      if (issue) {
+        issues.push(issue);
+      }
+    }
+
+    return { stage, valid: issues.length === 0, issues };
+  }
+
+  /**
+   * Validates the schema and throws a single aggregated error when any variable is
+   * missing or malformed.
+   */
+  public static assertValid(
+    schema: EnvironmentSchema = ENVIRONMENT_SCHEMA,
+    stage: EnvironmentStage = EnvironmentDetector.getCurrentEnvironmentStage(),
+    source: NodeJS.ProcessEnv = process.env,
+  ): void {
+    const result = this.validate(schema, stage, source);
+
+    if (result.valid) {
+      logger.info(
+        `Environment schema validated: ${Object.keys(schema).length} variables for '${stage}'`,
+      );
+      return;
+    }
+
+    const report = this.formatReport(result);
+    logger.error(report);
+
+    const error = new CategorizedError(
+      ErrorCategories.ENVIRONMENT_AND_DEPENDENCIES,
+      { stage, issues: result.issues },
+      "Environment Schema Validation",
+      `Environment variables invalid for '${stage}': ${result.issues.length} issue(s) found`,
+    );
+    ErrorHandler.captureError(error, "assertValid", "Environment schema validation failed");
+    throw error;
+  }
+
+  /**
+   * Resolves the effective rule for a stage by layering the stage override on top
+   * of the base definition.
+   */
+  public static resolveRule(definition: VariableDefinition, stage: EnvironmentStage): VariableRule {
+    const override = definition.stages?.[stage] ?? {};
+    return {
+      required: override.required ?? definition.required ?? false,
+      default: override.default ?? definition.default,
+    };
+  }
+
+  /**
+   * Returns the value a variable takes: its own value when set, even when empty,
+   * otherwise the rule's default. A required variable that is empty has no value.
+   */
+  public static resolveValue(rule: VariableRule, rawValue: string | undefined): string | undefined {
+    const value = rawValue ?? rule.default;
+    return value === "" && rule.required ? undefined : value;
+  }
+
+  /**
+   * Converts a raw value into the declared format.
+   * @throws Error if the value does not match the format
+   */
+  public static parseValue(
+    key: string,
+    definition: VariableDefinition,
+    rawValue: string,
+  ): string | number | boolean {
+    const value = rawValue.trim();
+
+    switch (definition.format) {
+      case "string":
+        return rawValue;
+      case "url":
+        if (!this.isValidUrl(value)) {
+          throw new Error(`'${key}' must be a valid URL`);
+        }
+        return value;
+      case "email":
+        if (!this.EMAIL_PATTERN.test(value)) {
+          throw new Error(`'${key}' must be a valid email address`);
+        }
+        return value;
+      case "int":
+        if (!this.INT_PATTERN.test(value)) {
+          throw new Error(`'${key}' must be an integer`);
+        }
+        return Number.parseInt(value, 10);
+      case "bool": {
+        const normalized = value.toLowerCase();
+        if (this.TRUE_VALUES.has(normalized)) return true;
+        if (this.FALSE_VALUES.has(normalized)) return false;
+        throw new Error(`'${key}' must be a boolean (true/false, 1/0, yes/no, on/off)`);
+      }
+      case "enum":
+        if (!definition.values?.includes(value)) {
+          throw new Error(`'${key}' must be one of: ${(definition.values ?? []).join(", ")}`);
+        }
+        return value;
+      default:
+        throw new Error(`'${key}' declares unsupported format '${String(definition.format)}'`);
+    }
+  }
+
+  private static validateVariable(
+    key: string,
+    definition: VariableDefinition,
+    stage: EnvironmentStage,
+    rawValue: string | undefined,
+  ): VariableIssue | null {
+    const rule = this.resolveRule(definition, stage);
+    const value = this.resolveValue(rule, rawValue);
+
+    if (value === undefined) {
+      return rule.required
+        ? { key, kind: "missing", message: `'${key}' is required but not set` }
+        : null;
+    }
+
+    // Encrypted values cannot be format-checked until they are decrypted
+    if (CryptoManager.isEncrypted(value)) {
+      return null;
+    }
+
+    try {
+      this.parseValue(key, definition, value);
+      return null;
+    } catch (error) {
+      return { key, kind: "malformed", message: (error as Error).message };
+    }
+  }
+
+  private static isValidUrl(value: string): boolean {
+    try {
+      new URL(value);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private static formatReport(result: SchemaValidationResult): string {
+    const lines = result.issues.map((issue) => `  - [${issue.kind}] ${issue.message}`);
+    return [
+      `Environment validation failed for '${result.stage}' with ${result.issues.length} issue(s):`,
+      ...lines,
+    ].join("\n");
+  }
+}
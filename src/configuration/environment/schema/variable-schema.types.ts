@@ -0,0 +1,69 @@
+import type { EnvironmentStage } from "../dotenv/environment.types";
+
+/**
+ * Formats a schema entry can declare. The format drives both validation and the
+ * type returned by the typed accessor.
+ */
+export type VariableFormat = "string" | "url" | "email" | "int" | "bool" | "enum";
+
+/**
+ * Rules that can be overridden per environment stage.
+ */
+export interface VariableRule {
+  required?: boolean;
+  default?: string;
+}
+
+/**
+ * Declarative definition of a single environment variable.
+ */
+export interface VariableDefinition extends VariableRule {
+  format: VariableFormat;
+  values?: readonly string[];
+  description?: string;
+  stages?: Partial<Record<EnvironmentStage, VariableRule>>;
+}
+
+export type EnvironmentSchema = Record<string, VariableDefinition>;
+
+/**
+ * Maps a definition to the runtime type produced by its format.
+ */
+export type VariableFormatValue<D extends VariableDefinition> = D extends { format: "int" }
+  ? number
+  : D extends { format: "bool" }
+    ? boolean
+    : D extends { format: "enum"; values: readonly (infer V)[] }
+      ? V
+      : string;
+
+/**
+ * Union of a definition's per-stage rules, or never when it has none.
+ */
+type StageRules<D extends VariableDefinition> = D extends { stages: infer S } ? S[keyof S] : never;
+
+/**
+ * Resolved accessor type: variables with a default, and required variables that no
+ * stage override relaxes with `required: false`, never resolve to undefined.
+ */
+export type ResolvedVariable<D extends VariableDefinition> = D extends { default: string }
+  ? VariableFormatValue<D>
+  : D extends { required: true }
+    ? [Extract<StageRules<D>, { required: false }>] extends [never]
+      ? VariableFormatValue<D>
+      : VariableFormatValue<D> | undefined
+    : VariableFormatValue<D> | undefined;
+
+export type VariableIssueKind = "missing" | "malformed";
+
+export interface VariableIssue {
+  key: string;
+  kind: VariableIssueKind;
+  message: string;
+}
+
+export interface SchemaValidationResult {
+  stage: EnvironmentStage;
+  valid: boolean;
+  issues: VariableIssue[];
+}
@@ -0,0 +1,206 @@
+import EnvironmentDetector from "../detector/environmentDetector";
+import EnvironmentPathUtils from "../../../utils/environment/environmentPathUtils";
+import { CryptoManager } from "../../../cryptography/manager/cryptoManager";
+import { CryptoService } from "../../../cryptography/service/cryptoService";
+import CiphertextFormat from "../../../cryptography/format/ciphertextFormat";
+import EnvironmentInterpolator from "../interpolation/environmentInterpolator";
+import EnvironmentLayerResolver from "../manager/environmentLayerResolver";
+import type { EncryptionContext } from "../../../cryptography/types/ciphertext.types";
+import type { DecryptionSummary } from "../manager/environment-setup.types";
+import ErrorHandler from "../../../utils/errorHandling/errorHandler";
+import logger from "../../../utils/logger/loggerManager";
+
+/**
+ * In-memory store for decrypted environment values.
+ *
+ * Plaintext is kept in this process only and is never logged. Values that were not
+ * decrypted during setup (for example in a worker process) are decrypted lazily on
+ * first access.
+ *
+ * Encrypted values are bound to their variable and stage, so each one is decrypted
+ * in the context of the key it is stored under. A value inherited through
+ * `# @extends` is decrypted with the secret key of the stage named in its header,
+ * which therefore must be available too.
+ */
+export default class SecureEnvironment {
+  private static readonly plaintextValues = new Map<string, string>();
+
+  /**
+   * Returns the plaintext value of a variable, decrypting encrypted values on demand.
+   * @param key - Name of the environment variable
+   * @returns The plaintext value, or undefined if the variable is not set
+   */
+  public static async get(key: string): Promise<string | undefined> {
+    const cached = this.plaintextValues.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const rawValue = process.env[key];
+
+    if (EnvironmentInterpolator.hasReferences(rawValue)) {
+      return this.resolveTemplate(key);
+    }
+
+    if (rawValue === undefined || !CryptoManager.isEncrypted(rawValue)) {
+      return rawValue;
+    }
+
+    try {
+      const context = this.getEncryptionContext(key);
+      const plaintext = await CryptoService.decrypt(
+        rawValue,
+        this.getSecretKeyVariable(rawValue, context),
+        context,
+      );
+      this.plaintextValues.set(key, plaintext);
+      return plaintext;
+    } catch (error) {
+      ErrorHandler.captureError(error, "SecureEnvironment.get", `Failed to decrypt '${key}'`);
+      throw error;
+    }
+  }
+
+  /**
+   * Returns the plaintext value of a variable or throws when it is not set.
+   */
+  public static async require(key: string): Promise<string> {
+    const value = await this.get(key);
+
+    if (value === undefined) {
+      ErrorHandler.logAndThrow(
+        `Secure environment variable '${key}' is not set`,
+        "SecureEnvironment.require",
+      );
+    }
+
+    return value;
+  }
+
+  /**
+   * Decrypts every encrypted value in the given variables and stores the plaintext.
+   * Each failure is reported against its variable and decryption continues.
+   * Values are decrypted one at a time; those sharing a master key run Argon2 only once.
+   * @param variables - Variables as loaded from the environment files
+   * @returns The decrypted keys and the per-variable failures
+   */
+  public static async decryptAll(variables: Record<string, string>): Promise<DecryptionSummary> {
+    const summary: DecryptionSummary = { decrypted: [], failures: [] };
+    const stageContext = this.getEncryptionContext("");
+
+    for (const [key, value] of Object.entries(variables)) {
+      if (!CryptoManager.isEncrypted(value)) {
+        continue;
+      }
+
+      try {
+        const context = { ...stageContext, variable: key };
+        const plaintext = await CryptoService.decrypt(
+          value,
+          this.getSecretKeyVariable(value, context),
+          context,
+        );
+        this.plaintextValues.set(key, plaintext);
+        summary.decrypted.push(key);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        summary.failures.push({ key, message });
+        logger.error(`Failed to decrypt environment variable '${key}': ${message}`);
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Stores a plaintext value that was derived from encrypted values.
+   */
+  public static store(key: string, plaintext: string): void {
+    this.plaintextValues.set(key, plaintext);
+  }
+
+  /**
+   * Returns a stored plaintext value without decrypting anything.
+   */
+  public static peek(key: string): string | undefined {
+    return this.plaintextValues.get(key);
+  }
+
+  /**
+   * Writes stored plaintext values back to process.env.
+   * Only call this when exposure has been explicitly allowed.
+   */
+  public static exposeToProcessEnv(keys: string[]): void {
+    for (const key of keys) {
+      const plaintext = this.plaintextValues.get(key);
+      if (plaintext !== undefined) {
+        process.env[key] = plaintext;
+      }
+    }
+  }
+
+  /**
+   * Drops a stored plaintext value so the next access reads process.env again.
+   */
+  public static forget(key: string): void {
+    this.plaintextValues.delete(key);
+  }
+
+  public static has(key: string): boolean {
+    return this.plaintextValues.has(key);
+  }
+
+  public static clear(): void {
+    this.plaintextValues.clear();
+  }
+
+  /**
+   * Expands a value that still contains references, decrypting referenced secrets.
+   * Only values built from secrets are cached.
+   */
+  private static async resolveTemplate(key: string): Promise<string | undefined> {
+    const interpolator = new EnvironmentInterpolator({
+      lookup: (name) => process.env[name],
+      reveal: (name) => this.get(name),
+    });
+
+    const result = await interpolator.resolve(key);
+
+    if (result?.secret) {
+      this.plaintextValues.set(key, result.value);
+    }
+
+    return result?.value;
+  }
+
+  /**
+   * Returns the context an encrypted value of a variable is bound to in this run: the
+   * current stage, also accepting the stages it extends through `# @extends`.
+   */
+  public static getEncryptionContext(key: string): EncryptionContext {
+    const stage = EnvironmentDetector.getCurrentEnvironmentStage();
+
+    return {
+      variable: key,
+      stage,
+      inheritedStages: EnvironmentLayerResolver.resolveExtendsChain(stage),
+    };
+  }
+
+  /**
+   * Returns the secret key variable a value was encrypted under: that of the stage its
+   * ENC3 header names when the current stage extends it, the current stage's otherwise.
+   * Values of other stages then fail as misplaced instead of as a wrong key.
+   */
+  private static getSecretKeyVariable(value: string, context: EncryptionContext): string {
+    const version = CiphertextFormat.getVersion(value);
+    const boundStage =
+      version === 3
+        ? CiphertextFormat.decodeHeader(CiphertextFormat.split(value, version)[0]).context?.stage
+        : undefined;
+
+    return EnvironmentPathUtils.getSecretKeyVariable(
+      boundStage && context.inheritedStages?.includes(boundStage) ? boundStage : context.stage,
+    );
+  }
+}
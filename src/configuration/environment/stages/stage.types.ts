@@ -0,0 +1,118 @@
+export type TraceMode =
+  | "off"
+  | "on"
+  | "retain-on-failure"
+  | "on-first-retry"
+  | "on-all-retries"
+  | "retain-on-first-failure";
+
+export type ScreenshotMode = "off" | "on" | "only-on-failure";
+
+export type VideoMode = "off" | "on" | "retain-on-failure" | "on-first-retry";
+
+/**
+ * Playwright settings for a stage. Values in `ci` are applied on top when running
+ * in CI. Missing values fall back to the builder defaults.
+ */
+export interface StagePlaywrightSettings {
+  /** Variable holding the base URL, defaults to PORTAL_BASE_URL */
+  baseUrlVariable?: string;
+  /** One project per entry: chromium, firefox, webkit or any Playwright device name */
+  browsers?: string[];
+  timeout?: number;
+  expectTimeout?: number;
+  actionTimeout?: number;
+  navigationTimeout?: number;
+  retries?: number;
+  workers?: number | string;
+  fullyParallel?: boolean;
+  trace?: TraceMode;
+  screenshot?: ScreenshotMode;
+  video?: VideoMode;
+  ci?: Omit<StagePlaywrightSettings, "ci">;
+}
+
+export type TestPolicyAction = "skip" | "exclude";
+
+/**
+ * Tag-based rules deciding which tests may run on a stage. Production-like stages
+ * block `@destructive` and `@writes-data` unless they declare their own policy.
+ */
+export interface StageTestPolicy {
+  /** Tests carrying any of these tags are not allowed */
+  blockedTags?: string[];
+  /** When set, tests must carry at least one of these tags */
+  requiredTags?: string[];
+  /** `skip` reports disallowed tests as skipped; `exclude` drops them at collection */
+  action?: TestPolicyAction;
+}
+
+export type PreflightSeverity = "error" | "warning";
+
+/**
+ * Pre-flight checks run by global setup for a stage.
+ */
+export interface StagePreflightSettings {
+  /** Set to false to skip every pre-flight check */
+  enabled?: boolean;
+  /** Severity per check name; `off` disables the check */
+  checks?: Record<string, PreflightSeverity | "off">;
+  /** Milliseconds to wait for the base URL to respond, defaults to 10000 */
+  baseUrlTimeout?: number;
+}
+
+/**
+ * Where a stage's secret key comes from. Providers are asked in order until one
+ * returns the key.
+ */
+export interface StageSecretKeySettings {
+  /** Provider names, defaults to keystore, process-env, base-env-file */
+  providers?: string[];
+  /** Base URL of the KMS service asked by the `http-kms` provider */
+  kmsUrl?: string;
+  /** Milliseconds to wait for the KMS service, defaults to 5000 */
+  kmsTimeout?: number;
+  /** Milliseconds a key from a cacheable provider is reused, defaults to 300000; 0 disables */
+  cacheTtl?: number;
+}
+
+export type ResolvedStageSecretKeySettings = Required<Omit<StageSecretKeySettings, "kmsUrl">> &
+  Pick<StageSecretKeySettings, "kmsUrl">;
+
+/**
+ * Per-stage settings as declared in the stages config file. Every field is
+ * optional; missing values are derived from the stage name.
+ */
+export interface StageConfigEntry {
+  consoleLogLevel?: string;
+  secretKeyVariable?: string;
+  productionLike?: boolean;
+  filePath?: string;
+  playwright?: StagePlaywrightSettings;
+  testPolicy?: StageTestPolicy;
+  preflight?: StagePreflightSettings;
+  secretKeys?: StageSecretKeySettings;
+}
+
+/**
+ * Shape of the stages config file (envs/stages.config.json by default).
+ */
+export interface StageConfigFile {
+  defaultStage: string;
+  stages: Record<string, StageConfigEntry>;
+}
+
+/**
+ * Fully resolved stage metadata used by the rest of the framework.
+ */
+export interface StageDefinition {
+  name: string;
+  consoleLogLevel: string;
+  secretKeyVariable: string;
+  productionLike: boolean;
+  filePath: string;
+  playwright: StagePlaywrightSettings;
+  testPolicy: Required<StageTestPolicy>;
+  preflight: StagePreflightSettings;
+  secretKeys: ResolvedStageSecretKeySettings;
+}
@@ -0,0 +1,299 @@
+import fs from "fs";
+import path from "path";
+import { ENVIRONMENT_FILE_CONFIG } from "../dotenv/environment.constants";
+import { winstonLoggerConfig } from "../../../utils/types/logger/logger.config";
+import { CategorizedError } from "../../../utils/errorHandling/internals/categorizedError";
+import { ErrorCategories } from "../../../utils/types/errorHandling/error-categories.enum";
+import type {
+  StageConfigEntry,
+  ResolvedStageSecretKeySettings,
+  StageConfigFile,
+  StageDefinition,
+  StagePreflightSettings,
+  StageSecretKeySettings,
+  StageTestPolicy,
+} from "./stage.types";
+
+/**
+ * Registry of environment stages declared in the stages config file.
+ *
+ * The config is read from `envs/stages.config.json`, or from the path in
+ * `ENV_STAGES_CONFIG`. Every stage-dependent lookup (file paths, secret key
+ * variables, console log levels) derives from this registry.
+ *
+ * The logger depends on this registry, so it must not log or use ErrorHandler;
+ * configuration problems are thrown as categorized errors instead.
+ */
+export default class StageRegistry {
+  private static readonly STAGE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+  private static readonly LOG_LEVELS: string[] = [
+    winstonLoggerConfig.logLevels.debug,
+    winstonLoggerConfig.logLevels.info,
+    winstonLoggerConfig.logLevels.warn,
+    winstonLoggerConfig.logLevels.error,
+  ];
+  private static readonly TAG_PATTERN = /^@[\w-]+$/;
+  private static readonly POLICY_ACTIONS = ["skip", "exclude"];
+  private static readonly PREFLIGHT_SEVERITIES = ["error", "warning", "off"];
+  private static readonly PRODUCTION_BLOCKED_TAGS = ["@destructive", "@writes-data"];
+  private static readonly DEFAULT_SECRET_KEY_SETTINGS: ResolvedStageSecretKeySettings = {
+    providers: ["keystore", "process-env", "base-env-file"],
+    kmsTimeout: 5_000,
+    cacheTtl: 300_000,
+  };
+
+  private static defaultStage: string | null = null;
+  private static stages: Map<string, StageDefinition> | null = null;
+
+  /**
+   * Returns the names of every declared stage in declaration order.
+   */
+  public static getStageNames(): string[] {
+    return [...this.getStages().keys()];
+  }
+
+  public static getDefaultStage(): string {
+    this.getStages();
+    return this.defaultStage!;
+  }
+
+  public static has(name: string): boolean {
+    return this.getStages().has(name);
+  }
+
+  /**
+   * Returns the metadata for a stage, or undefined if it is not declared.
+   */
+  public static findStage(name: string): StageDefinition | undefined {
+    return this.getStages().get(name);
+  }
+
+  /**
+   * Returns the stage whose secret key variable is the given one, if any.
+   */
+  public static findStageBySecretKeyVariable(variable: string): StageDefinition | undefined {
+    return [...this.getStages().values()].find((stage) => stage.secretKeyVariable === variable);
+  }
+
+  /**
+   * Returns the metadata for a stage.
+   * @throws CategorizedError if the stage is not declared
+   */
+  public static getStage(name: string): StageDefinition {
+    const stage = this.findStage(name);
+
+    if (!stage) {
+      this.fail(
+        `Unknown environment stage '${name}'. Declared stages: ${this.getStageNames().join(", ")}`,
+      );
+    }
+
+    return stage;
+  }
+
+  public static getConfigFilePath(): string {
+    const override = process.env[ENVIRONMENT_FILE_CONFIG.STAGES_CONFIG_OVERRIDE_VARIABLE];
+    return override
+      ? path.resolve(override)
+      : path.resolve(
+          ENVIRONMENT_FILE_CONFIG.ROOT_DIRECTORY,
+          ENVIRONMENT_FILE_CONFIG.STAGES_CONFIG_FILE,
+        );
+  }
+
+  /**
+   * Discards the cached registry so the config file is read again on next access.
+   */
+  public static reload(): void {
+    this.stages = null;
+    this.defaultStage = null;
+  }
+
+  private static getStages(): Map<string, StageDefinition> {
+    if (!this.stages) {
+      this.load();
+    }
+    return this.stages!;
+  }
+
+  private static load(): void {
+    const config = this.readConfigFile(this.getConfigFilePath());
+    const stages = new Map<string, StageDefinition>();
+
+    for (const [name, entry] of Object.entries(config.stages)) {
+      stages.set(name, this.resolveStage(name, entry ?? {}));
+    }
+
+    if (stages.size === 0) {
+      this.fail("Stages config must declare at least one stage");
+    }
+
+    if (!stages.has(config.defaultStage)) {
+      this.fail(`Default stage '${config.defaultStage}' is not declared in the stages config`);
+    }
+
+    this.stages = stages;
+    this.defaultStage = config.defaultStage;
+  }
+
+  private static readConfigFile(configPath: string): StageConfigFile {
+    if (!fs.existsSync(configPath)) {
+      this.fail(`Stages config file not found: ${configPath}`);
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(fs.readFileSync(configPath, "utf8"));
+    } catch (error) {
+      this.fail(
+        `Stages config file is not valid JSON: ${configPath} (${(error as Error).message})`,
+      );
+    }
+
+    const config = parsed as Partial<StageConfigFile> | null;
+    if (!config || typeof config.stages !== "object" || config.stages === null) {
+      this.fail(`Stages config file must contain a 'stages' object: ${configPath}`);
+    }
+
+    return {
+      defaultStage: config.defaultStage ?? Object.keys(config.stages)[0],
+      stages: config.stages,
+    };
+  }
+
+  private static resolveStage(name: string, entry: StageConfigEntry): StageDefinition {
+    if (!this.STAGE_NAME_PATTERN.test(name)) {
+      this.fail(`Invalid stage name '${name}': use letters, digits, '-' or '_'`);
+    }
+
+    const consoleLogLevel = entry.consoleLogLevel ?? winstonLoggerConfig.logLevels.debug;
+    if (!this.LOG_LEVELS.includes(consoleLogLevel)) {
+      this.fail(
+        `Stage '${name}' has invalid consoleLogLevel '${consoleLogLevel}'. Expected one of: ${this.LOG_LEVELS.join(", ")}`,
+      );
+    }
+
+    const productionLike = entry.productionLike ?? false;
+
+    return {
+      name,
+      consoleLogLevel,
+      secretKeyVariable: entry.secretKeyVariable ?? this.deriveSecretKeyVariable(name),
+      productionLike,
+      filePath: entry.filePath
+        ? path.resolve(entry.filePath)
+        : path.resolve(
+            ENVIRONMENT_FILE_CONFIG.ROOT_DIRECTORY,
+            `${ENVIRONMENT_FILE_CONFIG.BASE_ENV_FILE}.${name}`,
+          ),
+      playwright: entry.playwright ?? {},
+      testPolicy: this.resolveTestPolicy(name, productionLike, entry.testPolicy),
+      preflight: this.resolvePreflight(name, entry.preflight ?? {}),
+      secretKeys: this.resolveSecretKeys(name, entry.secretKeys ?? {}),
+    };
+  }
+
+  private static resolvePreflight(
+    name: string,
+    preflight: StagePreflightSettings,
+  ): StagePreflightSettings {
+    const invalid = Object.entries(preflight.checks ?? {}).filter(
+      ([, severity]) => !this.PREFLIGHT_SEVERITIES.includes(severity),
+    );
+
+    if (invalid.length > 0) {
+      this.fail(
+        `Stage '${name}' has invalid preflight severities: ${invalid.map(([check, severity]) => `${check}=${severity}`).join(", ")}. Expected one of: ${this.PREFLIGHT_SEVERITIES.join(", ")}`,
+      );
+    }
+
+    return preflight;
+  }
+
+  private static resolveSecretKeys(
+    name: string,
+    settings: StageSecretKeySettings,
+  ): ResolvedStageSecretKeySettings {
+    const resolved: ResolvedStageSecretKeySettings = {
+      ...this.DEFAULT_SECRET_KEY_SETTINGS,
+      ...settings,
+    };
+
+    if (
+      !Array.isArray(resolved.providers) ||
+      resolved.providers.length === 0 ||
+      resolved.providers.some((provider) => typeof provider !== "string" || !provider)
+    ) {
+      this.fail(`Stage '${name}' must list at least one secretKeys provider by name`);
+    }
+
+    const duplicates = resolved.providers.filter(
+      (provider, index) => resolved.providers.indexOf(provider) !== index,
+    );
+    if (duplicates.length > 0) {
+      this.fail(
+        `Stage '${name}' lists secretKeys providers more than once: ${duplicates.join(", ")}`,
+      );
+    }
+
+    for (const setting of ["kmsTimeout", "cacheTtl"] as const) {
+      if (!Number.isInteger(resolved[setting]) || resolved[setting] < 0) {
+        this.fail(
+          `Stage '${name}' has invalid secretKeys.${setting} '${resolved[setting]}'. Expected milliseconds`,
+        );
+      }
+    }
+
+    if (resolved.providers.includes("http-kms") && !URL.canParse(resolved.kmsUrl ?? "")) {
+      this.fail(`Stage '${name}' uses the http-kms provider and needs a valid secretKeys.kmsUrl`);
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Production-like stages without an explicit policy block the default
+   * destructive tags; other stages allow every test.
+   */
+  private static resolveTestPolicy(
+    name: string,
+    productionLike: boolean,
+    policy: StageTestPolicy | undefined,
+  ): Required<StageTestPolicy> {
+    const resolved: Required<StageTestPolicy> = {
+      blockedTags: policy?.blockedTags ?? (productionLike ? [...this.PRODUCTION_BLOCKED_TAGS] : []),
+      requiredTags: policy?.requiredTags ?? [],
+      action: policy?.action ?? "skip",
+    };
+
+    const invalidTags = [...resolved.blockedTags, ...resolved.requiredTags].filter(
+      (tag) => !this.TAG_PATTERN.test(tag),
+    );
+    if (invalidTags.length > 0) {
+      this.fail(
+        `Stage '${name}' has invalid testPolicy tags: ${invalidTags.join(", ")}. Tags must start with '@'`,
+      );
+    }
+
+    if (!this.POLICY_ACTIONS.includes(resolved.action)) {
+      this.fail(
+        `Stage '${name}' has invalid testPolicy action '${resolved.action}'. Expected one of: ${this.POLICY_ACTIONS.join(", ")}`,
+      );
+    }
+
+    return resolved;
+  }
+
+  private static deriveSecretKeyVariable(name: string): string {
+    return `${ENVIRONMENT_FILE_CONFIG.SECRET_KEY_PREFIX}_${name.toUpperCase().replace(/[^A-Z0-9]/g, "_")}`;
+  }
+
+  private static fail(message: string): never {
+    throw new CategorizedError(
+      ErrorCategories.ENVIRONMENT_AND_DEPENDENCIES,
+      { configFile: this.getConfigFilePath() },
+      "Stage Configuration",
+      message,
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import type { VariableFormat } from "../schema/variable-schema.types";
+
+/**
+ * One key of the `.env.example` template.
+ */
+export interface EnvTemplateEntry {
+  key: string;
+  description?: string;
+  /** Annotated `@secret`, encrypted in some stage, or named like a sensitive value */
+  secret: boolean;
+  /** Annotated `@required` in some stage */
+  required: boolean;
+  type?: VariableFormat;
+  values?: string[];
+  /** Stages whose file defines the key */
+  definedIn: string[];
+  /** Stages that define the key or inherit it through `@extends` */
+  usedBy: string[];
+}
+
+export interface EnvTemplate {
+  /** Stages whose file was read */
+  stages: string[];
+  entries: EnvTemplateEntry[];
+}
+
+export interface EnvTemplateStageResult {
+  stage: string;
+  filePath: string;
+  /** Template keys the stage neither defines nor inherits through `@extends` */
+  missing: string[];
+  /** Keys the stage defines that the template does not document */
+  undocumented: string[];
+}
+
+export interface EnvTemplateCheckReport {
+  templatePath: string;
+  templateExists: boolean;
+  passed: boolean;
+  stages: EnvTemplateStageResult[];
+  /** Stages without a file; they are not checked */
+  missingFiles: string[];
+}
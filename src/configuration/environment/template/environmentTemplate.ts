@@ -0,0 +1,269 @@
+import StageEnvFileManager from "../manager/stageEnvFileManager";
+import type EnvFileDocument from "../dotenv/envFileDocument";
+import EnvironmentLayerResolver from "../manager/environmentLayerResolver";
+import { EnvironmentFilePaths } from "../dotenv/environmentFileMap";
+import { ENVIRONMENT_SCHEMA } from "../schema/environmentSchema";
+import EnvironmentPathUtils from "../../../utils/environment/environmentPathUtils";
+import SecretReferences from "../references/secretReferences";
+import { CryptoManager } from "../../../cryptography/manager/cryptoManager";
+import DataSanitizer from "../../../utils/sanitization/dataSanitizer";
+import FileManager from "../../../utils/fileManager/fileManager";
+import type { EnvTemplate, EnvTemplateCheckReport, EnvTemplateEntry } from "./env-template.types";
+import ErrorHandler from "../../../utils/errorHandling/errorHandler";
+import logger from "../../../utils/logger/loggerManager";
+
+/**
+ * Builds the committed `envs/.env.example` template from the stage files and checks
+ * stage files against it.
+ *
+ * The template holds the union of keys across stage files in the order they first
+ * appear, with every value blanked. Descriptions come from `@description`, the
+ * comments above each key (or its inline comment), or the schema description.
+ * `@secret`, `@required` and `@type` annotations are carried over, so stage files
+ * copied from the template are annotated too.
+ */
+export default class EnvironmentTemplate {
+  private static readonly SCOPE_LABEL = "Only used by:";
+  private static readonly SCOPE_PATTERN = /Only used by:\s*([\w\s,-]+)$/;
+
+  /**
+   * Reads every existing stage file in `EnvironmentFilePaths` and collects its keys.
+   */
+  public static async build(): Promise<EnvTemplate> {
+    const entries = new Map<string, EnvTemplateEntry>();
+    const stages: string[] = [];
+
+    for (const [stage, filePath] of Object.entries(EnvironmentFilePaths)) {
+      if (!(await StageEnvFileManager.doesEnvironmentFileExist(filePath))) {
+        StageEnvFileManager.logEnvironmentFileNotFound(filePath, stage);
+        continue;
+      }
+
+      const document = await StageEnvFileManager.readEnvironmentDocument(filePath);
+      const variables = StageEnvFileManager.extractEnvironmentVariables(document);
+      const comments = StageEnvFileManager.extractEnvironmentComments(document);
+      const annotations = document.getAllAnnotations();
+      stages.push(stage);
+
+      for (const [key, value] of Object.entries(variables)) {
+        const entry = entries.get(key) ?? {
+          key,
+          secret: DataSanitizer.containsSensitiveKey(key),
+          required: false,
+          definedIn: [],
+          usedBy: [],
+        };
+        const keyAnnotations = annotations[key];
+
+        entry.definedIn.push(stage);
+        entry.secret ||=
+          CryptoManager.isEncrypted(value) ||
+          SecretReferences.isReference(value) ||
+          !!keyAnnotations?.secret;
+        entry.required ||= !!keyAnnotations?.required;
+        entry.type ??= keyAnnotations?.type;
+        entry.values ??= keyAnnotations?.values;
+        entry.description ??=
+          keyAnnotations?.description ?? comments[key] ?? this.getSchemaDescription(key);
+        entries.set(key, entry);
+      }
+    }
+
+    for (const stage of stages) {
+      const chain = [stage, ...EnvironmentLayerResolver.resolveExtendsChain(stage)];
+      for (const entry of entries.values()) {
+        if (chain.some((definer) => entry.definedIn.includes(definer))) {
+          entry.usedBy.push(stage);
+        }
+      }
+    }
+
+    return { stages, entries: [...entries.values()] };
+  }
+
+  /**
+   * Renders the template as env file content. Values are always blank.
+   */
+  public static render(template: EnvTemplate): string {
+    const lines = [
+      `# Template for envs/.env.<stage>, generated from: ${template.stages.join(", ")}`,
+      "# Copy it to envs/.env.<stage> and fill in the values. Never commit real values.",
+      "# Regenerate with `npm run env:example`; check stage files with `npm run env:example:check`.",
+    ];
+
+    for (const entry of template.entries) {
+      lines.push("");
+
+      if (entry.description) {
+        lines.push(`# ${entry.description}`);
+      }
+
+      const annotations = this.renderAnnotations(entry);
+      if (annotations) {
+        lines.push(`# ${annotations}`);
+      }
+
+      if (entry.usedBy.length < template.stages.length) {
+        lines.push(`# ${this.SCOPE_LABEL} ${entry.usedBy.join(", ")}`);
+      }
+
+      lines.push(`${entry.key}=`);
+    }
+
+    return `${lines.join("\n")}\n`;
+  }
+
+  /**
+   * Builds the template and writes it to `envs/.env.example`.
+   * @returns The written template
+   */
+  public static async write(
+    filePath: string = EnvironmentPathUtils.getExampleEnvFilePath(),
+  ): Promise<EnvTemplate> {
+    try {
+      const template = await this.build();
+
+      if (template.stages.length === 0) {
+        ErrorHandler.logAndThrow(
+          "No stage files found; cannot generate the environment template",
+          "EnvironmentTemplate.write",
+        );
+      }
+
+      await FileManager.writeFileAtomic(filePath, this.render(template));
+      logger.info(
+        `Environment template written to ${filePath}: ${template.entries.length} key(s) from ${template.stages.join(", ")}`,
+      );
+      return template;
+    } catch (error) {
+      ErrorHandler.captureError(error, "write", "Failed to write the environment template");
+      throw error;
+    }
+  }
+
+  /**
+   * Compares every existing stage file with the template. A stage fails when it
+   * lacks a template key it does not inherit, or defines a key the template does
+   * not document. Keys marked `Only used by:` are only required in those stages.
+   */
+  public static async check(
+    templatePath: string = EnvironmentPathUtils.getExampleEnvFilePath(),
+  ): Promise<EnvTemplateCheckReport> {
+    const report: EnvTemplateCheckReport = {
+      templatePath,
+      templateExists: await FileManager.doesFileExist(templatePath),
+      passed: false,
+      stages: [],
+      missingFiles: [],
+    };
+
+    if (!report.templateExists) {
+      return report;
+    }
+
+    const template = await StageEnvFileManager.readEnvironmentDocument(templatePath);
+    const templateKeys = Object.keys(StageEnvFileManager.extractEnvironmentVariables(template));
+    const scopes = this.readScopes(template);
+    const stageKeys = new Map<string, string[]>();
+
+    for (const [stage, filePath] of Object.entries(EnvironmentFilePaths)) {
+      if (!(await StageEnvFileManager.doesEnvironmentFileExist(filePath))) {
+        report.missingFiles.push(stage);
+        continue;
+      }
+
+      const document = await StageEnvFileManager.readEnvironmentDocument(filePath);
+      stageKeys.set(stage, Object.keys(StageEnvFileManager.extractEnvironmentVariables(document)));
+    }
+
+    for (const [stage, keys] of stageKeys) {
+      const inherited = EnvironmentLayerResolver.resolveExtendsChain(stage).flatMap(
+        (parent) => stageKeys.get(parent) ?? [],
+      );
+      const available = new Set([...keys, ...inherited]);
+
+      report.stages.push({
+        stage,
+        filePath: EnvironmentFilePaths[stage],
+        missing: templateKeys.filter(
+          (key) => !available.has(key) && (scopes[key]?.includes(stage) ?? true),
+        ),
+        undocumented: keys.filter((key) => !templateKeys.includes(key)),
+      });
+    }
+
+    report.passed = report.stages.every(
+      (result) => result.missing.length === 0 && result.undocumented.length === 0,
+    );
+    return report;
+  }
+
+  /**
+   * Formats the check report as a human-readable summary.
+   */
+  public static formatCheck(report: EnvTemplateCheckReport): string {
+    if (!report.templateExists) {
+      return `Environment template not found: ${report.templatePath}. Run \`npm run env:example\``;
+    }
+
+    const failing = report.stages.filter(
+      (result) => result.missing.length > 0 || result.undocumented.length > 0,
+    );
+    const lines = [
+      `Environment template check: ${failing.length} of ${report.stages.length} stage file(s) out of sync with ${report.templatePath}`,
+    ];
+
+    if (report.missingFiles.length > 0) {
+      lines.push(`  Skipped stages without a file: ${report.missingFiles.join(", ")}`);
+    }
+
+    for (const result of failing) {
+      lines.push(`  ${result.stage}`);
+      if (result.missing.length > 0) {
+        lines.push(`    missing template keys: ${result.missing.join(", ")}`);
+      }
+      if (result.undocumented.length > 0) {
+        lines.push(`    undocumented keys:     ${result.undocumented.join(", ")}`);
+      }
+    }
+
+    return lines.join("\n");
+  }
+
+  private static renderAnnotations(entry: EnvTemplateEntry): string {
+    const type =
+      entry.type === "enum" ? `enum(${(entry.values ?? []).join(",")})` : (entry.type ?? "");
+
+    return [
+      entry.secret ? "@secret" : "",
+      entry.required ? "@required" : "",
+      type ? `@type=${type}` : "",
+    ]
+      .filter(Boolean)
+      .join(" ");
+  }
+
+  /**
+   * Reads the `Only used by:` comments, which limit a key to some stages.
+   */
+  private static readScopes(template: EnvFileDocument): Record<string, string[]> {
+    const scopes: Record<string, string[]> = {};
+
+    for (const [key, comment] of Object.entries(
+      StageEnvFileManager.extractEnvironmentComments(template),
+    )) {
+      const match = comment.match(this.SCOPE_PATTERN);
+      if (match) {
+        scopes[key] = match[1].split(",").map((stage) => stage.trim());
+      }
+    }
+
+    return scopes;
+  }
+
+  private static getSchemaDescription(key: string): string | undefined {
+    return Object.prototype.hasOwnProperty.call(ENVIRONMENT_SCHEMA, key)
+      ? ENVIRONMENT_SCHEMA[key as keyof typeof ENVIRONMENT_SCHEMA].description
+      : undefined;
+  }
+}
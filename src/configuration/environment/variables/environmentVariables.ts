@@ -1,8 +1,76 @@
+import EnvironmentDetector from "../detector/environmentDetector";
+import SecureEnvironment from "../secrets/secureEnvironment";
+import EnvironmentSchemaValidator from "../schema/environmentSchemaValidator";
+import { ENVIRONMENT_SCHEMA } from "../schema/environmentSchema";
+import type { EnvironmentVariableKey } from "../schema/environmentSchema";
+import type { ResolvedVariable } from "../schema/variable-schema.types";
+import ErrorHandler from "../../../utils/errorHandling/errorHandler";
+
+type Schema = typeof ENVIRONMENT_SCHEMA;
+
+/**
+ * Typed accessor for the variables declared in `ENVIRONMENT_SCHEMA`.
+ * Values are read on access so they always reflect the loaded environment.
+ */
 export default class EnvironmentVariables {
   // URLS
-  public static readonly PORTAL_BASE_URL = process.env.PORTAL_BASE_URL;
+  public static get PORTAL_BASE_URL(): string {
+    return this.get("PORTAL_BASE_URL");
+  }
 
   // Users
-  public static readonly PORTAL_USERNAME = process.env.PORTAL_USERNAME;
-  public static readonly PORTAL_PASSWORD = process.env.PORTAL_PASSWORD;
+  public static get PORTAL_USERNAME(): string {
+    return this.get("PORTAL_USERNAME");
+  }
+
+  public static get PORTAL_PASSWORD(): string {
+    return this.get("PORTAL_PASSWORD");
+  }
+
+  /**
+   * Returns the value of a schema variable converted to its declared format. An empty
+   * value is kept rather than replaced by the default, except that it leaves a
+   * required variable missing.
+   * @param key - Variable declared in the schema
+   * @throws Error if a required variable is missing or the value is malformed
+   */
+  public static get<K extends EnvironmentVariableKey>(key: K): ResolvedVariable<Schema[K]> {
+    return this.convert(key, process.env[key]);
+  }
+
+  /**
+   * Same as `get`, but encrypted values are decrypted through the secure store first.
+   * @param key - Variable declared in the schema
+   */
+  public static async getDecrypted<K extends EnvironmentVariableKey>(
+    key: K,
+  ): Promise<ResolvedVariable<Schema[K]>> {
+    return this.convert(key, await SecureEnvironment.get(key));
+  }
+
+  private static convert<K extends EnvironmentVariableKey>(
+    key: K,
+    value: string | undefined,
+  ): ResolvedVariable<Schema[K]> {
+    const definition = ENVIRONMENT_SCHEMA[key];
+    const rule = EnvironmentSchemaValidator.resolveRule(
+      definition,
+      EnvironmentDetector.getCurrentEnvironmentStage(),
+    );
+    const rawValue = EnvironmentSchemaValidator.resolveValue(rule, value);
+
+    if (rawValue === undefined) {
+      if (rule.required) {
+        ErrorHandler.logAndThrow(
+          `Environment variable '${key}' is required but not set`,
+          "EnvironmentVariables.convert",
+        );
+      }
+      return undefined as ResolvedVariable<Schema[K]>;
+    }
+
+    return EnvironmentSchemaValidator.parseValue(key, definition, rawValue) as ResolvedVariable<
+      Schema[K]
+    >;
+  }
 }
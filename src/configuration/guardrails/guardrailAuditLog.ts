@@ -0,0 +1,50 @@
+import os from "os";
+import path from "path";
+import EnvironmentDetector from "../environment/detector/environmentDetector";
+import FileManager from "../../utils/fileManager/fileManager";
+import TestPolicyEnforcer from "./testPolicyEnforcer";
+import { winstonLoggerConfig } from "../../utils/types/logger/logger.config";
+import type { GuardrailAuditEntry } from "./test-policy.types";
+import logger from "../../utils/logger/loggerManager";
+
+type AuditDetails = Pick<GuardrailAuditEntry, "event" | "test" | "tags" | "reason">;
+
+/**
+ * Append-only record of every guardrail override, one JSON object per line.
+ */
+export default class GuardrailAuditLog {
+  public static readonly AUDIT_FILE = path.join(
+    winstonLoggerConfig.logFilePaths.LOG_DIR,
+    "guardrail-audit.jsonl",
+  );
+
+  /**
+   * Appends an entry with who overrode the policy, where and why.
+   */
+  public static async record(details: AuditDetails): Promise<GuardrailAuditEntry> {
+    const entry: GuardrailAuditEntry = {
+      timestamp: new Date().toISOString(),
+      stage: EnvironmentDetector.getCurrentEnvironmentStage(),
+      user: this.getUser(),
+      host: os.hostname(),
+      ci: EnvironmentDetector.isCI(),
+      overrideReason: process.env[TestPolicyEnforcer.OVERRIDE_REASON_VARIABLE] || undefined,
+      ...details,
+    };
+
+    await FileManager.appendFile(this.AUDIT_FILE, `${JSON.stringify(entry)}\n`);
+    logger.warn(
+      `Guardrail override (${entry.event}) on '${entry.stage}' by ${entry.user}${entry.test ? `: ${entry.test}` : ""}`,
+    );
+
+    return entry;
+  }
+
+  private static getUser(): string {
+    try {
+      return os.userInfo().username;
+    } catch {
+      return process.env.USER ?? process.env.USERNAME ?? "unknown";
+    }
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Outcome of checking a test's tags against the current stage's policy.
+ */
+export interface TestPolicyDecision {
+  allowed: boolean;
+  /** Why the test is not allowed on the stage */
+  reason?: string;
+  /** Blocked tags the test carries, or the required tags it is missing */
+  violatedTags: string[];
+  /** Not allowed by the policy, but the override is confirmed for this stage */
+  overridden: boolean;
+}
+
+export type GuardrailAuditEvent = "override-confirmed" | "test-overridden";
+
+/**
+ * One line of the guardrail audit log.
+ */
+export interface GuardrailAuditEntry {
+  timestamp: string;
+  event: GuardrailAuditEvent;
+  stage: string;
+  user: string;
+  host: string;
+  ci: boolean;
+  overrideReason?: string;
+  test?: string;
+  tags?: string[];
+  reason?: string;
+}
@@ -0,0 +1,152 @@
+import EnvironmentDetector from "../environment/detector/environmentDetector";
+import StageRegistry from "../environment/stages/stageRegistry";
+import { CategorizedError } from "../../utils/errorHandling/internals/categorizedError";
+import { ErrorCategories } from "../../utils/types/errorHandling/error-categories.enum";
+import type { StageTestPolicy } from "../environment/stages/stage.types";
+import type { TestPolicyDecision } from "./test-policy.types";
+import ErrorHandler from "../../utils/errorHandling/errorHandler";
+
+/**
+ * Applies the stage's tag policy (`testPolicy` in the stages config) to tests.
+ *
+ * A test that is not allowed is skipped with the reason, or excluded at collection
+ * when the policy action is `exclude`. The policy is lifted only when
+ * `GUARDRAILS_OVERRIDE` is set to the name of the current stage.
+ */
+export default class TestPolicyEnforcer {
+  public static readonly OVERRIDE_VARIABLE = "GUARDRAILS_OVERRIDE";
+  public static readonly OVERRIDE_REASON_VARIABLE = "GUARDRAILS_OVERRIDE_REASON";
+
+  public static getPolicy(
+    stage: string = EnvironmentDetector.getCurrentEnvironmentStage(),
+  ): Required<StageTestPolicy> {
+    return StageRegistry.getStage(stage).testPolicy;
+  }
+
+  /**
+   * Checks whether a test with the given tags may run on the stage.
+   * @param tags - Tags of the test, including tags in its title
+   * @param stage - Stage to check, defaults to the current stage
+   */
+  public static evaluate(
+    tags: readonly string[],
+    stage: string = EnvironmentDetector.getCurrentEnvironmentStage(),
+  ): TestPolicyDecision {
+    const { blockedTags, requiredTags } = this.getPolicy(stage);
+
+    const blocked = tags.filter((tag) => blockedTags.includes(tag));
+    if (blocked.length > 0) {
+      return this.reject(
+        stage,
+        blocked,
+        `tagged ${blocked.join(", ")}, which is not allowed on '${stage}'`,
+      );
+    }
+
+    if (requiredTags.length > 0 && !tags.some((tag) => requiredTags.includes(tag))) {
+      return this.reject(
+        stage,
+        requiredTags,
+        `not tagged ${requiredTags.join(" or ")}, which is required on '${stage}'`,
+      );
+    }
+
+    return { allowed: true, violatedTags: [], overridden: false };
+  }
+
+  /**
+   * Checks if the override variable confirms the given stage by name.
+   */
+  public static isOverrideConfirmed(
+    stage: string = EnvironmentDetector.getCurrentEnvironmentStage(),
+  ): boolean {
+    return process.env[this.OVERRIDE_VARIABLE] === stage;
+  }
+
+  /**
+   * Fails when the override variable is set but names a different stage, so a
+   * leftover override never silently applies to the wrong stage.
+   */
+  public static assertOverrideMatchesStage(
+    stage: string = EnvironmentDetector.getCurrentEnvironmentStage(),
+  ): void {
+    const confirmation = process.env[this.OVERRIDE_VARIABLE];
+
+    if (!confirmation || confirmation === stage) {
+      return;
+    }
+
+    const error = new CategorizedError(
+      ErrorCategories.SECURITY_AND_ACCESS,
+      { stage, confirmation },
+      "Test Policy",
+      `${this.OVERRIDE_VARIABLE} is set to '${confirmation}' but the current stage is '${stage}'. Set it to '${stage}' to confirm the override, or unset it`,
+    );
+    ErrorHandler.captureError(error, "assertOverrideMatchesStage", "Guardrail override rejected");
+    throw error;
+  }
+
+  /**
+   * Returns `grepInvert` patterns that drop disallowed tests at collection. Empty
+   * unless the policy action is `exclude` and no override is confirmed.
+   */
+  public static buildGrepInvert(
+    stage: string = EnvironmentDetector.getCurrentEnvironmentStage(),
+  ): RegExp[] {
+    const { blockedTags, requiredTags, action } = this.getPolicy(stage);
+
+    if (action !== "exclude" || this.isOverrideConfirmed(stage)) {
+      return [];
+    }
+
+    const patterns: RegExp[] = [];
+
+    if (blockedTags.length > 0) {
+      patterns.push(new RegExp(`(^|\\s)(${this.alternation(blockedTags)})(?=\\s|$)`));
+    }
+
+    if (requiredTags.length > 0) {
+      patterns.push(
+        new RegExp(`^(?![\\s\\S]*(^|\\s)(${this.alternation(requiredTags)})(?=\\s|$))`),
+      );
+    }
+
+    return patterns;
+  }
+
+  /**
+   * Describes the stage's policy in one line, or returns null when it allows everything.
+   */
+  public static describe(
+    stage: string = EnvironmentDetector.getCurrentEnvironmentStage(),
+  ): string | null {
+    const { blockedTags, requiredTags, action } = this.getPolicy(stage);
+    const rules: string[] = [];
+
+    if (blockedTags.length > 0) {
+      rules.push(`blocks ${blockedTags.join(", ")}`);
+    }
+    if (requiredTags.length > 0) {
+      rules.push(`requires ${requiredTags.join(" or ")}`);
+    }
+    if (rules.length === 0) {
+      return null;
+    }
+
+    const outcome = action === "exclude" ? "excluded" : "skipped";
+    return `Test policy for '${stage}' ${rules.join(" and ")}; other tests are ${outcome}. Set ${this.OVERRIDE_VARIABLE}=${stage} to override`;
+  }
+
+  private static reject(stage: string, violatedTags: string[], reason: string): TestPolicyDecision {
+    return {
+      allowed: false,
+      reason: `Test policy: ${reason} (set ${this.OVERRIDE_VARIABLE}=${stage} to override)`,
+      violatedTags,
+      overridden: this.isOverrideConfirmed(stage),
+    };
+  }
+
+  private static alternation(tags: string[]): string {
+    return tags.map((tag) => tag.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|");
+  }
+}
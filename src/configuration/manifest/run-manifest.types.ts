@@ -0,0 +1,40 @@
+import type { CiContext, CiShard } from "../environment/detector/ci-context.types";
+import type { EffectiveConfigEntry } from "../environment/provenance/provenance.types";
+import type { SecurityConfig } from "../../cryptography/types/security.types";
+
+export interface RunManifestVersions {
+  node: string;
+  playwright: string;
+}
+
+/**
+ * What a test run was configured with, written at global setup and completed at
+ * global teardown.
+ */
+export interface RunManifest {
+  stage: string;
+  startedAt: string;
+  /** Set at teardown */
+  endedAt?: string;
+  durationMs?: number;
+  /** Env files loaded, lowest precedence first */
+  envFiles: string[];
+  /** Masked, as in the effective config report */
+  effectiveConfig: EffectiveConfigEntry[];
+  ci: CiContext;
+  gitCommit?: string;
+  versions: RunManifestVersions;
+  shard?: CiShard;
+  security: SecurityConfig;
+  /** Distinct errors logged per category by the runner and every worker, set at teardown */
+  errorTotals?: Record<string, number>;
+}
+
+export interface RunManifestStartDetails {
+  stage: string;
+  envFiles: string[];
+  effectiveConfig: EffectiveConfigEntry[];
+  playwrightVersion: string;
+  /** Playwright's `--shard`, preferred over SHARD_INDEX/SHARD_TOTAL */
+  shard?: CiShard;
+}
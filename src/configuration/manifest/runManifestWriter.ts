@@ -0,0 +1,164 @@
+import path from "path";
+import { execFileSync } from "child_process";
+import EnvironmentDetector from "../environment/detector/environmentDetector";
+import FileManager from "../../utils/fileManager/fileManager";
+import { FileEncoding } from "../../utils/types/fileManager/file-encoding.enum";
+import { SECURITY_CONFIG } from "../../cryptography/types/security.constant";
+import type { RunManifest, RunManifestStartDetails } from "./run-manifest.types";
+import ErrorHandler from "../../utils/errorHandling/errorHandler";
+import logger from "../../utils/logger/loggerManager";
+
+/**
+ * Writes `reports/run-manifest.json`, recording what a test run was configured with.
+ *
+ * Global setup writes the manifest; global teardown adds the end time and the error
+ * totals. Workers are separate processes, so each one leaves its error totals in
+ * `reports/run-manifest-errors/` when it shuts down and teardown adds them up.
+ */
+export default class RunManifestWriter {
+  public static readonly MANIFEST_FILE = path.join("reports", "run-manifest.json");
+  public static readonly WORKER_ERRORS_DIRECTORY = path.join("reports", "run-manifest-errors");
+
+  /**
+   * Writes the manifest for a run that is starting and clears worker totals left
+   * by a previous run.
+   */
+  public static async start(details: RunManifestStartDetails): Promise<RunManifest> {
+    const manifest = this.create(details);
+
+    if (await FileManager.doesDirectoryExist(this.WORKER_ERRORS_DIRECTORY)) {
+      await FileManager.deleteDirectory(this.WORKER_ERRORS_DIRECTORY);
+    }
+
+    await this.write(manifest);
+    logger.info(`Run manifest written to ${this.MANIFEST_FILE}`);
+    return manifest;
+  }
+
+  /**
+   * Builds the manifest of a run that is starting, without writing it.
+   */
+  public static create(details: RunManifestStartDetails): RunManifest {
+    const ciContext = EnvironmentDetector.getCiContext();
+
+    return {
+      stage: details.stage,
+      startedAt: new Date().toISOString(),
+      envFiles: details.envFiles,
+      effectiveConfig: details.effectiveConfig,
+      ci: ciContext,
+      gitCommit: ciContext.commitSha ?? this.readGitCommit(),
+      versions: { node: process.version, playwright: details.playwrightVersion },
+      shard: details.shard ?? ciContext.shard,
+      security: SECURITY_CONFIG,
+    };
+  }
+
+  /**
+   * Saves the error totals of a worker process. Workers that logged no errors
+   * write nothing.
+   * @param workerIndex - Playwright's unique index of the worker process
+   */
+  public static async recordWorkerErrors(workerIndex: number): Promise<void> {
+    const totals = ErrorHandler.getCategoryTotals();
+
+    if (Object.keys(totals).length === 0) {
+      return;
+    }
+
+    await FileManager.writeFile(
+      path.join(this.WORKER_ERRORS_DIRECTORY, `worker-${workerIndex}.json`),
+      JSON.stringify(totals),
+      "workerErrorTotals",
+      FileEncoding.UTF8,
+    );
+  }
+
+  /**
+   * Completes the manifest written at setup with the end time and error totals.
+   * @returns The completed manifest, or undefined if setup did not write one
+   */
+  public static async finish(): Promise<RunManifest | undefined> {
+    if (!(await FileManager.doesFileExist(this.MANIFEST_FILE))) {
+      logger.warn(`Run manifest not found at ${this.MANIFEST_FILE}; it is written by global setup`);
+      return undefined;
+    }
+
+    const manifest = JSON.parse(await FileManager.readFile(this.MANIFEST_FILE)) as RunManifest;
+    const endedAt = new Date();
+
+    manifest.endedAt = endedAt.toISOString();
+    manifest.durationMs = endedAt.getTime() - new Date(manifest.startedAt).getTime();
+    manifest.errorTotals = await this.collectErrorTotals();
+
+    await this.write(manifest);
+    logger.info(
+      `Run manifest completed in ${this.MANIFEST_FILE}: ${this.describeErrorTotals(manifest.errorTotals)}`,
+    );
+    return manifest;
+  }
+
+  /**
+   * Adds up the runner's own error totals and those saved by workers.
+   */
+  private static async collectErrorTotals(): Promise<Record<string, number>> {
+    const totals: Record<string, number> = { ...ErrorHandler.getCategoryTotals() };
+
+    if (!(await FileManager.doesDirectoryExist(this.WORKER_ERRORS_DIRECTORY))) {
+      return totals;
+    }
+
+    const result = await FileManager.listDirectoryContents(this.WORKER_ERRORS_DIRECTORY);
+
+    for (const entry of result.data ?? []) {
+      if (!entry.isFile || !entry.name.endsWith(".json")) {
+        continue;
+      }
+
+      const content = await FileManager.readFile(
+        path.join(this.WORKER_ERRORS_DIRECTORY, entry.name),
+      );
+      const workerTotals = JSON.parse(content) as Record<string, number>;
+
+      for (const [category, count] of Object.entries(workerTotals)) {
+        totals[category] = (totals[category] ?? 0) + count;
+      }
+    }
+
+    return totals;
+  }
+
+  private static describeErrorTotals(totals: Record<string, number> = {}): string {
+    const entries = Object.entries(totals);
+
+    if (entries.length === 0) {
+      return "no errors logged";
+    }
+
+    return entries.map(([category, count]) => `${category}=${count}`).join(", ");
+  }
+
+  /**
+   * Reads the checked-out commit, or undefined outside a git work tree.
+   */
+  private static readGitCommit(): string | undefined {
+    try {
+      return execFileSync("git", ["rev-parse", "HEAD"], {
+        encoding: "utf8",
+        stdio: ["ignore", "pipe", "ignore"],
+        timeout: 5_000,
+      }).trim();
+    } catch {
+      return undefined;
+    }
+  }
+
+  private static async write(manifest: RunManifest): Promise<void> {
+    await FileManager.writeFile(
+      this.MANIFEST_FILE,
+      JSON.stringify(manifest, null, 2),
+      "runManifest",
+      FileEncoding.UTF8,
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import type { PlaywrightTestConfig } from "@playwright/test";
+import type { StagePlaywrightSettings } from "../environment/stages/stage.types";
+import type { EnvironmentOverrideOptions } from "../environment/overrides/environment-overrides.types";
+
+/**
+ * Playwright config whose projects may set `use: { env }` overrides.
+ */
+export type StageTestConfig = PlaywrightTestConfig<EnvironmentOverrideOptions>;
+
+/**
+ * Stage settings after defaults and CI overrides have been applied.
+ */
+export type ResolvedPlaywrightSettings = Required<
+  Omit<StagePlaywrightSettings, "ci" | "workers" | "actionTimeout" | "navigationTimeout">
+> &
+  Pick<StagePlaywrightSettings, "workers" | "actionTimeout" | "navigationTimeout">;
+
+export interface PlaywrightConfigBuilderOptions {
+  /**
+   * Tests that do not need a browser (e.g. encryption or drift checks). They run once
+   * in a `browserless` project instead of once per browser.
+   */
+  browserlessTestMatch?: string[];
+}
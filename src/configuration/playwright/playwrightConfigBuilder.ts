@@ -0,0 +1,185 @@
+import { devices } from "@playwright/test";
+import type { PlaywrightTestConfig } from "@playwright/test";
+import EnvironmentDetector from "../environment/detector/environmentDetector";
+import CiContextDetector from "../environment/detector/ciContextDetector";
+import EnvironmentSnapshot from "../environment/manager/environmentSnapshot";
+import EnvironmentInterpolator from "../environment/interpolation/environmentInterpolator";
+import SecretReferences from "../environment/references/secretReferences";
+import StageRegistry from "../environment/stages/stageRegistry";
+import TestPolicyEnforcer from "../guardrails/testPolicyEnforcer";
+import { CryptoManager } from "../../cryptography/manager/cryptoManager";
+import type { StagePlaywrightSettings } from "../environment/stages/stage.types";
+import type {
+  PlaywrightConfigBuilderOptions,
+  ResolvedPlaywrightSettings,
+  StageTestConfig,
+} from "./playwright-config.types";
+import ErrorHandler from "../../utils/errorHandling/errorHandler";
+import logger from "../../utils/logger/loggerManager";
+
+/**
+ * Builds the Playwright config from the current stage.
+ *
+ * The stage environment is read before `defineConfig` through `EnvironmentSnapshot`,
+ * so `baseURL` comes from the stage files and tests can navigate with relative
+ * paths. Projects, timeouts, retries, workers and trace/screenshot/video policy
+ * come from the stage's `playwright` block in the stages config.
+ *
+ * Settings are layered as: builder defaults, CI defaults (in CI), stage settings,
+ * stage `ci` settings (in CI).
+ *
+ * When the stage's test policy uses the `exclude` action, disallowed tests are
+ * dropped at collection through `grepInvert`. The CI provider and build are
+ * added to the report metadata.
+ */
+export default class PlaywrightConfigBuilder {
+  private static readonly DEFAULT_SETTINGS: ResolvedPlaywrightSettings = {
+    baseUrlVariable: "PORTAL_BASE_URL",
+    browsers: ["chromium"],
+    timeout: 30_000,
+    expectTimeout: 5_000,
+    retries: 0,
+    fullyParallel: true,
+    trace: "on-first-retry",
+    screenshot: "on",
+    video: "off",
+  };
+
+  private static readonly CI_DEFAULT_SETTINGS: StagePlaywrightSettings = {
+    retries: 2,
+    workers: 1,
+  };
+
+  private static readonly BROWSER_DEVICES: Record<string, string> = {
+    chromium: "Desktop Chrome",
+    firefox: "Desktop Firefox",
+    webkit: "Desktop Safari",
+  };
+
+  /**
+   * Returns the given config with the stage-derived settings applied.
+   * @param config - Settings that do not depend on the stage (testDir, reporter, ...)
+   * @param options - How tests are split across projects
+   */
+  public static build(
+    config: StageTestConfig = {},
+    options: PlaywrightConfigBuilderOptions = {},
+  ): StageTestConfig {
+    const stage = StageRegistry.getStage(EnvironmentDetector.getCurrentEnvironmentStage());
+    const settings = this.resolveSettings(stage.playwright);
+    const snapshot = EnvironmentSnapshot.load(stage.name);
+
+    return {
+      ...config,
+      timeout: settings.timeout,
+      retries: settings.retries,
+      workers: settings.workers,
+      fullyParallel: settings.fullyParallel,
+      grepInvert: this.buildGrepInvert(config.grepInvert, stage.name),
+      expect: { ...config.expect, timeout: settings.expectTimeout },
+      use: {
+        ...config.use,
+        baseURL: this.resolveBaseUrl(snapshot, settings.baseUrlVariable),
+        trace: settings.trace,
+        screenshot: settings.screenshot,
+        video: settings.video,
+        actionTimeout: settings.actionTimeout,
+        navigationTimeout: settings.navigationTimeout,
+      },
+      projects: config.projects ?? this.buildProjects(settings.browsers, options),
+      // `ci` is reserved by Playwright's git info capture
+      metadata: {
+        ...config.metadata,
+        stage: stage.name,
+        ciContext: CiContextDetector.describe(EnvironmentDetector.getCiContext()),
+      },
+    };
+  }
+
+  /**
+   * Layers the defaults and the stage settings, applying CI overrides when in CI.
+   */
+  public static resolveSettings(
+    stageSettings: StagePlaywrightSettings,
+  ): ResolvedPlaywrightSettings {
+    const { ci, ...localSettings } = stageSettings;
+    const layers: StagePlaywrightSettings[] = EnvironmentDetector.isCI()
+      ? [this.CI_DEFAULT_SETTINGS, localSettings, ci ?? {}]
+      : [localSettings];
+
+    return layers.reduce<ResolvedPlaywrightSettings>(
+      (resolved, layer) => ({ ...resolved, ...this.withoutUndefined(layer) }),
+      { ...this.DEFAULT_SETTINGS },
+    );
+  }
+
+  private static buildGrepInvert(
+    grepInvert: PlaywrightTestConfig["grepInvert"],
+    stage: string,
+  ): PlaywrightTestConfig["grepInvert"] {
+    const policyPatterns = TestPolicyEnforcer.buildGrepInvert(stage);
+
+    if (policyPatterns.length === 0) {
+      return grepInvert;
+    }
+
+    return [...[grepInvert ?? []].flat(), ...policyPatterns];
+  }
+
+  private static buildProjects(
+    browsers: string[],
+    options: PlaywrightConfigBuilderOptions,
+  ): NonNullable<StageTestConfig["projects"]> {
+    const browserless = options.browserlessTestMatch ?? [];
+
+    const browserProjects = browsers.map((browser) => {
+      const deviceName = this.BROWSER_DEVICES[browser] ?? browser;
+      const device = devices[deviceName];
+
+      if (!device) {
+        ErrorHandler.logAndThrow(
+          `Unknown browser '${browser}' in stage settings. Use chromium, firefox, webkit or a Playwright device name`,
+          "PlaywrightConfigBuilder.buildProjects",
+        );
+      }
+
+      return { name: browser, testIgnore: browserless, use: { ...device } };
+    });
+
+    return browserless.length > 0
+      ? [{ name: "browserless", testMatch: browserless }, ...browserProjects]
+      : browserProjects;
+  }
+
+  /**
+   * Reads the base URL from the stage environment. Encrypted, interpolated or
+   * `ref+` values cannot be resolved before global setup, so they leave `baseURL`
+   * unset.
+   */
+  private static resolveBaseUrl(
+    snapshot: EnvironmentSnapshot,
+    variable: string,
+  ): string | undefined {
+    const value = snapshot.get(variable);
+
+    if (
+      value &&
+      (CryptoManager.isEncrypted(value) ||
+        EnvironmentInterpolator.hasReferences(value) ||
+        SecretReferences.isReference(value))
+    ) {
+      logger.warn(
+        `'${variable}' is encrypted, uses interpolation or is a secret reference and cannot be used as baseURL; set it as a plain value`,
+      );
+      return undefined;
+    }
+
+    return value || undefined;
+  }
+
+  private static withoutUndefined(settings: StagePlaywrightSettings): StagePlaywrightSettings {
+    return Object.fromEntries(
+      Object.entries(settings).filter(([, value]) => value !== undefined),
+    ) as StagePlaywrightSettings;
+  }
+}
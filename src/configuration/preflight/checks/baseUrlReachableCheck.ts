@@ -0,0 +1,50 @@
+import axios from "axios";
+import SecureEnvironment from "../../environment/secrets/secureEnvironment";
+import PlaywrightConfigBuilder from "../../playwright/playwrightConfigBuilder";
+import { CategorizedError } from "../../../utils/errorHandling/internals/categorizedError";
+import { ErrorCategories } from "../../../utils/types/errorHandling/error-categories.enum";
+import type { PreflightCheck, PreflightCheckOutcome, PreflightContext } from "../preflight.types";
+
+/**
+ * The stage's base URL answers within the timeout. Server errors and client errors
+ * other than 401/403 fail the check; redirects are followed.
+ */
+export default class BaseUrlReachableCheck implements PreflightCheck {
+  public readonly name = "base-url-reachable";
+  public readonly severity = "error";
+
+  private static readonly DEFAULT_TIMEOUT = 10_000;
+  private static readonly AUTH_STATUSES = [401, 403];
+
+  public async run({ stage }: PreflightContext): Promise<PreflightCheckOutcome> {
+    if (process.env.SKIP_BROWSER_INIT === "true") {
+      return { message: "Browser tests are disabled (SKIP_BROWSER_INIT)", skipped: true };
+    }
+
+    const { baseUrlVariable } = PlaywrightConfigBuilder.resolveSettings(stage.playwright);
+    const url = await SecureEnvironment.get(baseUrlVariable);
+
+    if (!url) {
+      return { message: `'${baseUrlVariable}' is not set`, skipped: true };
+    }
+
+    const timeout = stage.preflight.baseUrlTimeout ?? BaseUrlReachableCheck.DEFAULT_TIMEOUT;
+    const startedAt = Date.now();
+    const response = await axios.get(url, { timeout, validateStatus: () => true });
+    const latencyMs = Date.now() - startedAt;
+
+    if (response.status >= 400 && !BaseUrlReachableCheck.AUTH_STATUSES.includes(response.status)) {
+      throw new CategorizedError(
+        ErrorCategories.API_AND_NETWORK,
+        { variable: baseUrlVariable, status: response.status, latencyMs },
+        `HTTP Error (${response.status})`,
+        `'${baseUrlVariable}' responded with HTTP ${response.status} in ${latencyMs} ms`,
+      );
+    }
+
+    return {
+      message: `'${baseUrlVariable}' responded with HTTP ${response.status} in ${latencyMs} ms`,
+      details: { status: response.status, latencyMs },
+    };
+  }
+}
@@ -0,0 +1,47 @@
+import SecureEnvironment from "../../environment/secrets/secureEnvironment";
+import { CryptoManager } from "../../../cryptography/manager/cryptoManager";
+import { CategorizedError } from "../../../utils/errorHandling/internals/categorizedError";
+import { ErrorCategories } from "../../../utils/types/errorHandling/error-categories.enum";
+import type { PreflightCheck, PreflightCheckOutcome, PreflightContext } from "../preflight.types";
+
+/**
+ * Every encrypted value in the environment decrypts with the stage's current secret key, or
+ * with a key retired by a rotation while its grace period lasts.
+ * Values are decrypted one at a time; Argon2 runs once per master key, and once per
+ * value only for payloads that predate master keys.
+ */
+export default class EncryptedValuesCheck implements PreflightCheck {
+  public readonly name = "encrypted-values";
+  public readonly severity = "error";
+
+  public async run({ stage }: PreflightContext): Promise<PreflightCheckOutcome> {
+    const encryptedKeys = Object.keys(process.env).filter((key) =>
+      CryptoManager.isEncrypted(process.env[key] ?? ""),
+    );
+
+    if (encryptedKeys.length === 0) {
+      return { message: "No encrypted values to check", skipped: true };
+    }
+
+    const undecryptable: string[] = [];
+
+    for (const key of encryptedKeys) {
+      try {
+        await SecureEnvironment.get(key);
+      } catch {
+        undecryptable.push(key);
+      }
+    }
+
+    if (undecryptable.length > 0) {
+      throw new CategorizedError(
+        ErrorCategories.SECURITY_AND_ACCESS,
+        { secretKeyVariable: stage.secretKeyVariable, undecryptable },
+        "Secret Decryption",
+        `${undecryptable.length} value(s) cannot be decrypted with '${stage.secretKeyVariable}': ${undecryptable.join(", ")}`,
+      );
+    }
+
+    return { message: `${encryptedKeys.length} encrypted value(s) decrypt with the current key` };
+  }
+}
@@ -0,0 +1,28 @@
+import EnvironmentSchemaValidator from "../../environment/schema/environmentSchemaValidator";
+import { ENVIRONMENT_SCHEMA } from "../../environment/schema/environmentSchema";
+import { CategorizedError } from "../../../utils/errorHandling/internals/categorizedError";
+import { ErrorCategories } from "../../../utils/types/errorHandling/error-categories.enum";
+import type { PreflightCheck, PreflightCheckOutcome, PreflightContext } from "../preflight.types";
+
+/**
+ * Every schema variable is set (or defaulted) and matches its declared format.
+ */
+export default class RequiredVariablesCheck implements PreflightCheck {
+  public readonly name = "required-variables";
+  public readonly severity = "error";
+
+  public async run({ stage }: PreflightContext): Promise<PreflightCheckOutcome> {
+    const result = EnvironmentSchemaValidator.validate(ENVIRONMENT_SCHEMA, stage.name);
+
+    if (!result.valid) {
+      throw new CategorizedError(
+        ErrorCategories.ENVIRONMENT_AND_DEPENDENCIES,
+        { issues: result.issues },
+        "Environment Schema Validation",
+        result.issues.map((issue) => `[${issue.kind}] ${issue.message}`).join("; "),
+      );
+    }
+
+    return { message: `${Object.keys(ENVIRONMENT_SCHEMA).length} schema variables are valid` };
+  }
+}
@@ -0,0 +1,27 @@
+import fs from "fs";
+import FileManager from "../../../utils/fileManager/fileManager";
+import { winstonLoggerConfig } from "../../../utils/types/logger/logger.config";
+import { AuthStorageConstants } from "../../../utils/types/auth/authStorage.constants";
+import type { PreflightCheck, PreflightCheckOutcome } from "../preflight.types";
+
+/**
+ * The log and auth storage directories exist (or can be created) and are writable.
+ */
+export default class WritableDirectoriesCheck implements PreflightCheck {
+  public readonly name = "writable-directories";
+  public readonly severity = "error";
+
+  private static readonly DIRECTORIES = [
+    winstonLoggerConfig.logFilePaths.LOG_DIR,
+    AuthStorageConstants.DIRECTORY,
+  ];
+
+  public async run(): Promise<PreflightCheckOutcome> {
+    for (const directory of WritableDirectoriesCheck.DIRECTORIES) {
+      await FileManager.ensureDirectoryExist(directory);
+      await FileManager.checkAccess(directory, fs.constants.W_OK);
+    }
+
+    return { message: `${WritableDirectoriesCheck.DIRECTORIES.join(", ")} are writable` };
+  }
+}
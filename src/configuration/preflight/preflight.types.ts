@@ -0,0 +1,51 @@
+import type { ErrorCategories } from "../../utils/types/errorHandling/error-categories.enum";
+import type { PreflightSeverity, StageDefinition } from "../environment/stages/stage.types";
+
+export type PreflightStatus = "passed" | "failed" | "skipped";
+
+export interface PreflightContext {
+  stage: StageDefinition;
+}
+
+/**
+ * What a check reports when it does not throw. Throwing fails the check and the
+ * error is categorized by `ErrorAnalyzer`.
+ */
+export interface PreflightCheckOutcome {
+  message: string;
+  skipped?: boolean;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * A single pre-flight check. Register custom checks in `PREFLIGHT_CHECKS`.
+ */
+export interface PreflightCheck {
+  /** Unique name, used to configure the severity per stage */
+  name: string;
+  /** Severity when the stage does not configure one */
+  severity: PreflightSeverity;
+  run(context: PreflightContext): Promise<PreflightCheckOutcome>;
+}
+
+export interface PreflightCheckResult {
+  name: string;
+  severity: PreflightSeverity;
+  status: PreflightStatus;
+  message: string;
+  durationMs: number;
+  category?: ErrorCategories;
+  context?: string;
+  statusCode?: number;
+  details?: Record<string, unknown>;
+}
+
+export interface PreflightReport {
+  stage: string;
+  startedAt: string;
+  durationMs: number;
+  errors: number;
+  warnings: number;
+  passed: boolean;
+  results: PreflightCheckResult[];
+}
@@ -0,0 +1,16 @@
+import RequiredVariablesCheck from "./checks/requiredVariablesCheck";
+import EncryptedValuesCheck from "./checks/encryptedValuesCheck";
+import BaseUrlReachableCheck from "./checks/baseUrlReachableCheck";
+import WritableDirectoriesCheck from "./checks/writableDirectoriesCheck";
+import type { PreflightCheck } from "./preflight.types";
+
+/**
+ * Checks run by global setup, in order. Add custom checks to this list; their
+ * severity can be changed or the check turned off per stage in the stages config.
+ */
+export const PREFLIGHT_CHECKS: PreflightCheck[] = [
+  new RequiredVariablesCheck(),
+  new EncryptedValuesCheck(),
+  new WritableDirectoriesCheck(),
+  new BaseUrlReachableCheck(),
+];
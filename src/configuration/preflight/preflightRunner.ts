@@ -0,0 +1,176 @@
+import path from "path";
+import EnvironmentDetector from "../environment/detector/environmentDetector";
+import StageRegistry from "../environment/stages/stageRegistry";
+import ErrorAnalyzer from "../../utils/errorHandling/internals/errorAnalyzer";
+import FileManager from "../../utils/fileManager/fileManager";
+import { CategorizedError } from "../../utils/errorHandling/internals/categorizedError";
+import { ErrorCategories } from "../../utils/types/errorHandling/error-categories.enum";
+import { FileEncoding } from "../../utils/types/fileManager/file-encoding.enum";
+import { winstonLoggerConfig } from "../../utils/types/logger/logger.config";
+import { PREFLIGHT_CHECKS } from "./preflightChecks";
+import type { StageDefinition } from "../environment/stages/stage.types";
+import type { PreflightCheck, PreflightCheckResult, PreflightReport } from "./preflight.types";
+import ErrorHandler from "../../utils/errorHandling/errorHandler";
+import logger from "../../utils/logger/loggerManager";
+
+/**
+ * Runs the pre-flight checks before any worker starts and reports every result at
+ * once. Failed checks are categorized by `ErrorAnalyzer`; a failed `error` check
+ * aborts the run, a failed `warning` check is only reported.
+ */
+export default class PreflightRunner {
+  public static readonly REPORT_FILE = path.join(
+    winstonLoggerConfig.logFilePaths.LOG_DIR,
+    "preflight-report.json",
+  );
+
+  /**
+   * Runs every check in order. Checks never stop the run early, so the report lists
+   * all problems.
+   * @param checks - Checks to run, defaults to `PREFLIGHT_CHECKS`
+   * @param stageName - Stage to check, defaults to the current stage
+   */
+  public static async run(
+    checks: PreflightCheck[] = PREFLIGHT_CHECKS,
+    stageName: string = EnvironmentDetector.getCurrentEnvironmentStage(),
+  ): Promise<PreflightReport> {
+    const stage = StageRegistry.getStage(stageName);
+    const startedAt = new Date();
+    const results: PreflightCheckResult[] = [];
+
+    for (const check of checks) {
+      results.push(await this.runCheck(check, stage));
+    }
+
+    const failed = results.filter((result) => result.status === "failed");
+    const errors = failed.filter((result) => result.severity === "error").length;
+
+    return {
+      stage: stage.name,
+      startedAt: startedAt.toISOString(),
+      durationMs: Date.now() - startedAt.getTime(),
+      errors,
+      warnings: failed.length - errors,
+      passed: errors === 0,
+      results,
+    };
+  }
+
+  /**
+   * Formats the report with failures grouped by error category.
+   */
+  public static format(report: PreflightReport): string {
+    const lines = [
+      `Pre-flight checks for '${report.stage}': ${report.errors} error(s), ${report.warnings} warning(s) in ${report.durationMs} ms`,
+    ];
+
+    const failuresByCategory = new Map<string, PreflightCheckResult[]>();
+    for (const result of report.results.filter((entry) => entry.status === "failed")) {
+      const category = result.category ?? ErrorCategories.UNKNOWN;
+      failuresByCategory.set(category, [...(failuresByCategory.get(category) ?? []), result]);
+    }
+
+    for (const [category, failures] of failuresByCategory) {
+      lines.push(`  ${category}:`);
+      for (const failure of failures) {
+        const label = failure.severity === "error" ? "ERROR" : "WARN";
+        lines.push(`    [${label}] ${failure.name} (${failure.context}): ${failure.message}`);
+      }
+    }
+
+    for (const result of report.results.filter((entry) => entry.status !== "failed")) {
+      const label = result.status === "passed" ? "PASS" : "SKIP";
+      lines.push(`  [${label}] ${result.name}: ${result.message} (${result.durationMs} ms)`);
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Logs the report and writes it to `logs/preflight-report.json`.
+   */
+  public static async publish(report: PreflightReport): Promise<void> {
+    const summary = this.format(report);
+
+    if (report.errors > 0) {
+      logger.error(summary);
+    } else if (report.warnings > 0) {
+      logger.warn(summary);
+    } else {
+      logger.info(summary);
+    }
+
+    await FileManager.writeFile(
+      this.REPORT_FILE,
+      JSON.stringify(report, null, 2),
+      "preflight-report",
+      FileEncoding.UTF8,
+    );
+  }
+
+  /**
+   * Throws one error listing the failed `error` checks.
+   */
+  public static assertPassed(report: PreflightReport): void {
+    if (report.passed) {
+      return;
+    }
+
+    const failed = report.results
+      .filter((result) => result.status === "failed" && result.severity === "error")
+      .map((result) => result.name);
+
+    const error = new CategorizedError(
+      ErrorCategories.ENVIRONMENT_AND_DEPENDENCIES,
+      { stage: report.stage, failed, reportFile: this.REPORT_FILE },
+      "Pre-flight Checks",
+      `Pre-flight checks failed for '${report.stage}': ${failed.join(", ")}`,
+    );
+    ErrorHandler.captureError(error, "assertPassed", "Pre-flight checks failed");
+    throw error;
+  }
+
+  private static async runCheck(
+    check: PreflightCheck,
+    stage: StageDefinition,
+  ): Promise<PreflightCheckResult> {
+    const configured = stage.preflight.checks?.[check.name];
+    const severity = configured && configured !== "off" ? configured : check.severity;
+    const startedAt = Date.now();
+
+    if (configured === "off") {
+      return {
+        name: check.name,
+        severity,
+        status: "skipped",
+        message: `Disabled for '${stage.name}'`,
+        durationMs: 0,
+      };
+    }
+
+    try {
+      const outcome = await check.run({ stage });
+      return {
+        name: check.name,
+        severity,
+        status: outcome.skipped ? "skipped" : "passed",
+        message: outcome.message,
+        durationMs: Date.now() - startedAt,
+        details: outcome.details,
+      };
+    } catch (error) {
+      const analysis = ErrorAnalyzer.createErrorDetails(error, check.name);
+      return {
+        name: check.name,
+        severity,
+        status: "failed",
+        message: analysis.message,
+        durationMs: Date.now() - startedAt,
+        category: analysis.category,
+        context: analysis.context,
+        statusCode: analysis.statusCode,
+        details: error instanceof CategorizedError ? error.details : undefined,
+      };
+    }
+  }
+}
@@ -0,0 +1,156 @@
+import { CryptoManager } from "../manager/cryptoManager";
+import { CryptoService } from "../service/cryptoService";
+import SecureKeyGenerator from "../key/secureKeyGenerator";
+import SecretKeystore from "../key/secretKeystore";
+import CiphertextFormat from "../format/ciphertextFormat";
+import { SECURITY_CONSTANTS, SECURITY_CONFIG } from "../types/security.constant";
+import type { EncryptionContext } from "../types/ciphertext.types";
+import type {
+  KeyDerivationBenchmarkReport,
+  KeyDerivationBenchmarkResult,
+  KeyDerivationScheme,
+} from "../types/key-derivation-benchmark.types";
+import logger from "../../utils/logger/loggerManager";
+
+/**
+ * Compares bulk encryption and decryption with a per-value Argon2 run against the
+ * master key with HKDF per value, using a throwaway key and no env files.
+ *
+ * Both schemes encrypt and decrypt every value at once, the way `encryptMultiple` and
+ * `decryptMultiple` do, and the key cache is cleared before decrypting, as in a new
+ * worker. Per-value runs are capped by `SECURITY_CONFIG.MAX_CONCURRENT_DERIVATIONS`.
+ */
+export default class KeyDerivationBenchmark {
+  public static readonly DEFAULT_VALUE_COUNT = 20;
+
+  private static readonly RSS_SAMPLE_INTERVAL = 10;
+  private static readonly BENCHMARK_STAGE = "benchmark";
+
+  /**
+   * @param valueCount - Values per scheme. Defaults to `CRYPTO_BENCHMARK_VALUES` or 20
+   */
+  public static async run(
+    valueCount = this.getValueCount(),
+  ): Promise<KeyDerivationBenchmarkReport> {
+    const secretKey = SecureKeyGenerator.generateBase64SecretKey();
+    const contexts: EncryptionContext[] = Array.from({ length: valueCount }, (_, index) => ({
+      variable: `BENCHMARK_VALUE_${index + 1}`,
+      stage: this.BENCHMARK_STAGE,
+    }));
+
+    const results = [
+      await this.measure("per-value-argon2", secretKey, contexts, (value, context) =>
+        this.encryptPerValue(value, secretKey, context),
+      ),
+      await this.measure("master-key-hkdf", secretKey, contexts, (value, context) =>
+        CryptoService.encryptWithKey(value, secretKey, context),
+      ),
+    ];
+
+    const report: KeyDerivationBenchmarkReport = {
+      valueCount,
+      argon2MemoryMb: SECURITY_CONFIG.ARGON2_PARAMETERS.MEMORY_COST / 1024,
+      maxConcurrentDerivations: SECURITY_CONFIG.MAX_CONCURRENT_DERIVATIONS,
+      results,
+    };
+
+    logger.info(this.format(report));
+    return report;
+  }
+
+  public static format(report: KeyDerivationBenchmarkReport): string {
+    const lines = [
+      `Key derivation benchmark: ${report.valueCount} value(s), Argon2 at ${report.argon2MemoryMb} MB, at most ${report.maxConcurrentDerivations} at once`,
+    ];
+
+    for (const result of report.results) {
+      lines.push(
+        `  ${result.scheme.padEnd(16)} encrypt ${result.encryptMs} ms, decrypt ${result.decryptMs} ms, peak +${result.peakRssDeltaMb} MB RSS`,
+      );
+    }
+
+    return lines.join("\n");
+  }
+
+  private static async measure(
+    scheme: KeyDerivationScheme,
+    secretKey: string,
+    contexts: EncryptionContext[],
+    encrypt: (value: string, context: EncryptionContext) => Promise<string>,
+  ): Promise<KeyDerivationBenchmarkResult> {
+    CryptoManager.clearDerivedKeyCache();
+    const baselineRss = process.memoryUsage().rss;
+    let peakRss = baselineRss;
+    const sampler = setInterval(() => {
+      peakRss = Math.max(peakRss, process.memoryUsage().rss);
+    }, this.RSS_SAMPLE_INTERVAL);
+
+    try {
+      const encryptStart = performance.now();
+      const encryptedValues = await Promise.all(
+        contexts.map((context) => encrypt(`value of ${context.variable}`, context)),
+      );
+      const encryptMs = Math.round(performance.now() - encryptStart);
+
+      CryptoManager.clearDerivedKeyCache();
+      const decryptStart = performance.now();
+      await Promise.all(
+        encryptedValues.map((value, index) =>
+          CryptoService.decryptWithKeys(value, [secretKey], contexts[index]),
+        ),
+      );
+      const decryptMs = Math.round(performance.now() - decryptStart);
+
+      return {
+        scheme,
+        encryptMs,
+        decryptMs,
+        peakRssDeltaMb: Math.round((peakRss - baselineRss) / (1024 * 1024)),
+      };
+    } finally {
+      clearInterval(sampler);
+    }
+  }
+
+  /**
+   * Writes a value the way values were written before master keys: an `ENC3` value
+   * whose keys come from an Argon2 run over its own salt.
+   */
+  private static async encryptPerValue(
+    value: string,
+    secretKey: string,
+    context: EncryptionContext,
+  ): Promise<string> {
+    const parameters = SECURITY_CONFIG.ARGON2_PARAMETERS;
+    const salt = SecureKeyGenerator.generateBase64Salt();
+    const webCryptoIv = SecureKeyGenerator.generateWebCryptoIV();
+    const { encryptionKey, hmacKey } = await CryptoManager.deriveKeysWithArgon2(
+      secretKey,
+      salt,
+      parameters,
+    );
+
+    return CryptoManager.createEncryptedPayload(
+      value,
+      salt,
+      webCryptoIv,
+      encryptionKey,
+      hmacKey,
+      CiphertextFormat.createHeader(
+        SecretKeystore.getKeyId(secretKey),
+        {
+          algorithm: SECURITY_CONSTANTS.FORMAT_V3.PER_VALUE_KDF,
+          memoryCost: parameters.MEMORY_COST,
+          timeCost: parameters.TIME_COST,
+          parallelism: parameters.PARALLELISM,
+        },
+        context,
+      ),
+    );
+  }
+
+  private static getValueCount(): number {
+    const value = Number(process.env.CRYPTO_BENCHMARK_VALUES);
+    return Number.isInteger(value) && value > 0 ? value : this.DEFAULT_VALUE_COUNT;
+  }
+}
@@ -0,0 +1,213 @@
+import { CategorizedError } from "../../utils/errorHandling/internals/categorizedError";
+import { ErrorCategories } from "../../utils/types/errorHandling/error-categories.enum";
+import { SECURITY_CONSTANTS, SECURITY_CONFIG } from "../types/security.constant";
+import { FileEncoding } from "../../utils/types/fileManager/file-encoding.enum";
+import type { Argon2Config } from "../types/security.types";
+import type {
+  CiphertextBinding,
+  CiphertextHeader,
+  CiphertextKdf,
+  CiphertextVersion,
+  EncryptionContext,
+} from "../types/ciphertext.types";
+
+/**
+ * Recognizes the encrypted value formats and encodes the version 3 header.
+ *
+ * The header is read before the value is authenticated, so the Argon2 parameters it
+ * requests are checked against fixed bounds first; a forged header cannot make a
+ * derivation allocate unbounded memory.
+ */
+export default class CiphertextFormat {
+  public static readonly CURRENT_VERSION: CiphertextVersion = 3;
+
+  private static readonly BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+  private static readonly KEY_ID_PATTERN = /^[0-9a-f]{16}$/;
+  private static readonly KDF_ALGORITHMS: string[] = [
+    SECURITY_CONSTANTS.FORMAT_V3.KDF,
+    SECURITY_CONSTANTS.FORMAT_V3.PER_VALUE_KDF,
+  ];
+  private static readonly ARGON2_BOUNDS = {
+    memoryCost: { min: 8192, max: 1048576 }, // 8 MB to 1 GB
+    timeCost: { min: 1, max: 16 },
+    parallelism: { min: 1, max: 16 },
+  };
+
+  /**
+   * Returns the format version from the prefix, without validating the rest.
+   */
+  public static getVersion(value: string): CiphertextVersion | undefined {
+    if (typeof value !== "string") return undefined;
+    if (value.startsWith(SECURITY_CONSTANTS.FORMAT_V3.PREFIX)) return 3;
+    if (value.startsWith(SECURITY_CONSTANTS.FORMAT.PREFIX)) return 2;
+    return undefined;
+  }
+
+  /**
+   * Whether the value has the prefix and part structure of a known version.
+   */
+  public static isEncrypted(value: string): boolean {
+    const version = this.getVersion(value);
+    if (version === undefined) return false;
+
+    const parts = this.split(value, version);
+    const expectedParts =
+      version === 3
+        ? SECURITY_CONSTANTS.FORMAT_V3.EXPECTED_PARTS
+        : SECURITY_CONSTANTS.FORMAT.EXPECTED_PARTS;
+
+    return (
+      parts.length === expectedParts &&
+      parts.every((part) => part.length % 4 === 0 && this.BASE64_PATTERN.test(part))
+    );
+  }
+
+  /**
+   * Splits a value into its parts after the prefix.
+   */
+  public static split(value: string, version: CiphertextVersion): string[] {
+    const prefix =
+      version === 3 ? SECURITY_CONSTANTS.FORMAT_V3.PREFIX : SECURITY_CONSTANTS.FORMAT.PREFIX;
+    return value.substring(prefix.length).split(SECURITY_CONSTANTS.FORMAT.SEPARATOR);
+  }
+
+  /**
+   * Builds the header of a new value; with a context the value is bound to it.
+   */
+  public static createHeader(
+    keyId: string,
+    kdf: CiphertextKdf,
+    context?: EncryptionContext,
+  ): CiphertextHeader {
+    return {
+      version: 3,
+      keyId,
+      kdf,
+      cipher: SECURITY_CONSTANTS.FORMAT_V3.CIPHER,
+      ...(context && { context: { variable: context.variable, stage: context.stage } }),
+    };
+  }
+
+  /**
+   * AES-GCM additional data and HMAC suffix of a bound value.
+   */
+  public static encodeAdditionalData(binding: CiphertextBinding): Buffer {
+    return Buffer.from(JSON.stringify([binding.stage, binding.variable]), FileEncoding.UTF8);
+  }
+
+  public static encodeHeader(header: CiphertextHeader): string {
+    return Buffer.from(JSON.stringify(header), FileEncoding.UTF8).toString(FileEncoding.BASE64);
+  }
+
+  /**
+   * Decodes and checks a version 3 header.
+   * @throws CategorizedError if the header is malformed or requests unsupported parameters
+   */
+  public static decodeHeader(encodedHeader: string): CiphertextHeader {
+    let header: Partial<CiphertextHeader>;
+    try {
+      header = JSON.parse(
+        Buffer.from(encodedHeader, FileEncoding.BASE64).toString(FileEncoding.UTF8),
+      ) as Partial<CiphertextHeader>;
+    } catch {
+      return this.fail("Invalid encrypted format: header is not valid JSON");
+    }
+
+    if (header?.version !== 3) {
+      this.fail(`Invalid encrypted format: unsupported header version '${header?.version}'`);
+    }
+    if (typeof header.keyId !== "string" || !this.KEY_ID_PATTERN.test(header.keyId)) {
+      this.fail("Invalid encrypted format: header has no valid key id");
+    }
+    if (header.cipher !== SECURITY_CONSTANTS.FORMAT_V3.CIPHER) {
+      this.fail(`Invalid encrypted format: unsupported cipher '${header.cipher}'`);
+    }
+    if (!header.kdf || !this.KDF_ALGORITHMS.includes(header.kdf.algorithm)) {
+      this.fail(`Invalid encrypted format: unsupported KDF '${header.kdf?.algorithm}'`);
+    }
+
+    for (const [name, bounds] of Object.entries(this.ARGON2_BOUNDS)) {
+      const value = header.kdf[name as "memoryCost" | "timeCost" | "parallelism"];
+      if (!Number.isInteger(value) || value < bounds.min || value > bounds.max) {
+        this.fail(
+          `Invalid encrypted format: Argon2 ${name} '${value}' is outside ${bounds.min}-${bounds.max}`,
+        );
+      }
+    }
+
+    const usesMasterKey = header.kdf.algorithm === SECURITY_CONSTANTS.FORMAT_V3.KDF;
+    if (usesMasterKey ? !this.isValidMasterSalt(header.kdf.salt) : header.kdf.salt !== undefined) {
+      this.fail(
+        `Invalid encrypted format: malformed master key salt for '${header.kdf.algorithm}'`,
+      );
+    }
+
+    if (
+      header.context !== undefined &&
+      (typeof header.context?.stage !== "string" ||
+        typeof header.context.variable !== "string" ||
+        !SECURITY_CONSTANTS.VALIDATION.ENV_VAR_KEY_PATTERN.test(header.context.variable))
+    ) {
+      this.fail("Invalid encrypted format: header has a malformed context");
+    }
+
+    return header as CiphertextHeader;
+  }
+
+  /**
+   * Returns the Argon2 parameters recorded in a header's KDF.
+   */
+  public static getArgon2Parameters(kdf: CiphertextKdf): Argon2Config {
+    return {
+      MEMORY_COST: kdf.memoryCost,
+      TIME_COST: kdf.timeCost,
+      PARALLELISM: kdf.parallelism,
+    };
+  }
+
+  /**
+   * Whether a value is in the current version, encrypted with the given key, derived
+   * through a master key with the given Argon2 parameters, and bound to the given
+   * context, i.e. needs no migration.
+   */
+  public static isCurrent(
+    value: string,
+    keyId: string,
+    parameters: Argon2Config,
+    context: EncryptionContext,
+  ): boolean {
+    if (this.getVersion(value) !== this.CURRENT_VERSION || !this.isEncrypted(value)) {
+      return false;
+    }
+
+    const header = this.decodeHeader(this.split(value, 3)[0]);
+    const recorded = this.getArgon2Parameters(header.kdf);
+
+    return (
+      header.keyId === keyId &&
+      header.kdf.algorithm === SECURITY_CONSTANTS.FORMAT_V3.KDF &&
+      header.context?.variable === context.variable &&
+      header.context.stage === context.stage &&
+      recorded.MEMORY_COST === parameters.MEMORY_COST &&
+      recorded.TIME_COST === parameters.TIME_COST &&
+      recorded.PARALLELISM === parameters.PARALLELISM
+    );
+  }
+
+  private static isValidMasterSalt(salt: unknown): boolean {
+    return (
+      typeof salt === "string" &&
+      this.BASE64_PATTERN.test(salt) &&
+      Buffer.from(salt, FileEncoding.BASE64).length === SECURITY_CONFIG.BYTE_LENGTHS.SALT
+    );
+  }
+
+  private static fail(message: string): never {
+    throw new CategorizedError(
+      ErrorCategories.SECURITY_AND_ACCESS,
+      undefined,
+      "Ciphertext Format",
+      message,
+    );
+  }
+}
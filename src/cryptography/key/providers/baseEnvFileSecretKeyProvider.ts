@@ -0,0 +1,34 @@
+import SecretKeystore from "../secretKeystore";
+import BaseEnvFileManager from "../../../configuration/environment/manager/baseEnvFileManager";
+import type { SecretKeyProvider, SecretKeyRequest } from "../../types/secret-key-provider.types";
+import logger from "../../../utils/logger/loggerManager";
+
+/**
+ * `base-env-file`: a key still kept in the legacy base environment file (`envs/.env`).
+ * When the stage also uses the keystore, the key is imported into it on first use.
+ */
+export default class BaseEnvFileSecretKeyProvider implements SecretKeyProvider {
+  public readonly name = "base-env-file";
+  public readonly cacheable = true;
+
+  public async getKey({
+    variable,
+    stage,
+    settings,
+  }: SecretKeyRequest): Promise<string | undefined> {
+    if (!(await BaseEnvFileManager.doesBaseEnvFileExist())) {
+      return undefined;
+    }
+
+    const key = await BaseEnvFileManager.getSecretKeyValue(variable);
+    if (!key || !settings.providers.includes("keystore")) {
+      return key || undefined;
+    }
+
+    const imported = await SecretKeystore.storeKeyIfMissing(stage, variable, key);
+    logger.warn(
+      `Secret key '${variable}' was imported from ${BaseEnvFileManager.BASE_ENV_FILE} into the keystore (key id ${imported.keyId}); remove it from the env file`,
+    );
+    return imported.key;
+  }
+}
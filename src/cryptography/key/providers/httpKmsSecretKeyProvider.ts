@@ -0,0 +1,81 @@
+import axios from "axios";
+import { CategorizedError } from "../../../utils/errorHandling/internals/categorizedError";
+import { ErrorCategories } from "../../../utils/types/errorHandling/error-categories.enum";
+import type { SecretKeyProvider, SecretKeyRequest } from "../../types/secret-key-provider.types";
+
+/**
+ * `http-kms`: a KMS-style service at the stage's `secretKeys.kmsUrl`, asked with
+ * `GET <kmsUrl>/keys/<variable>` and answering `{ "key": "<base64>" }`, or 404 when
+ * it holds no key for the variable. `LocalKmsStub` implements it for local runs.
+ *
+ * Plain HTTP is only allowed to loopback hosts. `ENV_KMS_TOKEN`, when set, is sent
+ * as a bearer token.
+ */
+export default class HttpKmsSecretKeyProvider implements SecretKeyProvider {
+  public readonly name = "http-kms";
+  public readonly cacheable = true;
+
+  private static readonly LOOPBACK_HOSTS = ["localhost", "127.0.0.1", "[::1]"];
+  private static readonly TOKEN_VARIABLE = "ENV_KMS_TOKEN";
+
+  public async getKey({
+    variable,
+    stage,
+    settings,
+  }: SecretKeyRequest): Promise<string | undefined> {
+    const url = this.buildKeyUrl(variable, stage, settings.kmsUrl);
+
+    if (
+      url.protocol !== "https:" &&
+      !HttpKmsSecretKeyProvider.LOOPBACK_HOSTS.includes(url.hostname)
+    ) {
+      throw new CategorizedError(
+        ErrorCategories.SECURITY_AND_ACCESS,
+        { host: url.hostname },
+        "Secret Key Provider",
+        `http-kms only uses plain HTTP for a local service; '${url.hostname}' needs https`,
+      );
+    }
+
+    const token = process.env[HttpKmsSecretKeyProvider.TOKEN_VARIABLE];
+    const response = await axios.get<{ key?: unknown }>(url.href, {
+      timeout: settings.kmsTimeout,
+      headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+      validateStatus: (status) => status === 200 || status === 404,
+    });
+
+    if (response.status === 404) {
+      return undefined;
+    }
+
+    if (typeof response.data?.key !== "string" || !response.data.key) {
+      throw new CategorizedError(
+        ErrorCategories.API_AND_NETWORK,
+        { variable },
+        "Secret Key Provider",
+        "KMS service returned no string 'key' field",
+      );
+    }
+
+    return response.data.key;
+  }
+
+  private buildKeyUrl(variable: string, stage: string, kmsUrl: string | undefined): URL {
+    const base = kmsUrl && URL.canParse(kmsUrl) ? new URL(kmsUrl) : undefined;
+
+    if (!base) {
+      throw new CategorizedError(
+        ErrorCategories.ENVIRONMENT_AND_DEPENDENCIES,
+        { stage, kmsUrl },
+        "Secret Key Provider",
+        `http-kms needs a valid secretKeys.kmsUrl for stage '${stage}'`,
+      );
+    }
+
+    if (!base.pathname.endsWith("/")) {
+      base.pathname += "/";
+    }
+
+    return new URL(`keys/${encodeURIComponent(variable)}`, base);
+  }
+}
@@ -0,0 +1,15 @@
+import SecretKeystore from "../secretKeystore";
+import type { SecretKeyProvider, SecretKeyRequest } from "../../types/secret-key-provider.types";
+
+/**
+ * `keystore`: the active key in the permission-checked keystore file. Not cached,
+ * so a rotation is picked up by the next lookup.
+ */
+export default class KeystoreSecretKeyProvider implements SecretKeyProvider {
+  public readonly name = "keystore";
+  public readonly cacheable = false;
+
+  public async getKey({ variable }: SecretKeyRequest): Promise<string | undefined> {
+    return (await SecretKeystore.findKey(variable))?.key;
+  }
+}
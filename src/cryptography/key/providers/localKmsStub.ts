@@ -0,0 +1,72 @@
+import http from "http";
+import type { AddressInfo } from "net";
+
+/**
+ * In-memory stand-in for the KMS service asked by the `http-kms` provider, for local
+ * runs and tests. It listens on 127.0.0.1 only and serves `GET /keys/<variable>`.
+ *
+ * With a token, requests without `Authorization: Bearer <token>` get 401.
+ */
+export default class LocalKmsStub {
+  private readonly keys = new Map<string, string>();
+  private server?: http.Server;
+
+  constructor(private readonly token?: string) {}
+
+  public setKey(variable: string, key: string): void {
+    this.keys.set(variable, key);
+  }
+
+  public deleteKey(variable: string): void {
+    this.keys.delete(variable);
+  }
+
+  /**
+   * Starts listening and returns the base URL to use as `secretKeys.kmsUrl`.
+   * @param port - Port to listen on, defaults to a free one
+   */
+  public async start(port = 0): Promise<string> {
+    const server = http.createServer((request, response) => this.handle(request, response));
+
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, "127.0.0.1", () => resolve());
+    });
+
+    this.server = server;
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  public async stop(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+
+    if (server) {
+      await new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve())),
+      );
+    }
+  }
+
+  private handle(request: http.IncomingMessage, response: http.ServerResponse): void {
+    const match = /^\/keys\/([^/?]+)$/.exec(request.url ?? "");
+
+    if (request.method !== "GET" || !match) {
+      return this.reply(response, 404, { error: "Not found" });
+    }
+
+    if (this.token && request.headers.authorization !== `Bearer ${this.token}`) {
+      return this.reply(response, 401, { error: "Unauthorized" });
+    }
+
+    const key = this.keys.get(decodeURIComponent(match[1]));
+    return key
+      ? this.reply(response, 200, { key })
+      : this.reply(response, 404, { error: "No key" });
+  }
+
+  private reply(response: http.ServerResponse, status: number, body: object): void {
+    response.writeHead(status, { "Content-Type": "application/json" });
+    response.end(JSON.stringify(body));
+  }
+}
@@ -0,0 +1,14 @@
+import type { SecretKeyProvider, SecretKeyRequest } from "../../types/secret-key-provider.types";
+
+/**
+ * `process-env`: a variable set in the shell, which is how CI pipelines supply the
+ * key. Not cached, so scoped env overrides apply.
+ */
+export default class ProcessEnvSecretKeyProvider implements SecretKeyProvider {
+  public readonly name = "process-env";
+  public readonly cacheable = false;
+
+  public async getKey({ variable }: SecretKeyRequest): Promise<string | undefined> {
+    return process.env[variable] || undefined;
+  }
+}
@@ -0,0 +1,16 @@
+import KeystoreSecretKeyProvider from "./providers/keystoreSecretKeyProvider";
+import ProcessEnvSecretKeyProvider from "./providers/processEnvSecretKeyProvider";
+import BaseEnvFileSecretKeyProvider from "./providers/baseEnvFileSecretKeyProvider";
+import HttpKmsSecretKeyProvider from "./providers/httpKmsSecretKeyProvider";
+import type { SecretKeyProvider } from "../types/secret-key-provider.types";
+
+/**
+ * Providers stages can list under `secretKeys.providers`. Add custom providers to
+ * this list; each name may only be used by one provider.
+ */
+export const SECRET_KEY_PROVIDERS: SecretKeyProvider[] = [
+  new KeystoreSecretKeyProvider(),
+  new ProcessEnvSecretKeyProvider(),
+  new BaseEnvFileSecretKeyProvider(),
+  new HttpKmsSecretKeyProvider(),
+];
@@ -0,0 +1,155 @@
+import StageRegistry from "../../configuration/environment/stages/stageRegistry";
+import ErrorAnalyzer from "../../utils/errorHandling/internals/errorAnalyzer";
+import { CategorizedError } from "../../utils/errorHandling/internals/categorizedError";
+import { ErrorCategories } from "../../utils/types/errorHandling/error-categories.enum";
+import { SECRET_KEY_PROVIDERS } from "./secretKeyProviders";
+import type {
+  SecretKeyProvider,
+  SecretKeyRequest,
+  SecretKeyResolution,
+} from "../types/secret-key-provider.types";
+import logger from "../../utils/logger/loggerManager";
+
+/**
+ * Resolves a stage's secret key through the providers listed in its
+ * `secretKeys.providers`, asking each in order until one returns the key.
+ *
+ * Keys from cacheable providers are reused for `secretKeys.cacheTtl` ms in this
+ * process. A provider that fails stops the chain rather than falling through to a
+ * key from another source; its error is categorized by `ErrorAnalyzer`.
+ */
+export default class SecretKeyResolver {
+  private static readonly cache = new Map<string, { key: string; expiresAt: number }>();
+
+  /**
+   * Resolves the key of a secret key variable with the settings of the stage using it.
+   * @throws CategorizedError if no stage uses the variable, a provider fails or none
+   * has the key
+   */
+  public static async getKey(variable: string): Promise<SecretKeyResolution> {
+    return this.resolve(this.createRequest(variable));
+  }
+
+  /**
+   * Like `getKey`, but returns undefined instead of throwing when no provider has the key.
+   * @throws CategorizedError if no stage uses the variable or a provider fails
+   */
+  public static async findKey(variable: string): Promise<SecretKeyResolution | undefined> {
+    return this.lookup(this.createRequest(variable), SECRET_KEY_PROVIDERS);
+  }
+
+  /**
+   * Asks the providers named in `request.settings.providers` in order.
+   * @param request - Variable, stage and the stage's `secretKeys` settings
+   * @param providers - Providers to pick from, defaults to `SECRET_KEY_PROVIDERS`
+   */
+  public static async resolve(
+    request: SecretKeyRequest,
+    providers: SecretKeyProvider[] = SECRET_KEY_PROVIDERS,
+  ): Promise<SecretKeyResolution> {
+    const resolution = await this.lookup(request, providers);
+
+    if (!resolution) {
+      throw new CategorizedError(
+        ErrorCategories.ENVIRONMENT_AND_DEPENDENCIES,
+        { variable: request.variable, stage: request.stage, providers: request.settings.providers },
+        "Secret Key Provider",
+        `Secret key '${request.variable}' was not found by any provider of stage '${request.stage}': ${request.settings.providers.join(", ")}`,
+      );
+    }
+
+    return resolution;
+  }
+
+  /**
+   * Empties the cache, e.g. after a key was replaced at its source.
+   */
+  public static clearCache(): void {
+    this.cache.clear();
+  }
+
+  private static createRequest(variable: string): SecretKeyRequest {
+    const stage = StageRegistry.findStageBySecretKeyVariable(variable);
+
+    if (!stage) {
+      throw new CategorizedError(
+        ErrorCategories.ENVIRONMENT_AND_DEPENDENCIES,
+        { variable },
+        "Secret Key Provider",
+        `No stage uses the secret key variable '${variable}'`,
+      );
+    }
+
+    return { variable, stage: stage.name, settings: stage.secretKeys };
+  }
+
+  private static async lookup(
+    request: SecretKeyRequest,
+    providers: SecretKeyProvider[],
+  ): Promise<SecretKeyResolution | undefined> {
+    const chain = request.settings.providers.map((name) => this.findProvider(name, providers));
+
+    for (const provider of chain) {
+      const cacheId = `${request.stage}:${request.variable}:${provider.name}`;
+      const cached = this.cache.get(cacheId);
+      if (cached && cached.expiresAt > Date.now()) {
+        return { key: cached.key, provider: provider.name };
+      }
+
+      const key = await this.askProvider(provider, request);
+      if (key === undefined) {
+        continue;
+      }
+
+      if (provider.cacheable && request.settings.cacheTtl > 0) {
+        this.cache.set(cacheId, { key, expiresAt: Date.now() + request.settings.cacheTtl });
+      }
+
+      logger.debug(`Secret key '${request.variable}' provided by '${provider.name}'`);
+      return { key, provider: provider.name };
+    }
+
+    return undefined;
+  }
+
+  private static async askProvider(
+    provider: SecretKeyProvider,
+    request: SecretKeyRequest,
+  ): Promise<string | undefined> {
+    try {
+      return await provider.getKey(request);
+    } catch (error) {
+      const analysis = ErrorAnalyzer.createErrorDetails(
+        error,
+        `SecretKeyResolver.${provider.name}`,
+      );
+
+      throw new CategorizedError(
+        analysis.category,
+        {
+          provider: provider.name,
+          variable: request.variable,
+          stage: request.stage,
+          statusCode: analysis.statusCode,
+        },
+        "Secret Key Provider",
+        `Secret key provider '${provider.name}' failed for '${request.variable}': ${analysis.message}`,
+      );
+    }
+  }
+
+  private static findProvider(name: string, providers: SecretKeyProvider[]): SecretKeyProvider {
+    const provider = providers.find((candidate) => candidate.name === name);
+
+    if (!provider) {
+      throw new CategorizedError(
+        ErrorCategories.ENVIRONMENT_AND_DEPENDENCIES,
+        { provider: name },
+        "Secret Key Provider",
+        `No secret key provider named '${name}'. Registered: ${providers.map((candidate) => candidate.name).join(", ")}`,
+      );
+    }
+
+    return provider;
+  }
+}
@@ -0,0 +1,346 @@
+import fs from "fs";
+import * as crypto from "crypto";
+import EnvironmentPathUtils from "../../utils/environment/environmentPathUtils";
+import FileManager from "../../utils/fileManager/fileManager";
+import FileLock from "../../utils/fileManager/fileLock";
+import { CategorizedError } from "../../utils/errorHandling/internals/categorizedError";
+import { ErrorCategories } from "../../utils/types/errorHandling/error-categories.enum";
+import { FileEncoding } from "../../utils/types/fileManager/file-encoding.enum";
+import type {
+  KeystoreEntry,
+  KeystoreEntryMetadata,
+  KeystoreEntryStatus,
+  KeystoreFile,
+} from "../types/keystore.types";
+import ErrorHandler from "../../utils/errorHandling/errorHandler";
+import logger from "../../utils/logger/loggerManager";
+
+/**
+ * File-backed store for the stage secret keys, kept apart from the env files so the
+ * keys are never loaded into process.env.
+ *
+ * The file lives at `envs/.keystore.json` (or `ENV_KEYSTORE_PATH`) and is written
+ * with mode 0600. Before every read the file must be owned by the current user and
+ * not readable or writable by group or others; otherwise the read fails instead of
+ * using a key that may have been exposed. The checks are skipped on Windows, where
+ * POSIX modes do not apply.
+ *
+ * Each variable has one active key. A rotation retires the previous key instead of
+ * deleting it, so values it encrypted still decrypt until its grace period ends.
+ */
+export default class SecretKeystore {
+  public static readonly FILE_MODE = 0o600;
+
+  private static readonly FORMAT_VERSION = 1;
+  private static readonly KEY_ID_LENGTH = 16;
+
+  public static getKeystorePath(): string {
+    return EnvironmentPathUtils.getKeystoreFilePath();
+  }
+
+  /**
+   * Returns the active key stored for a secret key variable.
+   * @throws CategorizedError if the keystore file has unsafe permissions or is malformed
+   */
+  public static async findKey(variable: string): Promise<KeystoreEntry | undefined> {
+    const keystore = await this.read();
+    return keystore.keys.find((entry) => entry.variable === variable && entry.status === "active");
+  }
+
+  /**
+   * Returns the retired keys of a variable whose grace period has not ended, most
+   * recently retired first.
+   */
+  public static async findRetiredKeys(variable: string): Promise<KeystoreEntry[]> {
+    const keystore = await this.read();
+    return keystore.keys
+      .filter(
+        (entry) =>
+          entry.variable === variable && entry.status === "retired" && !this.isExpired(entry),
+      )
+      .sort((first, second) => (second.retiredAt ?? "").localeCompare(first.retiredAt ?? ""));
+  }
+
+  /**
+   * Returns the metadata of every stored key, without the key material.
+   */
+  public static async listKeys(): Promise<KeystoreEntryMetadata[]> {
+    const keystore = await this.read();
+    return keystore.keys.map(({ key: _key, ...metadata }) => metadata);
+  }
+
+  /**
+   * Stores the first key of a variable for a stage. Retired keys are kept, and an
+   * active key is never replaced here: values it encrypted would stop decrypting, so
+   * only a rotation replaces it.
+   * @param stage - Stage the key belongs to
+   * @param variable - Secret key variable the key is looked up by
+   * @param key - Base64 key material
+   * @returns The stored entry
+   * @throws CategorizedError if another key is already active for the variable
+   */
+  public static async storeKey(
+    stage: string,
+    variable: string,
+    key: string,
+  ): Promise<KeystoreEntry> {
+    const entry = this.createEntry(stage, variable, key);
+
+    const stored = await this.update((keystore) => {
+      const active = keystore.keys.find(
+        (existing) => existing.variable === variable && existing.status === "active",
+      );
+
+      if (active && active.keyId !== entry.keyId) {
+        this.fail(
+          `Key id ${active.keyId} is already active for '${variable}'; rotate the key instead of replacing it`,
+          this.getKeystorePath(),
+        );
+      }
+
+      if (!active) {
+        keystore.keys.push(entry);
+      }
+      return active ?? entry;
+    });
+
+    logger.info(`Stored secret key '${variable}' (key id ${stored.keyId}) in the keystore`);
+    return stored;
+  }
+
+  /**
+   * Stores a key only if none is stored for the variable yet, e.g. when importing a
+   * key found elsewhere.
+   * @returns The entry that is stored after the call
+   */
+  public static async storeKeyIfMissing(
+    stage: string,
+    variable: string,
+    key: string,
+  ): Promise<KeystoreEntry> {
+    return this.update((keystore) => {
+      const existing = keystore.keys.find(
+        (stored) => stored.variable === variable && stored.status === "active",
+      );
+      if (existing) {
+        return existing;
+      }
+
+      const entry = this.createEntry(stage, variable, key);
+      keystore.keys.push(entry);
+      return entry;
+    });
+  }
+
+  /**
+   * Makes a new key the active key of a variable and retires the previous one for a
+   * grace period. Retired keys whose grace period has ended are dropped.
+   * @param stage - Stage the key belongs to
+   * @param variable - Secret key variable the key is looked up by
+   * @param key - Base64 key material of the new key
+   * @param previousKey - Key being replaced; stored as retired when it came from
+   * outside the keystore, e.g. the process environment
+   * @param retiredUntil - End of the previous key's grace period
+   * @returns The new active entry and the retired one
+   */
+  public static async rotateKey(
+    stage: string,
+    variable: string,
+    key: string,
+    previousKey: string,
+    retiredUntil: Date,
+  ): Promise<{ active: KeystoreEntry; retired: KeystoreEntry }> {
+    const active = this.createEntry(stage, variable, key);
+
+    const retired = await this.update((keystore) => {
+      const previous =
+        keystore.keys.find(
+          (stored) => stored.variable === variable && stored.key === previousKey,
+        ) ?? this.createEntry(stage, variable, previousKey);
+
+      const retiredEntry = this.retire(previous, retiredUntil);
+      // Keeps other variables and the still valid retired keys of this one
+      const kept = keystore.keys.filter(
+        (stored) =>
+          stored.variable !== variable ||
+          (stored.status === "retired" &&
+            !this.isExpired(stored) &&
+            stored.keyId !== retiredEntry.keyId),
+      );
+      keystore.keys = [...kept, retiredEntry, active];
+      return retiredEntry;
+    });
+
+    logger.info(
+      `Rotated secret key '${variable}': key id ${active.keyId} is active, ${retired.keyId} is retired until ${retired.expiresAt}`,
+    );
+    return { active, retired };
+  }
+
+  /**
+   * Makes a retired key of a variable active again and retires the current active
+   * key for a grace period, e.g. to roll back a rotation.
+   * @param variable - Secret key variable the key is looked up by
+   * @param keyId - Retired key to reactivate
+   * @param retiredUntil - End of the replaced key's grace period
+   * @returns The reactivated entry
+   */
+  public static async reactivateKey(
+    variable: string,
+    keyId: string,
+    retiredUntil: Date,
+  ): Promise<KeystoreEntry> {
+    const reactivated = await this.update((keystore) => {
+      const target = keystore.keys.find(
+        (stored) => stored.variable === variable && stored.keyId === keyId,
+      );
+      if (!target) {
+        this.fail(`No key with id ${keyId} is stored for '${variable}'`, this.getKeystorePath());
+      }
+
+      keystore.keys = keystore.keys.map((stored) => {
+        if (stored === target) {
+          return this.withStatus(stored, "active");
+        }
+        return stored.variable === variable && stored.status === "active"
+          ? this.retire(stored, retiredUntil)
+          : stored;
+      });
+      return this.withStatus(target, "active");
+    });
+
+    logger.info(`Reactivated secret key '${variable}' (key id ${reactivated.keyId})`);
+    return reactivated;
+  }
+
+  /**
+   * Returns the fingerprint a key is stored under, safe to log.
+   */
+  public static getKeyId(key: string): string {
+    return crypto.createHash("sha256").update(key).digest("hex").slice(0, this.KEY_ID_LENGTH);
+  }
+
+  /**
+   * Reads the keystore under its file lock and writes it back atomically with mode 0600.
+   */
+  private static async update<T>(mutate: (keystore: KeystoreFile) => T): Promise<T> {
+    const keystorePath = this.getKeystorePath();
+
+    try {
+      return await FileLock.withLock(keystorePath, async () => {
+        const keystore = await this.read();
+        const result = mutate(keystore);
+
+        await FileManager.writeFileAtomic(
+          keystorePath,
+          `${JSON.stringify(keystore, null, 2)}\n`,
+          FileEncoding.UTF8,
+          this.FILE_MODE,
+        );
+        return result;
+      });
+    } catch (error) {
+      ErrorHandler.captureError(error, "SecretKeystore.update", "Failed to update the keystore");
+      throw error;
+    }
+  }
+
+  private static async read(): Promise<KeystoreFile> {
+    const keystorePath = this.getKeystorePath();
+
+    if (!(await FileManager.doesFileExist(keystorePath))) {
+      return { version: this.FORMAT_VERSION, keys: [] };
+    }
+
+    this.assertSecurePermissions(keystorePath, await fs.promises.stat(keystorePath));
+
+    let parsed: Partial<KeystoreFile> | null;
+    try {
+      parsed = JSON.parse(await FileManager.readFile(keystorePath)) as Partial<KeystoreFile>;
+    } catch (error) {
+      this.fail(
+        `Keystore is not valid JSON: ${keystorePath} (${(error as Error).message})`,
+        keystorePath,
+      );
+    }
+
+    if (!parsed || !Array.isArray(parsed.keys)) {
+      this.fail(`Keystore must contain a 'keys' array: ${keystorePath}`, keystorePath);
+    }
+
+    if (parsed.version !== this.FORMAT_VERSION) {
+      this.fail(
+        `Unsupported keystore version '${parsed.version}' in ${keystorePath}. Expected ${this.FORMAT_VERSION}`,
+        keystorePath,
+      );
+    }
+
+    // Entries written before rotation existed carry no status and are the active key
+    return {
+      version: parsed.version,
+      keys: parsed.keys.map((entry) => ({ ...entry, status: entry.status ?? "active" })),
+    };
+  }
+
+  private static assertSecurePermissions(keystorePath: string, stats: fs.Stats): void {
+    if (process.platform === "win32") {
+      return;
+    }
+
+    const mode = stats.mode & 0o777;
+    if ((mode & 0o077) !== 0) {
+      this.fail(
+        `Keystore ${keystorePath} has mode ${mode.toString(8)}; it must not be accessible by group or others. Run: chmod 600 ${keystorePath}`,
+        keystorePath,
+      );
+    }
+
+    const uid = process.getuid?.();
+    if (uid !== undefined && stats.uid !== uid) {
+      this.fail(
+        `Keystore ${keystorePath} is owned by uid ${stats.uid}, not by the current user (uid ${uid})`,
+        keystorePath,
+      );
+    }
+  }
+
+  private static createEntry(stage: string, variable: string, key: string): KeystoreEntry {
+    return {
+      keyId: this.getKeyId(key),
+      stage,
+      variable,
+      status: "active",
+      createdAt: new Date().toISOString(),
+      key,
+    };
+  }
+
+  private static retire(entry: KeystoreEntry, retiredUntil: Date): KeystoreEntry {
+    return {
+      ...entry,
+      status: "retired",
+      retiredAt: new Date().toISOString(),
+      expiresAt: retiredUntil.toISOString(),
+    };
+  }
+
+  private static withStatus(entry: KeystoreEntry, status: KeystoreEntryStatus): KeystoreEntry {
+    const { retiredAt: _retiredAt, expiresAt: _expiresAt, ...rest } = entry;
+    return { ...rest, status };
+  }
+
+  private static isExpired(entry: KeystoreEntry): boolean {
+    return !!entry.expiresAt && Date.parse(entry.expiresAt) <= Date.now();
+  }
+
+  private static fail(message: string, keystorePath: string): never {
+    const error = new CategorizedError(
+      ErrorCategories.SECURITY_AND_ACCESS,
+      { keystore: keystorePath },
+      "Secret Keystore",
+      message,
+    );
+    ErrorHandler.captureError(error, "SecretKeystore.read", "Keystore check failed");
+    throw error;
+  }
+}
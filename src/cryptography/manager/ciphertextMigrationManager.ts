@@ -0,0 +1,112 @@
+import path from "path";
+import { CryptoService } from "../service/cryptoService";
+import { CryptoManager } from "./cryptoManager";
+import { EncryptionManager } from "./encryptionManager";
+import SecretKeystore from "../key/secretKeystore";
+import CiphertextFormat from "../format/ciphertextFormat";
+import { SECURITY_CONFIG } from "../types/security.constant";
+import EnvironmentDetector from "../../configuration/environment/detector/environmentDetector";
+import StageEnvFileManager from "../../configuration/environment/manager/stageEnvFileManager";
+import SecureEnvironment from "../../configuration/environment/secrets/secureEnvironment";
+import type {
+  CiphertextMigrationFileResult,
+  CiphertextMigrationReport,
+} from "../types/ciphertext.types";
+import ErrorHandler from "../../utils/errorHandling/errorHandler";
+import logger from "../../utils/logger/loggerManager";
+
+/**
+ * Upgrades the encrypted values of the current stage in place. `ENC2` values, and
+ * `ENC3` values made with another key, other Argon2 parameters or not bound to their
+ * variable and stage, are re-encrypted in the current format with the stage's current
+ * key and `SECURITY_CONFIG.ARGON2_PARAMETERS`.
+ * Values that are already current are left untouched, so running it twice is a no-op.
+ *
+ * Each file is rewritten under its lock only after all its values were re-encrypted;
+ * a value that cannot be decrypted leaves that file unchanged.
+ */
+export class CiphertextMigrationManager {
+  private encryptionManager: EncryptionManager;
+
+  constructor(encryptionManager: EncryptionManager) {
+    this.encryptionManager = encryptionManager;
+  }
+
+  public async migrateEncryptedValues(): Promise<CiphertextMigrationReport> {
+    try {
+      const variable = this.encryptionManager.getCurrentEnvironmentSecretKeyVariable();
+      const currentKey = await CryptoManager.getSecretKeyFromEnvironment(variable);
+      const keyId = SecretKeystore.getKeyId(currentKey);
+      const files: CiphertextMigrationFileResult[] = [];
+
+      for (const filePath of await this.encryptionManager.getCurrentEnvironmentFilePaths()) {
+        files.push(await this.migrateFile(filePath, variable, currentKey, keyId));
+      }
+
+      const report: CiphertextMigrationReport = {
+        stage: EnvironmentDetector.getCurrentEnvironmentStage(),
+        variable,
+        keyId,
+        files,
+        migratedCount: files.reduce((total, file) => total + file.migrated.length, 0),
+      };
+
+      logger.info(CiphertextMigrationManager.format(report));
+      return report;
+    } catch (error) {
+      ErrorHandler.captureError(
+        error,
+        "migrateEncryptedValues",
+        "Failed to migrate encrypted values",
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Formats a report as a human-readable summary. Values are never included.
+   */
+  public static format(report: CiphertextMigrationReport): string {
+    const lines = [
+      `Ciphertext migration (${report.stage}): ${report.migratedCount} value(s) re-encrypted with key id ${report.keyId}`,
+    ];
+
+    for (const file of report.files) {
+      const migrated = file.migrated.length > 0 ? file.migrated.join(", ") : "nothing to migrate";
+      lines.push(`  ${path.basename(file.filePath)}: ${migrated} (${file.upToDate} up to date)`);
+    }
+
+    return lines.join("\n");
+  }
+
+  private async migrateFile(
+    filePath: string,
+    variable: string,
+    currentKey: string,
+    keyId: string,
+  ): Promise<CiphertextMigrationFileResult> {
+    // Sequential on purpose: values without a master key take a 256 MB Argon2 run each
+    return StageEnvFileManager.updateEnvironmentDocument(filePath, async (document) => {
+      const result: CiphertextMigrationFileResult = { filePath, migrated: [], upToDate: 0 };
+
+      for (const [key, value] of Object.entries(document.toObject())) {
+        if (!CryptoManager.isEncrypted(value)) {
+          continue;
+        }
+
+        const context = SecureEnvironment.getEncryptionContext(key);
+
+        if (CiphertextFormat.isCurrent(value, keyId, SECURITY_CONFIG.ARGON2_PARAMETERS, context)) {
+          result.upToDate++;
+          continue;
+        }
+
+        const plaintext = await CryptoService.decrypt(value, variable, context);
+        document.set(key, await CryptoService.encryptWithKey(plaintext, currentKey, context));
+        result.migrated.push(key);
+      }
+
+      return result;
+    });
+  }
+}
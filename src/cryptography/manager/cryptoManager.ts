@@ -1,38 +1,50 @@
 import * as argon2 from "argon2";
 import * as crypto from "crypto";
 import SecureKeyGenerator from "../key/secureKeyGenerator";
-import BaseEnvFileManager from "../../configuration/environment/manager/baseEnvFileManager";
+import SecretKeystore from "../key/secretKeystore";
+import SecretKeyResolver from "../key/secretKeyResolver";
+import CiphertextFormat from "../format/ciphertextFormat";
 import { SECURITY_CONSTANTS, SECURITY_CONFIG } from "../types/security.constant";
 import { FileEncoding } from "../../utils/types/fileManager/file-encoding.enum";
+import ConcurrencyLimiter from "../../utils/concurrency/concurrencyLimiter";
+import type { Argon2Config } from "../types/security.types";
+import type {
+  CiphertextHeader,
+  CiphertextKdf,
+  CiphertextVersion,
+  ParsedCiphertext,
+} from "../types/ciphertext.types";
 import ErrorHandler from "../../utils/errorHandling/errorHandler";
 
 export class CryptoManager {
+  // Master keys by secret key, salt and parameters, cached as promises so concurrent
+  // decryptions share one derivation
+  private static readonly masterKeys = new Map<string, Promise<CryptoKey>>();
+  // Master salt that new values of a secret key are encrypted under in this process
+  private static readonly masterSalts = new Map<string, string>();
+  private static readonly argon2Limiter = new ConcurrencyLimiter(
+    SECURITY_CONFIG.MAX_CONCURRENT_DERIVATIONS,
+  );
+
+  /**
+   * Whether the value is an `ENC3` or legacy `ENC2` encrypted value.
+   */
   public static isEncrypted(value: string): boolean {
     if (!value || typeof value !== "string") return false;
 
-    if (!value.startsWith(SECURITY_CONSTANTS.FORMAT.PREFIX)) return false;
-
-    const encryptedPart = value.substring(SECURITY_CONSTANTS.FORMAT.PREFIX.length);
-    const parts = encryptedPart.split(SECURITY_CONSTANTS.FORMAT.SEPARATOR);
-
-    return (
-      parts.length === SECURITY_CONSTANTS.FORMAT.EXPECTED_PARTS &&
-      parts.every((part) => part && this.isValidBase64(part))
-    );
+    return CiphertextFormat.isEncrypted(value);
   }
 
+  /**
+   * Resolves the secret key through the providers its stage lists under
+   * `secretKeys.providers`: by default the keystore, then the process environment,
+   * which is how CI pipelines supply the key, then the legacy base environment file
+   * (`envs/.env`), whose keys are imported into the keystore on first use. The key is
+   * never written to process.env.
+   */
   public static async getSecretKeyFromEnvironment(secretKeyVariable: string): Promise<string> {
     try {
-      const secretKeyValue = await BaseEnvFileManager.getSecretKeyValue(secretKeyVariable);
-
-      if (!secretKeyValue) {
-        ErrorHandler.logAndThrow(
-          `Secret key variable '${secretKeyVariable}' not found in environment file`,
-          "CryptoManager.getSecretKeyFromEnvironment",
-        );
-      }
-
-      return secretKeyValue;
+      return (await SecretKeyResolver.getKey(secretKeyVariable)).key;
     } catch (error) {
       ErrorHandler.captureError(
         error,
@@ -43,6 +55,20 @@ export class CryptoManager {
     }
   }
 
+  /**
+   * Returns the keys to try when decrypting: the current key first, then the keys
+   * retired by a rotation whose grace period has not ended.
+   */
+  public static async getDecryptionKeys(secretKeyVariable: string): Promise<string[]> {
+    const currentKey = await this.getSecretKeyFromEnvironment(secretKeyVariable);
+    const retiredKeys = await SecretKeystore.findRetiredKeys(secretKeyVariable);
+
+    return [
+      currentKey,
+      ...retiredKeys.map((entry) => entry.key).filter((key) => key !== currentKey),
+    ];
+  }
+
   public static validateSecretKey(secretKey: string): void {
     if (!secretKey || typeof secretKey !== "string") {
       ErrorHandler.logAndThrow(
@@ -89,10 +115,15 @@ export class CryptoManager {
     return comparisonResult === 0;
   }
 
+  /**
+   * Encrypts with AES-GCM. `additionalData` is authenticated but not encrypted; the
+   * same bytes must be passed to `decryptBuffer`.
+   */
   public static async encryptBuffer(
     webCryptoIv: Uint8Array,
     key: CryptoKey,
     value: string,
+    additionalData?: Uint8Array,
   ): Promise<ArrayBuffer> {
     try {
       const textEncoder = new TextEncoder();
@@ -100,6 +131,7 @@ export class CryptoManager {
         {
           name: SECURITY_CONSTANTS.CRYPTO.ALGORITHM,
           iv: webCryptoIv,
+          ...(additionalData && { additionalData }),
         },
         key,
         textEncoder.encode(value),
@@ -114,12 +146,14 @@ export class CryptoManager {
     ivBuffer: Uint8Array,
     key: CryptoKey,
     cipherBuffer: Uint8Array,
+    additionalData?: Uint8Array,
   ): Promise<ArrayBuffer> {
     try {
       return await crypto.subtle.decrypt(
         {
           name: SECURITY_CONSTANTS.CRYPTO.ALGORITHM,
           iv: ivBuffer,
+          ...(additionalData && { additionalData }),
         },
         key,
         cipherBuffer,
@@ -135,9 +169,98 @@ export class CryptoManager {
     }
   }
 
+  /**
+   * Derives the AES and HMAC keys of a value the way its header records: from the
+   * cached master key through HKDF for `argon2id+hkdf-sha256`, or with an Argon2 run
+   * of its own for `argon2id` and for `ENC2` values, which have no header.
+   */
+  public static async deriveKeys(
+    secretKey: string,
+    salt: string,
+    kdf?: CiphertextKdf,
+  ): Promise<{ encryptionKey: CryptoKey; hmacKey: CryptoKey }> {
+    if (!kdf) {
+      return this.deriveKeysWithArgon2(secretKey, salt, SECURITY_CONFIG.LEGACY_ARGON2_PARAMETERS);
+    }
+
+    const parameters = CiphertextFormat.getArgon2Parameters(kdf);
+    if (kdf.algorithm === SECURITY_CONSTANTS.FORMAT_V3.PER_VALUE_KDF) {
+      return this.deriveKeysWithArgon2(secretKey, salt, parameters);
+    }
+
+    const masterKey = await this.getMasterKey(secretKey, kdf.salt!, parameters);
+    return this.deriveKeysWithHKDF(masterKey, salt);
+  }
+
+  /**
+   * Returns the KDF that new values of a secret key are recorded with. The master salt
+   * is generated once per key and process, so the values written by one encryption
+   * run share a master key and decrypting all of them costs one Argon2 derivation.
+   */
+  public static getMasterKdf(
+    secretKey: string,
+    parameters: Argon2Config = SECURITY_CONFIG.ARGON2_PARAMETERS,
+  ): CiphertextKdf {
+    const cacheId = this.getCacheId(secretKey, parameters);
+    if (!this.masterSalts.has(cacheId)) {
+      this.masterSalts.set(cacheId, SecureKeyGenerator.generateBase64Salt());
+    }
+
+    return {
+      algorithm: SECURITY_CONSTANTS.FORMAT_V3.KDF,
+      memoryCost: parameters.MEMORY_COST,
+      timeCost: parameters.TIME_COST,
+      parallelism: parameters.PARALLELISM,
+      salt: this.masterSalts.get(cacheId),
+    };
+  }
+
+  /**
+   * Derives the AES and HMAC keys of one value from a master key, using the value's
+   * salt as the HKDF salt.
+   */
+  public static async deriveKeysWithHKDF(
+    masterKey: CryptoKey,
+    salt: string,
+  ): Promise<{ encryptionKey: CryptoKey; hmacKey: CryptoKey }> {
+    try {
+      this.validateBase64String(salt, "salt");
+
+      const derivedBits = await crypto.subtle.deriveBits(
+        {
+          name: "HKDF",
+          hash: SECURITY_CONSTANTS.FORMAT_V3.HKDF_HASH,
+          salt: Buffer.from(salt, FileEncoding.BASE64),
+          info: Buffer.from(SECURITY_CONSTANTS.FORMAT_V3.HKDF_INFO, FileEncoding.UTF8),
+        },
+        masterKey,
+        (SECURITY_CONFIG.BYTE_LENGTHS.SECRET_KEY + SECURITY_CONFIG.BYTE_LENGTHS.HMAC_KEY_LENGTH) *
+          8,
+      );
+
+      return await this.importDerivedKeys(Buffer.from(derivedBits));
+    } catch (error) {
+      ErrorHandler.captureError(error, "deriveKeysWithHKDF", "Failed to derive keys.");
+      throw error;
+    }
+  }
+
+  /**
+   * Forgets the cached master keys and master salts, e.g. after a key was rotated.
+   */
+  public static clearDerivedKeyCache(): void {
+    this.masterKeys.clear();
+    this.masterSalts.clear();
+  }
+
+  /**
+   * Derives the AES and HMAC keys with an Argon2 run of their own. New values use the
+   * configured parameters; existing values pass the parameters they were encrypted with.
+   */
   public static async deriveKeysWithArgon2(
     secretKey: string,
     salt: string,
+    parameters: Argon2Config = SECURITY_CONFIG.ARGON2_PARAMETERS,
   ): Promise<{ encryptionKey: CryptoKey; hmacKey: CryptoKey }> {
     try {
       this.validateBase64String(salt, "salt");
@@ -149,35 +272,106 @@ export class CryptoManager {
         hashLength:
           SECURITY_CONFIG.BYTE_LENGTHS.SECRET_KEY + SECURITY_CONFIG.BYTE_LENGTHS.HMAC_KEY_LENGTH,
         salt: saltBuffer,
-        memoryCost: SECURITY_CONFIG.ARGON2_PARAMETERS.MEMORY_COST,
-        timeCost: SECURITY_CONFIG.ARGON2_PARAMETERS.TIME_COST,
-        parallelism: SECURITY_CONFIG.ARGON2_PARAMETERS.PARALLELISM,
+        memoryCost: parameters.MEMORY_COST,
+        timeCost: parameters.TIME_COST,
+        parallelism: parameters.PARALLELISM,
       };
 
       const derivedKeyBuffer = await this.argon2Hashing(secretKey, options);
 
-      const encryptionKeyBuffer = derivedKeyBuffer.subarray(
-        0,
-        SECURITY_CONFIG.BYTE_LENGTHS.SECRET_KEY,
-      );
-      const hmacKeyBuffer = derivedKeyBuffer.subarray(SECURITY_CONFIG.BYTE_LENGTHS.SECRET_KEY);
-
-      const encryptionKey = await this.importKeyForCrypto(Buffer.from(encryptionKeyBuffer));
-      const hmacKey = await this.importKeyForHMAC(Buffer.from(hmacKeyBuffer));
-
-      return { encryptionKey, hmacKey };
+      return await this.importDerivedKeys(derivedKeyBuffer);
     } catch (error) {
       ErrorHandler.captureError(error, "deriveKeysWithArgon2", "Failed to derive keys.");
       throw error;
     }
   }
 
+  private static getMasterKey(
+    secretKey: string,
+    salt: string,
+    parameters: Argon2Config,
+  ): Promise<CryptoKey> {
+    const cacheId = this.getCacheId(secretKey, parameters, salt);
+
+    let masterKey = this.masterKeys.get(cacheId);
+    if (!masterKey) {
+      masterKey = this.deriveMasterKey(secretKey, salt, parameters);
+      // A failed derivation is not cached, so the next caller tries again
+      masterKey.catch(() => this.masterKeys.delete(cacheId));
+      this.masterKeys.set(cacheId, masterKey);
+    }
+
+    return masterKey;
+  }
+
+  private static async deriveMasterKey(
+    secretKey: string,
+    salt: string,
+    parameters: Argon2Config,
+  ): Promise<CryptoKey> {
+    this.validateBase64String(salt, "master key salt");
+
+    const masterKeyBuffer = await this.argon2Hashing(secretKey, {
+      type: argon2.argon2id,
+      hashLength: SECURITY_CONFIG.BYTE_LENGTHS.SECRET_KEY,
+      salt: Buffer.from(salt, FileEncoding.BASE64),
+      memoryCost: parameters.MEMORY_COST,
+      timeCost: parameters.TIME_COST,
+      parallelism: parameters.PARALLELISM,
+    });
+
+    try {
+      return await crypto.subtle.importKey("raw", masterKeyBuffer, "HKDF", false, ["deriveBits"]);
+    } finally {
+      SecureKeyGenerator.secureWipe(masterKeyBuffer);
+    }
+  }
+
+  /**
+   * Identifies a secret key, parameters and salt without keeping the key as a map key.
+   */
+  private static getCacheId(secretKey: string, parameters: Argon2Config, salt = ""): string {
+    return crypto
+      .createHash("sha256")
+      .update(
+        [
+          secretKey,
+          parameters.MEMORY_COST,
+          parameters.TIME_COST,
+          parameters.PARALLELISM,
+          salt,
+        ].join("\0"),
+      )
+      .digest("hex");
+  }
+
+  private static async importDerivedKeys(
+    derivedKeyBuffer: Buffer,
+  ): Promise<{ encryptionKey: CryptoKey; hmacKey: CryptoKey }> {
+    const encryptionKeyBuffer = derivedKeyBuffer.subarray(
+      0,
+      SECURITY_CONFIG.BYTE_LENGTHS.SECRET_KEY,
+    );
+    const hmacKeyBuffer = derivedKeyBuffer.subarray(SECURITY_CONFIG.BYTE_LENGTHS.SECRET_KEY);
+
+    const encryptionKey = await this.importKeyForCrypto(Buffer.from(encryptionKeyBuffer));
+    const hmacKey = await this.importKeyForHMAC(Buffer.from(hmacKeyBuffer));
+
+    return { encryptionKey, hmacKey };
+  }
+
+  /**
+   * Runs Argon2 under the process-wide limit of `MAX_CONCURRENT_DERIVATIONS`, so bulk
+   * operations on per-value payloads queue instead of allocating `MEMORY_COST` each.
+   */
   private static async argon2Hashing(secretKey: string, options: argon2.Options): Promise<Buffer> {
     try {
-      return await argon2.hash(secretKey, {
-        ...options,
-        raw: true,
-      });
+      return await this.argon2Limiter.run(() =>
+        argon2.hash(secretKey, {
+          ...options,
+          raw: true,
+        }),
+      );
     } catch (error) {
       ErrorHandler.captureError(
         error,
@@ -277,38 +471,43 @@ export class CryptoManager {
   }
 
   /**
-   * Helper to generate encryption components (salt, IV, and derived keys)
+   * Helper to generate encryption components (salt, IV, KDF, and derived keys)
    */
   public static async generateEncryptionComponents(secretKey: string): Promise<{
     salt: string;
     webCryptoIv: Uint8Array;
+    kdf: CiphertextKdf;
     encryptionKey: CryptoKey;
     hmacKey: CryptoKey;
   }> {
     const salt = SecureKeyGenerator.generateBase64Salt();
     const webCryptoIv = SecureKeyGenerator.generateWebCryptoIV();
+    const kdf = CryptoManager.getMasterKdf(secretKey);
 
-    const { encryptionKey, hmacKey } = await CryptoManager.deriveKeysWithArgon2(secretKey, salt);
+    const { encryptionKey, hmacKey } = await CryptoManager.deriveKeys(secretKey, salt, kdf);
 
     return {
       salt,
       webCryptoIv,
+      kdf,
       encryptionKey,
       hmacKey,
     };
   }
 
   private static formatEncryptedPayload(
+    encodedHeader: string,
     salt: string,
     iv: string,
     cipherText: string,
     hmacBase64: string,
   ): string {
-    return `${SECURITY_CONSTANTS.FORMAT.PREFIX}${salt}:${iv}:${cipherText}:${hmacBase64}`;
+    return `${SECURITY_CONSTANTS.FORMAT_V3.PREFIX}${encodedHeader}:${salt}:${iv}:${cipherText}:${hmacBase64}`;
   }
 
   /**
-   * Helper to create the encrypted payload with HMAC
+   * Helper to create the `ENC3` payload with HMAC. A header with a context binds the
+   * value to it: the context is the AES-GCM additional data and ends the HMAC input.
    */
   public static async createEncryptedPayload(
     value: string,
@@ -316,62 +515,88 @@ export class CryptoManager {
     webCryptoIv: Uint8Array,
     encryptionKey: CryptoKey,
     hmacKey: CryptoKey,
+    header: CiphertextHeader,
   ): Promise<string> {
+    const additionalData = header.context
+      ? CiphertextFormat.encodeAdditionalData(header.context)
+      : undefined;
+
     // Encrypt the value
-    const encryptedBuffer = await CryptoManager.encryptBuffer(webCryptoIv, encryptionKey, value);
+    const encryptedBuffer = await CryptoManager.encryptBuffer(
+      webCryptoIv,
+      encryptionKey,
+      value,
+      additionalData,
+    );
     const cipherText = Buffer.from(encryptedBuffer).toString(FileEncoding.BASE64);
     const iv = Buffer.from(webCryptoIv).toString(FileEncoding.BASE64);
 
-    // Compute HMAC (salt + iv + cipherText)
-    const dataToHmac = Buffer.concat([
-      Buffer.from(salt, FileEncoding.BASE64),
-      Buffer.from(iv, FileEncoding.BASE64),
-      Buffer.from(cipherText, FileEncoding.BASE64),
-    ]);
+    // Compute HMAC (header + salt + iv + cipherText + context)
+    const encodedHeader = CiphertextFormat.encodeHeader(header);
+    const dataToHmac = CryptoManager.prepareHMACData(
+      salt,
+      iv,
+      cipherText,
+      encodedHeader,
+      additionalData,
+    );
     const hmacBase64 = await CryptoManager.computeHMAC(hmacKey, dataToHmac);
 
-    return CryptoManager.formatEncryptedPayload(salt, iv, cipherText, hmacBase64);
+    return CryptoManager.formatEncryptedPayload(encodedHeader, salt, iv, cipherText, hmacBase64);
   }
 
   // Decrypt
 
-  // Helper method 1: Parse and validate encrypted data format
-  public static parseEncryptedData(encryptedData: string): {
-    salt: string;
-    iv: string;
-    cipherText: string;
-    receivedHmac: string;
-  } {
-    CryptoManager.validateEncryptedFormat(encryptedData);
+  // Helper method 1: Parse and validate encrypted data format, dispatching on the version
+  public static parseEncryptedData(encryptedData: string): ParsedCiphertext {
+    const version = CryptoManager.validateEncryptedFormat(encryptedData);
+    const parts = CiphertextFormat.split(encryptedData, version);
+
+    if (version === 2) {
+      CryptoManager.validatePartCount(parts);
 
-    const encryptedPart = encryptedData.substring(SECURITY_CONSTANTS.FORMAT.PREFIX.length);
-    const parts = encryptedPart.split(SECURITY_CONSTANTS.FORMAT.SEPARATOR);
+      const [salt, iv, cipherText, receivedHmac] = parts;
 
-    CryptoManager.validatePartCount(parts);
+      CryptoManager.validateRequiredParts(salt, iv, cipherText, receivedHmac);
+      CryptoManager.validateBase64Components(salt, iv, cipherText, receivedHmac);
+
+      return { version, salt, iv, cipherText, receivedHmac };
+    }
 
-    const [salt, iv, cipherText, receivedHmac] = parts;
+    CryptoManager.validatePartCount(parts, SECURITY_CONSTANTS.FORMAT_V3.EXPECTED_PARTS);
+
+    const [encodedHeader, salt, iv, cipherText, receivedHmac] = parts;
 
     CryptoManager.validateRequiredParts(salt, iv, cipherText, receivedHmac);
     CryptoManager.validateBase64Components(salt, iv, cipherText, receivedHmac);
+    CryptoManager.validateBase64String(encodedHeader, "header");
 
-    return { salt, iv, cipherText, receivedHmac };
+    const header = CiphertextFormat.decodeHeader(encodedHeader);
+    return { version, header, encodedHeader, salt, iv, cipherText, receivedHmac };
   }
 
   // Helper method 2: Validate encrypted data format
-  private static validateEncryptedFormat(encryptedData: string): void {
-    if (!encryptedData.startsWith(SECURITY_CONSTANTS.FORMAT.PREFIX)) {
+  private static validateEncryptedFormat(encryptedData: string): CiphertextVersion {
+    const version = CiphertextFormat.getVersion(encryptedData);
+
+    if (version === undefined) {
       ErrorHandler.logAndThrow(
         "Invalid encrypted format: Missing prefix",
         "CryptoManager.validateEncryptedFormat",
       );
     }
+
+    return version;
   }
 
   // Validate part count
-  public static validatePartCount(parts: string[]): void {
-    if (parts.length !== SECURITY_CONSTANTS.FORMAT.EXPECTED_PARTS) {
+  public static validatePartCount(
+    parts: string[],
+    expectedParts: number = SECURITY_CONSTANTS.FORMAT.EXPECTED_PARTS,
+  ): void {
+    if (parts.length !== expectedParts) {
       ErrorHandler.logAndThrow(
-        `Invalid format. Expected ${SECURITY_CONSTANTS.FORMAT.EXPECTED_PARTS} parts, got ${parts.length}`,
+        `Invalid format. Expected ${expectedParts} parts, got ${parts.length}`,
         "CryptoManager.validatePartCount",
       );
     }
@@ -429,9 +654,17 @@ export class CryptoManager {
     cipherText: string,
     receivedHmac: string,
     hmacKey: CryptoKey,
+    encodedHeader?: string,
+    additionalData?: Uint8Array,
   ): Promise<void> {
     try {
-      const dataToHmac = CryptoManager.prepareHMACData(salt, iv, cipherText);
+      const dataToHmac = CryptoManager.prepareHMACData(
+        salt,
+        iv,
+        cipherText,
+        encodedHeader,
+        additionalData,
+      );
       const computedHmac = await CryptoManager.computeHMAC(hmacKey, dataToHmac);
 
       if (!CryptoManager.constantTimeCompare(computedHmac, receivedHmac)) {
@@ -446,11 +679,23 @@ export class CryptoManager {
     }
   }
 
-  public static prepareHMACData(salt: string, iv: string, cipherText: string): Buffer {
+  /**
+   * Bytes covered by the HMAC; version 3 values prepend their header, and bound values
+   * append their context.
+   */
+  public static prepareHMACData(
+    salt: string,
+    iv: string,
+    cipherText: string,
+    encodedHeader?: string,
+    additionalData?: Uint8Array,
+  ): Buffer {
     return Buffer.concat([
+      ...(encodedHeader ? [Buffer.from(encodedHeader, FileEncoding.BASE64)] : []),
       Buffer.from(salt, FileEncoding.BASE64),
       Buffer.from(iv, FileEncoding.BASE64),
       Buffer.from(cipherText, FileEncoding.BASE64),
+      ...(additionalData ? [additionalData] : []),
     ]);
   }
 
@@ -458,10 +703,11 @@ export class CryptoManager {
     iv: string,
     encryptionKey: CryptoKey,
     cipherText: string,
+    additionalData?: Uint8Array,
   ): Promise<ArrayBuffer> {
     const ivBuffer = Buffer.from(iv, FileEncoding.BASE64);
     const cipherBuffer = Buffer.from(cipherText, FileEncoding.BASE64);
 
-    return await CryptoManager.decryptBuffer(ivBuffer, encryptionKey, cipherBuffer);
+    return await CryptoManager.decryptBuffer(ivBuffer, encryptionKey, cipherBuffer, additionalData);
   }
 }
@@ -1,13 +1,14 @@
 import { CryptoService } from "../service/cryptoService";
 import EnvironmentDetector from "../../configuration/environment/detector/environmentDetector";
 import StageEnvFileManager from "../../configuration/environment/manager/stageEnvFileManager";
+import SecureEnvironment from "../../configuration/environment/secrets/secureEnvironment";
+import type EnvFileDocument from "../../configuration/environment/dotenv/envFileDocument";
+import type { EnvAnnotations } from "../../configuration/environment/dotenv/env-document.types";
 import path from "path";
-import { SECURITY_CONSTANTS } from "../types/security.constant";
+import CiphertextFormat from "../format/ciphertextFormat";
 import type { EnvironmentStage } from "../../configuration/environment/dotenv/environment.types";
-import {
-  EnvironmentFilePaths,
-  SecretKeyVariables,
-} from "../../configuration/environment/dotenv/environmentFileMap";
+import EnvironmentPathUtils from "../../utils/environment/environmentPathUtils";
+import StageRegistry from "../../configuration/environment/stages/stageRegistry";
 import ErrorHandler from "../../utils/errorHandling/errorHandler";
 import logger from "../../utils/logger/loggerManager";
 
@@ -38,49 +39,65 @@ export class EncryptionManager {
     secretKeyVariable: string,
     envVariables?: string[],
   ): Promise<void> {
-    const envFileLines = await StageEnvFileManager.readEnvironmentFileAsLines(filePath);
-    const allEnvVariables = StageEnvFileManager.extractEnvironmentVariables(envFileLines);
-
-    if (Object.keys(allEnvVariables).length === 0) {
-      logger.warn(`No environment variables found in ${filePath}`);
-      return;
+    if (!(await StageEnvFileManager.doesEnvironmentFileExist(filePath))) {
+      throw new Error(`Environment file not found: ${filePath}`);
     }
 
-    const variablesToEncrypt = this.resolveVariablesToEncrypt(allEnvVariables, envVariables);
+    // The file is re-read under its lock so values written by other workers are kept
+    await StageEnvFileManager.updateEnvironmentDocument(filePath, async (document) => {
+      const allEnvVariables = document.toObject();
 
-    if (Object.keys(variablesToEncrypt).length === 0) {
-      return;
-    }
+      if (Object.keys(allEnvVariables).length === 0) {
+        logger.warn(`No environment variables found in ${filePath}`);
+        return;
+      }
 
-    const { updatedLines, encryptedCount } = await this.encryptVariableValuesInFileLines(
-      envFileLines,
-      variablesToEncrypt,
-      secretKeyVariable,
-    );
+      const variablesToEncrypt = this.resolveVariablesToEncrypt(
+        allEnvVariables,
+        document.getAllAnnotations(),
+        envVariables,
+      );
 
-    if (encryptedCount > 0) {
-      await StageEnvFileManager.writeEnvironmentFileLines(filePath, updatedLines);
-    }
+      if (Object.keys(variablesToEncrypt).length === 0) {
+        return;
+      }
 
-    await this.logEncryptionSummary(
-      filePath,
-      Object.keys(variablesToEncrypt).length,
-      encryptedCount,
-    );
+      const encryptedCount = await this.encryptVariableValuesInDocument(
+        document,
+        variablesToEncrypt,
+        secretKeyVariable,
+      );
+
+      await this.logEncryptionSummary(
+        filePath,
+        Object.keys(variablesToEncrypt).length,
+        encryptedCount,
+      );
+    });
   }
 
   /**
    * Determines which environment variables should be encrypted based on the provided filter.
+   * Without a filter, every variable annotated `# @secret` is encrypted.
    * Filters out variables with empty values to prevent them from being counted.
    */
   private resolveVariablesToEncrypt(
     allEnvVariables: Record<string, string>,
+    annotations: Record<string, EnvAnnotations>,
     envVariables?: string[],
   ): Record<string, string> {
     let candidateVariables: Record<string, string>;
 
     if (!envVariables?.length) {
-      candidateVariables = { ...allEnvVariables };
+      candidateVariables = Object.fromEntries(
+        Object.entries(allEnvVariables).filter(([key]) => annotations[key]?.secret),
+      );
+
+      if (Object.keys(candidateVariables).length === 0) {
+        logger.warn(
+          "No variables are annotated '# @secret'; annotate them or pass the variables to encrypt",
+        );
+      }
     } else {
       candidateVariables = {};
       const notFoundVariables: string[] = [];
@@ -142,27 +159,26 @@ export class EncryptionManager {
   }
 
   /**
-   * Encrypts the values of specified environment variables in the file lines.
-   * Now only processes variables that are actually eligible for encryption.
+   * Encrypts the values of specified environment variables in the document.
+   * Only the encrypted entries are rewritten; the rest of the file is untouched.
    */
-  private async encryptVariableValuesInFileLines(
-    envFileLines: string[],
+  private async encryptVariableValuesInDocument(
+    document: EnvFileDocument,
     variablesToEncrypt: Record<string, string>,
     secretKeyVariable: string,
-  ): Promise<{ updatedLines: string[]; encryptedCount: number }> {
+  ): Promise<number> {
     try {
-      let updatedLines = [...envFileLines];
       let encryptedCount = 0;
       const failedVariables: string[] = [];
 
       for (const [key, value] of Object.entries(variablesToEncrypt)) {
         try {
-          const encryptedValue = await CryptoService.encrypt(value.trim(), secretKeyVariable);
-          updatedLines = StageEnvFileManager.updateEnvironmentFileLines(
-            updatedLines,
-            key,
-            encryptedValue,
+          const encryptedValue = await CryptoService.encrypt(
+            value,
+            secretKeyVariable,
+            SecureEnvironment.getEncryptionContext(key),
           );
+          document.set(key, encryptedValue);
           encryptedCount++;
           logger.debug(`Successfully encrypted variable: ${key}`);
         } catch (encryptionError) {
@@ -176,11 +192,11 @@ export class EncryptionManager {
         logger.warn(`Failed to encrypt variables: ${failedVariables.join(", ")}`);
       }
 
-      return { updatedLines, encryptedCount };
+      return encryptedCount;
     } catch (error) {
       ErrorHandler.captureError(
         error,
-        "encryptVariableValuesInFileLines",
+        "encryptVariableValuesInDocument",
         "Failed to encrypt variable values",
       );
       throw error;
@@ -188,13 +204,13 @@ export class EncryptionManager {
   }
 
   /**
-   * Checks if a value is already encrypted by looking for the encryption prefix.
+   * Checks if a value is already encrypted by looking for an encryption prefix.
    */
   public isAlreadyEncrypted(value: string): boolean {
     if (!value) {
       return false;
     }
-    return value.startsWith(SECURITY_CONSTANTS.FORMAT.PREFIX);
+    return CiphertextFormat.getVersion(value) !== undefined;
   }
 
   /**
@@ -240,46 +256,35 @@ export class EncryptionManager {
     return this.getEnvironmentStageFilePath(currentEnvironment);
   }
 
+  /**
+   * Get the stage file and, when present, its local override file for the current
+   * environment: every file whose values are encrypted with the stage's key
+   */
+  public async getCurrentEnvironmentFilePaths(): Promise<string[]> {
+    const currentEnvironment = EnvironmentDetector.getCurrentEnvironmentStage();
+    const stageFilePath = this.getEnvironmentStageFilePath(currentEnvironment);
+
+    if (!(await StageEnvFileManager.doesEnvironmentFileExist(stageFilePath))) {
+      ErrorHandler.logAndThrow(
+        `Environment file not found: ${stageFilePath}`,
+        "EncryptionManager.getCurrentEnvironmentFilePaths",
+      );
+    }
+
+    const localFilePath = EnvironmentPathUtils.getLocalEnvironmentFilePath(currentEnvironment);
+    return (await StageEnvFileManager.doesEnvironmentFileExist(localFilePath))
+      ? [stageFilePath, localFilePath]
+      : [stageFilePath];
+  }
+
   /**
    * Get the appropriate secret key variable for the given environment
    */
   private getSecretKeyVariable(environment: EnvironmentStage): string {
-    switch (environment) {
-      case "dev":
-        return SecretKeyVariables.dev;
-      case "qa":
-        return SecretKeyVariables.qa;
-      case "uat":
-        return SecretKeyVariables.uat;
-      case "preprod":
-        return SecretKeyVariables.preprod;
-      case "prod":
-        return SecretKeyVariables.prod;
-      default:
-        ErrorHandler.logAndThrow(
-          `Failed to select secret key. Invalid environment: ${environment}. Must be 'dev', 'qa', 'uat', 'preprod' or 'prod'`,
-          "getSecretKeyVariable",
-        );
-    }
+    return StageRegistry.getStage(environment).secretKeyVariable;
   }
 
   private getEnvironmentStageFilePath(environment: EnvironmentStage): string {
-    switch (environment) {
-      case "dev":
-        return EnvironmentFilePaths.dev;
-      case "qa":
-        return EnvironmentFilePaths.qa;
-      case "uat":
-        return EnvironmentFilePaths.uat;
-      case "preprod":
-        return EnvironmentFilePaths.preprod;
-      case "prod":
-        return EnvironmentFilePaths.prod;
-      default:
-        ErrorHandler.logAndThrow(
-          `Failed to select environment file. Invalid environment: ${environment}. Must be 'dev', 'qa', 'uat', 'preprod' or 'prod'`,
-          "getEnvironmentStageFilePath",
-        );
-    }
+    return EnvironmentPathUtils.getEnvironmentFilePath(environment);
   }
 }
@@ -1,7 +1,7 @@
 import FileManager from "../../utils/fileManager/fileManager";
 import { EncryptionManager } from "./encryptionManager";
-import { SECURITY_CONSTANTS } from "../types/security.constant";
-import { FileEncoding } from "../../utils/types/fileManager/file-encoding.enum";
+import CiphertextFormat from "../format/ciphertextFormat";
+import StageEnvFileManager from "../../configuration/environment/manager/stageEnvFileManager";
 import ErrorHandler from "../../utils/errorHandling/errorHandler";
 
 /**
@@ -55,6 +55,19 @@ export class EncryptionValidator {
       .map(([varName]) => varName);
   }
 
+  /**
+   * Get the variables annotated `# @secret` in the current stage file
+   * @returns Names of the annotated variables, in file order
+   */
+  public async getAnnotatedSecrets(): Promise<string[]> {
+    const document = await StageEnvFileManager.readEnvironmentDocument(
+      this.encryptionManager.getCurrentEnvironmentStageFilePath(),
+    );
+    return Object.entries(document.getAllAnnotations())
+      .filter(([, annotations]) => annotations.secret)
+      .map(([key]) => key);
+  }
+
   /**
    * Load and parse environment variables from a file
    */
@@ -68,42 +81,18 @@ export class EncryptionValidator {
       );
     }
 
-    const envContent = await FileManager.readFile(filePath, FileEncoding.UTF8);
-    const envVars: Record<string, string> = {};
-
-    envContent.split("\n").forEach((line) => {
-      const trimmedLine = line.trim();
-      if (trimmedLine && !trimmedLine.startsWith("#")) {
-        const [key, ...valueParts] = trimmedLine.split("=");
-        if (key && valueParts.length > 0) {
-          envVars[key.trim()] = valueParts.join("=").trim();
-        }
-      }
-    });
-
-    return envVars;
+    const document = await StageEnvFileManager.readEnvironmentDocument(filePath);
+    return document.toObject();
   }
 
   /**
-   * Check if a value is properly encrypted with ENC2 format
+   * Check if a value is properly encrypted in the ENC3 or legacy ENC2 format
    */
   private isEncrypted(value: string): boolean {
     if (!value || typeof value !== "string") {
       return false;
     }
 
-    if (!value.startsWith(SECURITY_CONSTANTS.FORMAT.PREFIX)) {
-      return false;
-    }
-
-    const withoutPrefix = value.substring(SECURITY_CONSTANTS.FORMAT.PREFIX.length);
-    const parts = withoutPrefix.split(SECURITY_CONSTANTS.FORMAT.SEPARATOR);
-
-    if (parts.length !== SECURITY_CONSTANTS.FORMAT.EXPECTED_PARTS) {
-      return false;
-    }
-
-    const base64Regex = /^[A-Za-z0-9+/]+=*$/;
-    return parts.every((part) => part.length > 0 && base64Regex.test(part));
+    return CiphertextFormat.isEncrypted(value);
   }
 }
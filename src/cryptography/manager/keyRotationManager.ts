@@ -0,0 +1,387 @@
+import path from "path";
+import { CryptoService } from "../service/cryptoService";
+import { CryptoManager } from "./cryptoManager";
+import { EncryptionManager } from "./encryptionManager";
+import SecretKeystore from "../key/secretKeystore";
+import SecretKeyResolver from "../key/secretKeyResolver";
+import SecureKeyGenerator from "../key/secureKeyGenerator";
+import EnvironmentDetector from "../../configuration/environment/detector/environmentDetector";
+import StageEnvFileManager from "../../configuration/environment/manager/stageEnvFileManager";
+import SecureEnvironment from "../../configuration/environment/secrets/secureEnvironment";
+import FileManager from "../../utils/fileManager/fileManager";
+import { CategorizedError } from "../../utils/errorHandling/internals/categorizedError";
+import { ErrorCategories } from "../../utils/types/errorHandling/error-categories.enum";
+import { FileEncoding } from "../../utils/types/fileManager/file-encoding.enum";
+import type {
+  KeyRotationFailure,
+  KeyRotationOperation,
+  KeyRotationOptions,
+  KeyRotationReport,
+  KeyRotationStatus,
+} from "../types/key-rotation.types";
+import ErrorHandler from "../../utils/errorHandling/errorHandler";
+import logger from "../../utils/logger/loggerManager";
+
+interface ReencryptedValue {
+  key: string;
+  current: string;
+  reencrypted: string;
+}
+
+interface FilePlan {
+  filePath: string;
+  values: ReencryptedValue[];
+}
+
+interface RotationStep {
+  operation: KeyRotationOperation;
+  variable: string;
+  fromKey: string;
+  targetKey: string;
+  /** Current key first, then the retired keys still in their grace period */
+  decryptionKeys: string[];
+  updateKeystore: () => Promise<unknown>;
+  revertKeystore: () => Promise<unknown>;
+}
+
+/**
+ * Rotates the secret key of the current stage: generates a new key, re-encrypts every
+ * encrypted value in the stage file and its local override file, and retires the
+ * previous key for a grace period so values encrypted with it elsewhere still decrypt.
+ *
+ * Every value is decrypted and re-encrypted in memory before anything is written, so
+ * a value that cannot be decrypted aborts the run without changes. The keystore is
+ * updated before the files; a worker reading a file mid-rotation decrypts its old
+ * values through the retired key. If writing a file fails, the files already written
+ * and the keystore are put back.
+ *
+ * `rollbackSecretKeyRotation()` reverses the last rotation the same way,
+ * re-encrypting with the most recently retired key and making it active again. Each
+ * run writes `reports/key-rotation-report.json`.
+ */
+export class KeyRotationManager {
+  public static readonly REPORT_FILE = path.join("reports", "key-rotation-report.json");
+  public static readonly DEFAULT_GRACE_PERIOD_DAYS = 7;
+
+  private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+
+  private encryptionManager: EncryptionManager;
+
+  constructor(encryptionManager: EncryptionManager) {
+    this.encryptionManager = encryptionManager;
+  }
+
+  /**
+   * Replaces the stage's secret key with a new one and re-encrypts its values.
+   */
+  public async rotateSecretKey(options: KeyRotationOptions = {}): Promise<KeyRotationReport> {
+    const variable = this.encryptionManager.getCurrentEnvironmentSecretKeyVariable();
+    const retiredUntil = this.resolveRetiredUntil(options);
+    const currentKey = await this.getKeystoreKey(variable, "rotate");
+    const newKey = SecureKeyGenerator.generateBase64SecretKey();
+
+    return this.run(options, retiredUntil, {
+      operation: "rotate",
+      variable,
+      fromKey: currentKey,
+      targetKey: newKey,
+      decryptionKeys: await CryptoManager.getDecryptionKeys(variable),
+      updateKeystore: () =>
+        SecretKeystore.rotateKey(
+          EnvironmentDetector.getCurrentEnvironmentStage(),
+          variable,
+          newKey,
+          currentKey,
+          retiredUntil,
+        ),
+      revertKeystore: () =>
+        SecretKeystore.reactivateKey(variable, SecretKeystore.getKeyId(currentKey), retiredUntil),
+    });
+  }
+
+  /**
+   * Makes the most recently retired key active again and re-encrypts the stage's
+   * values with it. The key being replaced is retired for the grace period.
+   */
+  public async rollbackSecretKeyRotation(
+    options: KeyRotationOptions = {},
+  ): Promise<KeyRotationReport> {
+    const variable = this.encryptionManager.getCurrentEnvironmentSecretKeyVariable();
+    const retiredUntil = this.resolveRetiredUntil(options);
+    const currentKey = await this.getKeystoreKey(variable, "rollback");
+    const [previous] = await SecretKeystore.findRetiredKeys(variable);
+
+    if (!previous) {
+      ErrorHandler.logAndThrow(
+        `No retired key within its grace period is stored for '${variable}'; there is no rotation to roll back`,
+        "KeyRotationManager.rollbackSecretKeyRotation",
+      );
+    }
+
+    return this.run(options, retiredUntil, {
+      operation: "rollback",
+      variable,
+      fromKey: currentKey,
+      targetKey: previous.key,
+      decryptionKeys: await CryptoManager.getDecryptionKeys(variable),
+      updateKeystore: () => SecretKeystore.reactivateKey(variable, previous.keyId, retiredUntil),
+      revertKeystore: () =>
+        SecretKeystore.reactivateKey(variable, SecretKeystore.getKeyId(currentKey), retiredUntil),
+    });
+  }
+
+  /**
+   * Formats a report as a human-readable summary. Values are never included.
+   */
+  public static format(report: KeyRotationReport): string {
+    const verb = report.status === "dry-run" ? "would re-encrypt" : "re-encrypted";
+    const lines = [
+      `Key ${report.operation} of '${report.variable}' (${report.stage}): ${report.status}, ${verb} ${report.reencryptedCount} value(s) from key id ${report.fromKeyId} to ${report.toKeyId}`,
+    ];
+
+    if (report.retiredUntil && report.status === "completed") {
+      lines.push(`  Key id ${report.fromKeyId} keeps decrypting until ${report.retiredUntil}`);
+    }
+
+    for (const file of report.files) {
+      lines.push(
+        `  ${path.basename(file.filePath)}: ${file.keys.join(", ") || "no encrypted values"}`,
+      );
+    }
+
+    for (const failure of report.failures) {
+      lines.push(
+        `  [failed] ${failure.key} in ${path.basename(failure.filePath)}: ${failure.message}`,
+      );
+    }
+
+    return lines.join("\n");
+  }
+
+  private async run(
+    options: KeyRotationOptions,
+    retiredUntil: Date,
+    step: RotationStep,
+  ): Promise<KeyRotationReport> {
+    const startedAt = new Date();
+    const dryRun = options.dryRun ?? process.env.KEY_ROTATION_DRY_RUN === "true";
+    const failures: KeyRotationFailure[] = [];
+
+    const plans = await this.planReencryption(step, failures);
+
+    let status: KeyRotationStatus = dryRun ? "dry-run" : "completed";
+    let writeError: unknown;
+
+    if (failures.length > 0) {
+      status = "aborted";
+    } else if (!dryRun) {
+      await step.updateKeystore();
+      SecretKeyResolver.clearCache();
+
+      try {
+        await this.writePlans(plans);
+      } catch (error) {
+        writeError = error;
+        status = (await this.revert(plans, step)) ? "reverted" : "failed";
+      }
+    }
+
+    const report: KeyRotationReport = {
+      operation: step.operation,
+      status,
+      stage: EnvironmentDetector.getCurrentEnvironmentStage(),
+      variable: step.variable,
+      startedAt: startedAt.toISOString(),
+      durationMs: Date.now() - startedAt.getTime(),
+      fromKeyId: SecretKeystore.getKeyId(step.fromKey),
+      toKeyId: SecretKeystore.getKeyId(step.targetKey),
+      retiredUntil: retiredUntil.toISOString(),
+      files: plans.map((plan) => ({
+        filePath: plan.filePath,
+        keys: plan.values.map((value) => value.key),
+      })),
+      reencryptedCount: plans.reduce((total, plan) => total + plan.values.length, 0),
+      failures,
+    };
+
+    await this.writeReport(report);
+
+    if (status === "aborted") {
+      throw new CategorizedError(
+        ErrorCategories.SECURITY_AND_ACCESS,
+        { variable: step.variable, keys: failures.map((failure) => failure.key) },
+        "Key Rotation",
+        `Key ${step.operation} aborted; ${failures.length} value(s) could not be decrypted with the keys of '${step.variable}' and nothing was changed. See ${KeyRotationManager.REPORT_FILE}`,
+      );
+    }
+
+    if (writeError) {
+      ErrorHandler.captureError(
+        writeError,
+        "KeyRotationManager.run",
+        `Key ${step.operation} of '${step.variable}' ${status}`,
+      );
+      throw writeError;
+    }
+
+    logger.info(KeyRotationManager.format(report));
+    return report;
+  }
+
+  /**
+   * Decrypts every encrypted value of the stage and re-encrypts it with the target key,
+   * without writing anything. Values that fail are collected instead of thrown.
+   */
+  private async planReencryption(
+    step: RotationStep,
+    failures: KeyRotationFailure[],
+  ): Promise<FilePlan[]> {
+    const plans: FilePlan[] = [];
+
+    for (const filePath of await this.encryptionManager.getCurrentEnvironmentFilePaths()) {
+      const document = await StageEnvFileManager.readEnvironmentDocument(filePath);
+      const plan: FilePlan = { filePath, values: [] };
+
+      // Sequential on purpose: values without a master key take a 256 MB Argon2 run each
+      for (const [key, value] of Object.entries(document.toObject())) {
+        if (!CryptoManager.isEncrypted(value)) {
+          continue;
+        }
+
+        try {
+          const context = SecureEnvironment.getEncryptionContext(key);
+          const plaintext = await CryptoService.decryptWithKeys(
+            value,
+            step.decryptionKeys,
+            context,
+          );
+          const reencrypted = await CryptoService.encryptWithKey(
+            plaintext,
+            step.targetKey,
+            context,
+          );
+          plan.values.push({ key, current: value, reencrypted });
+        } catch (error) {
+          failures.push({ filePath, key, message: (error as Error).message });
+        }
+      }
+
+      plans.push(plan);
+    }
+
+    return plans;
+  }
+
+  private async writePlans(plans: FilePlan[]): Promise<void> {
+    for (const plan of plans) {
+      await this.replaceValues(plan, "current", "reencrypted");
+    }
+  }
+
+  /**
+   * Puts the original ciphertexts back and restores the keystore. Values still
+   * holding their original ciphertext are left alone.
+   * @returns Whether everything was put back
+   */
+  private async revert(plans: FilePlan[], step: RotationStep): Promise<boolean> {
+    try {
+      for (const plan of plans) {
+        await this.replaceValues(plan, "reencrypted", "current");
+      }
+      await step.revertKeystore();
+      SecretKeyResolver.clearCache();
+
+      logger.warn(`Key ${step.operation} of '${step.variable}' was reverted`);
+      return true;
+    } catch (error) {
+      ErrorHandler.captureError(
+        error,
+        "KeyRotationManager.revert",
+        `Failed to revert the key ${step.operation} of '${step.variable}'; the report lists the values to check in the env files`,
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Swaps the planned values of one file under its lock. A value that holds neither
+   * ciphertext was changed by someone else during the run and fails the write.
+   */
+  private async replaceValues(
+    plan: FilePlan,
+    from: "current" | "reencrypted",
+    to: "current" | "reencrypted",
+  ): Promise<void> {
+    if (plan.values.length === 0) {
+      return;
+    }
+
+    await StageEnvFileManager.updateEnvironmentDocument(plan.filePath, (document) => {
+      for (const value of plan.values) {
+        const stored = document.get(value.key);
+
+        if (stored === value[to]) {
+          continue;
+        }
+
+        if (stored !== value[from]) {
+          throw new CategorizedError(
+            ErrorCategories.FILE_SYSTEM,
+            { filePath: plan.filePath, key: value.key },
+            "Key Rotation",
+            `'${value.key}' in ${path.basename(plan.filePath)} changed during the key rotation`,
+          );
+        }
+
+        document.set(value.key, value[to]);
+      }
+    });
+  }
+
+  /**
+   * Returns the stage's current key, which must come from the keystore: rotation only
+   * writes the keystore, so a key resolved by another provider would keep being served
+   * while the values are re-encrypted with a key nothing resolves.
+   */
+  private async getKeystoreKey(variable: string, operation: KeyRotationOperation): Promise<string> {
+    const { key, provider } = await SecretKeyResolver.getKey(variable);
+
+    if (provider !== "keystore") {
+      throw new CategorizedError(
+        ErrorCategories.ENVIRONMENT_AND_DEPENDENCIES,
+        { variable, provider },
+        "Key Rotation",
+        `Key ${operation} only updates the keystore, but '${variable}' is provided by '${provider}'. Replace the key at that source instead, or resolve it from the keystore`,
+      );
+    }
+
+    return key;
+  }
+
+  private resolveRetiredUntil(options: KeyRotationOptions): Date {
+    const days =
+      options.gracePeriodDays ??
+      (process.env.KEY_ROTATION_GRACE_DAYS
+        ? Number(process.env.KEY_ROTATION_GRACE_DAYS)
+        : KeyRotationManager.DEFAULT_GRACE_PERIOD_DAYS);
+
+    if (!Number.isFinite(days) || days <= 0) {
+      ErrorHandler.logAndThrow(
+        `Key rotation grace period must be a positive number of days, got '${days}'`,
+        "KeyRotationManager.resolveRetiredUntil",
+      );
+    }
+
+    return new Date(Date.now() + days * KeyRotationManager.DAY_MS);
+  }
+
+  private async writeReport(report: KeyRotationReport): Promise<void> {
+    await FileManager.writeFile(
+      KeyRotationManager.REPORT_FILE,
+      JSON.stringify(report, null, 2),
+      "keyRotationReport",
+      FileEncoding.UTF8,
+    );
+    logger.info(`Key rotation report written to ${KeyRotationManager.REPORT_FILE}`);
+  }
+}
@@ -1,30 +1,59 @@
 import { EncryptionManager } from "../manager/encryptionManager";
-import BaseEnvFileManager from "../../configuration/environment/manager/baseEnvFileManager";
+import { KeyRotationManager } from "../manager/keyRotationManager";
+import { CiphertextMigrationManager } from "../manager/ciphertextMigrationManager";
+import SecretKeystore from "../key/secretKeystore";
+import SecretKeyResolver from "../key/secretKeyResolver";
 import SecureKeyGenerator from "../../../src/cryptography/key/secureKeyGenerator";
+import EnvironmentDetector from "../../configuration/environment/detector/environmentDetector";
+import type { KeyRotationOptions, KeyRotationReport } from "../types/key-rotation.types";
+import type { CiphertextMigrationReport } from "../types/ciphertext.types";
 import ErrorHandler from "../../utils/errorHandling/errorHandler";
+import logger from "../../utils/logger/loggerManager";
 
 export class CryptoOrchestrator {
   private encryptionManager: EncryptionManager;
+  private keyRotationManager: KeyRotationManager;
+  private ciphertextMigrationManager: CiphertextMigrationManager;
 
-  constructor(encryptionManager: EncryptionManager) {
+  constructor(
+    encryptionManager: EncryptionManager,
+    keyRotationManager: KeyRotationManager,
+    ciphertextMigrationManager: CiphertextMigrationManager,
+  ) {
     this.encryptionManager = encryptionManager;
+    this.keyRotationManager = keyRotationManager;
+    this.ciphertextMigrationManager = ciphertextMigrationManager;
   }
 
+  /**
+   * Generates the stage's secret key and stores it in the keystore. A key that any
+   * provider already resolves is kept, so running this again never leaves the stage's
+   * encrypted values without their key; `keys:rotate:<stage>` replaces a key.
+   */
   public async generateSecretKey(): Promise<void> {
+    const secretKeyVariable = this.encryptionManager.getCurrentEnvironmentSecretKeyVariable();
+
     try {
-      // Generate a new secret key
-      const generatedSecretKey = SecureKeyGenerator.generateBase64SecretKey();
+      const existing = await SecretKeyResolver.findKey(secretKeyVariable);
+      if (existing) {
+        logger.info(
+          `Secret key '${secretKeyVariable}' already exists (key id ${SecretKeystore.getKeyId(existing.key)}, provided by '${existing.provider}'); keeping it`,
+        );
+        return;
+      }
 
-      // Store the secret key in the base environment file
-      await BaseEnvFileManager.storeBaseEnvironmentKey(
-        this.encryptionManager.getCurrentEnvironmentSecretKeyVariable(),
-        generatedSecretKey,
+      // Store the secret key in the keystore, never in a file loaded into process.env
+      await SecretKeystore.storeKey(
+        EnvironmentDetector.getCurrentEnvironmentStage(),
+        secretKeyVariable,
+        SecureKeyGenerator.generateBase64SecretKey(),
       );
+      SecretKeyResolver.clearCache();
     } catch (error) {
       ErrorHandler.captureError(
         error,
         "generateSecretKey",
-        `Failed to generate secret key "${this.encryptionManager.getCurrentEnvironmentSecretKeyVariable()}"`,
+        `Failed to generate secret key "${secretKeyVariable}"`,
       );
       throw error;
     }
@@ -33,4 +62,16 @@ export class CryptoOrchestrator {
   public async encryptEnvironmentVariables(envVariables?: string[]): Promise<void> {
     await this.encryptionManager.encryptEnvironmentVariables(envVariables);
   }
+
+  public async rotateSecretKey(options?: KeyRotationOptions): Promise<KeyRotationReport> {
+    return this.keyRotationManager.rotateSecretKey(options);
+  }
+
+  public async rollbackSecretKeyRotation(options?: KeyRotationOptions): Promise<KeyRotationReport> {
+    return this.keyRotationManager.rollbackSecretKeyRotation(options);
+  }
+
+  public async migrateEncryptedValues(): Promise<CiphertextMigrationReport> {
+    return this.ciphertextMigrationManager.migrateEncryptedValues();
+  }
 }
@@ -1,11 +1,22 @@
 import { CryptoManager } from "../manager/cryptoManager";
+import SecretKeystore from "../key/secretKeystore";
+import CiphertextFormat from "../format/ciphertextFormat";
+import { CategorizedError } from "../../utils/errorHandling/internals/categorizedError";
+import { ErrorCategories } from "../../utils/types/errorHandling/error-categories.enum";
+import type { EncryptionContext, ParsedCiphertext } from "../types/ciphertext.types";
 import ErrorHandler from "../../utils/errorHandling/errorHandler";
+import logger from "../../utils/logger/loggerManager";
 
 export class CryptoService {
   /**
    * Main encrypt method using helpers
+   * @param context - Variable and stage to bind the value to; unbound when omitted
    */
-  public static async encrypt(value: string, secretKeyVariable: string): Promise<string> {
+  public static async encrypt(
+    value: string,
+    secretKeyVariable: string,
+    context?: EncryptionContext,
+  ): Promise<string> {
     try {
       // Step 1: Validate prerequisites
       const secretKey = await CryptoManager.validateEncryptionPrerequisites(
@@ -13,59 +24,198 @@ export class CryptoService {
         secretKeyVariable,
       );
 
-      // Step 2: Generate encryption components
-      const { salt, webCryptoIv, encryptionKey, hmacKey } =
-        await CryptoManager.generateEncryptionComponents(secretKey);
-
-      // Step 3: Create encrypted payload
-      return await CryptoManager.createEncryptedPayload(
-        value,
-        salt,
-        webCryptoIv,
-        encryptionKey,
-        hmacKey,
-      );
+      // Step 2: Encrypt with the resolved key
+      return await this.encryptWithKey(value, secretKey, context);
     } catch (error) {
       ErrorHandler.captureError(error, "encrypt", "Failed to encrypt with AES-GCM.");
       throw error;
     }
   }
 
+  /**
+   * Encrypts a value with the given key material instead of a key variable, e.g. with
+   * the new key during a rotation. The `ENC3` header records the key id, the master key
+   * salt and configured Argon2 parameters, and the context the value is bound to.
+   */
+  public static async encryptWithKey(
+    value: string,
+    secretKey: string,
+    context?: EncryptionContext,
+  ): Promise<string> {
+    CryptoManager.validateSecretKey(secretKey);
+    CryptoManager.validateInputs(value, secretKey, "encrypt");
+
+    // Generate encryption components
+    const { salt, webCryptoIv, kdf, encryptionKey, hmacKey } =
+      await CryptoManager.generateEncryptionComponents(secretKey);
+
+    // Create encrypted payload
+    return CryptoManager.createEncryptedPayload(
+      value,
+      salt,
+      webCryptoIv,
+      encryptionKey,
+      hmacKey,
+      CiphertextFormat.createHeader(SecretKeystore.getKeyId(secretKey), kdf, context),
+    );
+  }
+
+  /**
+   * Encrypts several values; `contexts[i]` is the context `values[i]` is bound to.
+   * They share the master key, so only the first value runs Argon2.
+   */
   public static async encryptMultiple(
     values: string[],
     secretKeyVariable: string,
+    contexts: EncryptionContext[] = [],
   ): Promise<string[]> {
-    return Promise.all(values.map((value) => this.encrypt(value, secretKeyVariable)));
+    return Promise.all(
+      values.map((value, index) => this.encrypt(value, secretKeyVariable, contexts[index])),
+    );
+  }
+
+  /**
+   * Decrypts with the current key of the variable, falling back to the keys retired
+   * by a rotation while their grace period lasts.
+   * @param context - Where the value was found; a bound value must match it
+   */
+  public static async decrypt(
+    encryptedData: string,
+    secretKeyVariable: string,
+    context?: EncryptionContext,
+  ): Promise<string> {
+    const secretKeys = await CryptoManager.getDecryptionKeys(secretKeyVariable);
+    return this.decryptWithKeys(encryptedData, secretKeys, context);
   }
 
-  public static async decrypt(encryptedData: string, secretKeyVariable: string): Promise<string> {
-    const resolvedSecretKey = await CryptoManager.getSecretKeyFromEnvironment(secretKeyVariable);
-    CryptoManager.validateSecretKey(resolvedSecretKey);
-    CryptoManager.validateInputs(encryptedData, resolvedSecretKey, "decrypt");
+  /**
+   * Decrypts with the first of the given keys whose HMAC matches. `ENC3` values are
+   * only tried with the key their header names, derived the way the header records;
+   * `ENC2` values with every key and the legacy parameters.
+   * @throws CategorizedError (SECURITY_AND_ACCESS) if a bound value is decrypted outside
+   * its context or no key authenticates the value; "Ciphertext Tamper" for `ENC3` values
+   */
+  public static async decryptWithKeys(
+    encryptedData: string,
+    secretKeys: string[],
+    context?: EncryptionContext,
+  ): Promise<string> {
+    secretKeys.forEach((secretKey) => CryptoManager.validateSecretKey(secretKey));
+    CryptoManager.validateInputs(encryptedData, secretKeys[0], "decrypt");
 
     try {
-      const { salt, iv, cipherText, receivedHmac } =
-        CryptoManager.parseEncryptedData(encryptedData);
+      const parsed = CryptoManager.parseEncryptedData(encryptedData);
+      const { salt, iv, cipherText, receivedHmac, encodedHeader } = parsed;
+      const additionalData = this.resolveAdditionalData(parsed, context);
 
-      const { encryptionKey, hmacKey } = await CryptoManager.deriveKeysWithArgon2(
-        resolvedSecretKey,
-        salt,
-      );
+      for (const secretKey of this.selectKeys(parsed, secretKeys)) {
+        const { encryptionKey, hmacKey } = await CryptoManager.deriveKeys(
+          secretKey,
+          salt,
+          parsed.header?.kdf,
+        );
+
+        const computedHmac = await CryptoManager.computeHMAC(
+          hmacKey,
+          CryptoManager.prepareHMACData(salt, iv, cipherText, encodedHeader, additionalData),
+        );
+        if (!CryptoManager.constantTimeCompare(computedHmac, receivedHmac)) {
+          continue;
+        }
 
-      await CryptoManager.verifyHMAC(salt, iv, cipherText, receivedHmac, hmacKey);
+        if (secretKey !== secretKeys[0]) {
+          logger.debug("Decrypted a value with a retired secret key; rotate or re-encrypt it");
+        }
 
-      const decryptedBuffer = await CryptoManager.performDecryption(iv, encryptionKey, cipherText);
+        const decryptedBuffer = await CryptoManager.performDecryption(
+          iv,
+          encryptionKey,
+          cipherText,
+          additionalData,
+        );
+        return new TextDecoder().decode(new Uint8Array(decryptedBuffer));
+      }
 
-      return new TextDecoder().decode(new Uint8Array(decryptedBuffer));
+      // An ENC3 value was only tried with the key its header names, so a mismatch
+      // means the value or its header changed after it was encrypted.
+      throw new CategorizedError(
+        ErrorCategories.SECURITY_AND_ACCESS,
+        context && { variable: context.variable, stage: context.stage },
+        parsed.header ? "Ciphertext Tamper" : "Ciphertext Integrity",
+        parsed.header
+          ? "Authentication failed: HMAC mismatch - the encrypted value or its header was modified"
+          : "Authentication failed: HMAC mismatch - Invalid key or tampered data",
+      );
     } catch (error) {
       ErrorHandler.captureError(error, "decrypt", "Failed to decrypt with AES-GCM.");
       throw error;
     }
   }
 
+  /**
+   * Checks a bound value against the context it was found in and returns the
+   * additional data to authenticate it with. `ENC2` and older `ENC3` values are unbound.
+   */
+  private static resolveAdditionalData(
+    parsed: ParsedCiphertext,
+    context?: EncryptionContext,
+  ): Uint8Array | undefined {
+    const binding = parsed.header?.context;
+    if (!binding) {
+      return undefined;
+    }
+
+    const acceptedStages = context ? [context.stage, ...(context.inheritedStages ?? [])] : [];
+
+    if (
+      !context ||
+      binding.variable !== context.variable ||
+      !acceptedStages.includes(binding.stage)
+    ) {
+      const foundIn = context ? `'${context.variable}' (${context.stage})` : "an unknown variable";
+      throw new CategorizedError(
+        ErrorCategories.SECURITY_AND_ACCESS,
+        {
+          boundTo: binding,
+          foundIn: context && { variable: context.variable, stage: context.stage },
+        },
+        "Ciphertext Tamper",
+        `Encrypted value of '${binding.variable}' (${binding.stage}) was found in ${foundIn}; encrypted values cannot be moved between variables or stages`,
+      );
+    }
+
+    return CiphertextFormat.encodeAdditionalData(binding);
+  }
+
+  private static selectKeys(parsed: ParsedCiphertext, secretKeys: string[]): string[] {
+    if (!parsed.header) {
+      return secretKeys;
+    }
+
+    const { keyId } = parsed.header;
+    const matching = secretKeys.filter((secretKey) => SecretKeystore.getKeyId(secretKey) === keyId);
+
+    if (matching.length === 0) {
+      throw new CategorizedError(
+        ErrorCategories.SECURITY_AND_ACCESS,
+        { keyId },
+        "Crypto Service",
+        `Value was encrypted with key id ${keyId}, which is neither the current nor a retired key`,
+      );
+    }
+
+    return matching;
+  }
+
+  /**
+   * Decrypts several values; `contexts[i]` is the context of `encryptedValues[i]`.
+   * Values sharing a master key derive it once, and per-value Argon2 runs for older
+   * payloads are capped at `SECURITY_CONFIG.MAX_CONCURRENT_DERIVATIONS`.
+   */
   public static async decryptMultiple(
     encryptedValues: string[],
     secretKeyVariable: string,
+    contexts: EncryptionContext[] = [],
   ): Promise<string[]> {
     if (!Array.isArray(encryptedValues)) {
       ErrorHandler.logAndThrow("encryptedValues must be an array", "CryptoService.decryptMultiple");
@@ -77,7 +227,9 @@ export class CryptoService {
 
     try {
       return await Promise.all(
-        encryptedValues.map((data) => this.decrypt(data, secretKeyVariable)),
+        encryptedValues.map((data, index) =>
+          this.decrypt(data, secretKeyVariable, contexts[index]),
+        ),
       );
     } catch (error) {
       ErrorHandler.captureError(
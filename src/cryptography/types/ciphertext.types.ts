@@ -0,0 +1,79 @@
+/**
+ * `2`: `ENC2:salt:iv:cipher:hmac`, derived with the legacy Argon2 parameters.
+ * `3`: `ENC3:header:salt:iv:cipher:hmac`, where the header records how it was made.
+ */
+export type CiphertextVersion = 2 | 3;
+
+/**
+ * `argon2id+hkdf-sha256`: Argon2id over `salt` gives a master key, derived once per key
+ * and salt in a process; the value's keys come from HKDF over its own salt.
+ * `argon2id`: Argon2id over the value's own salt, once per value.
+ */
+export type CiphertextKdfAlgorithm = "argon2id+hkdf-sha256" | "argon2id";
+
+export interface CiphertextKdf {
+  algorithm: CiphertextKdfAlgorithm;
+  /** KiB */
+  memoryCost: number;
+  timeCost: number;
+  parallelism: number;
+  /** Base64 salt of the master key, `argon2id+hkdf-sha256` only */
+  salt?: string;
+}
+
+/**
+ * Variable and stage a value belongs to. It is passed to AES-GCM as additional
+ * authenticated data and covered by the HMAC, so a value copied to another variable
+ * or stage fails to decrypt.
+ */
+export interface EncryptionContext {
+  variable: string;
+  stage: string;
+  /** Stages `stage` extends; values inherited from their files are accepted too */
+  inheritedStages?: string[];
+}
+
+export type CiphertextBinding = Pick<EncryptionContext, "variable" | "stage">;
+
+/**
+ * Base64 JSON header of a version 3 value. It is covered by the HMAC, so it cannot be
+ * changed without failing authentication.
+ */
+export interface CiphertextHeader {
+  version: 3;
+  /** `SecretKeystore.getKeyId` of the key the value was encrypted with */
+  keyId: string;
+  kdf: CiphertextKdf;
+  cipher: "AES-256-GCM";
+  /** Set when the value is bound to its variable and stage; absent on older values */
+  context?: CiphertextBinding;
+}
+
+export interface ParsedCiphertext {
+  version: CiphertextVersion;
+  /** Version 3 only */
+  header?: CiphertextHeader;
+  /** Header as it appears in the value, version 3 only */
+  encodedHeader?: string;
+  salt: string;
+  iv: string;
+  cipherText: string;
+  receivedHmac: string;
+}
+
+export interface CiphertextMigrationFileResult {
+  filePath: string;
+  /** Keys whose values were re-encrypted; values are never reported */
+  migrated: string[];
+  /** Encrypted values already in the current format, key and parameters */
+  upToDate: number;
+}
+
+export interface CiphertextMigrationReport {
+  stage: string;
+  variable: string;
+  /** Key the migrated values are encrypted with */
+  keyId: string;
+  files: CiphertextMigrationFileResult[];
+  migratedCount: number;
+}
@@ -0,0 +1,24 @@
+/**
+ * - `per-value-argon2`: every value runs Argon2 over its own salt, as `ENC2` and older
+ *   `ENC3` values do
+ * - `master-key-hkdf`: one Argon2 run per key and master salt, then HKDF per value
+ */
+export type KeyDerivationScheme = "per-value-argon2" | "master-key-hkdf";
+
+export interface KeyDerivationBenchmarkResult {
+  scheme: KeyDerivationScheme;
+  /** Wall time to encrypt every value at once */
+  encryptMs: number;
+  /** Wall time to decrypt every value at once, starting with an empty key cache */
+  decryptMs: number;
+  /** Highest resident set size above the start of the run, in MB */
+  peakRssDeltaMb: number;
+}
+
+export interface KeyDerivationBenchmarkReport {
+  valueCount: number;
+  /** `SECURITY_CONFIG.ARGON2_PARAMETERS.MEMORY_COST` in MB */
+  argon2MemoryMb: number;
+  maxConcurrentDerivations: number;
+  results: KeyDerivationBenchmarkResult[];
+}
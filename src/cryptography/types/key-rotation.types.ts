@@ -0,0 +1,48 @@
+export type KeyRotationOperation = "rotate" | "rollback";
+
+/**
+ * Outcome of a rotation run:
+ * - `completed`: files and keystore were updated
+ * - `dry-run`: every value was re-encrypted in memory, nothing was written
+ * - `aborted`: a value could not be decrypted, nothing was written
+ * - `reverted`: writing failed and the files and keystore were put back
+ * - `failed`: writing failed and putting back failed too; see the logs
+ */
+export type KeyRotationStatus = "completed" | "dry-run" | "aborted" | "reverted" | "failed";
+
+export interface KeyRotationOptions {
+  /** Re-encrypts in memory only. Defaults to `KEY_ROTATION_DRY_RUN=true` */
+  dryRun?: boolean;
+  /** How long the replaced key keeps decrypting. Defaults to `KEY_ROTATION_GRACE_DAYS` or 7 */
+  gracePeriodDays?: number;
+}
+
+export interface KeyRotationFileResult {
+  filePath: string;
+  /** Keys whose values were re-encrypted; values are never reported */
+  keys: string[];
+}
+
+export interface KeyRotationFailure {
+  filePath: string;
+  key: string;
+  message: string;
+}
+
+export interface KeyRotationReport {
+  operation: KeyRotationOperation;
+  status: KeyRotationStatus;
+  stage: string;
+  variable: string;
+  startedAt: string;
+  durationMs: number;
+  /** Key the values were encrypted with before the run */
+  fromKeyId: string;
+  /** Key the values are encrypted with after the run */
+  toKeyId: string;
+  /** End of the grace period of the replaced key */
+  retiredUntil?: string;
+  files: KeyRotationFileResult[];
+  reencryptedCount: number;
+  failures: KeyRotationFailure[];
+}
@@ -0,0 +1,30 @@
+/**
+ * `active` keys encrypt and decrypt; `retired` keys only decrypt, until they expire.
+ */
+export type KeystoreEntryStatus = "active" | "retired";
+
+/**
+ * A secret key and its metadata as stored in the keystore file.
+ */
+export interface KeystoreEntry {
+  /** Fingerprint of the key, safe to log */
+  keyId: string;
+  stage: string;
+  /** Secret key variable the key is looked up by, e.g. `SECRET_KEY_DEV` */
+  variable: string;
+  status: KeystoreEntryStatus;
+  createdAt: string;
+  /** Set when the key was replaced by a rotation */
+  retiredAt?: string;
+  /** End of the grace period; the retired key is dropped at the next rotation after it */
+  expiresAt?: string;
+  /** Base64 key material; never logged */
+  key: string;
+}
+
+export type KeystoreEntryMetadata = Omit<KeystoreEntry, "key">;
+
+export interface KeystoreFile {
+  version: number;
+  keys: KeystoreEntry[];
+}
@@ -0,0 +1,36 @@
+import type { ResolvedStageSecretKeySettings } from "../../configuration/environment/stages/stage.types";
+
+export interface SecretKeyRequest {
+  /** Secret key variable, e.g. `SECRET_KEY_DEV` */
+  variable: string;
+  /** Stage the key belongs to */
+  stage: string;
+  /** The stage's `secretKeys` settings */
+  settings: ResolvedStageSecretKeySettings;
+}
+
+/**
+ * Source of stage secret keys. Stages list the providers to ask, in order, under
+ * `secretKeys.providers`; register custom providers in `SECRET_KEY_PROVIDERS`.
+ */
+export interface SecretKeyProvider {
+  /** Name a stage lists the provider by, e.g. `keystore` */
+  name: string;
+  /**
+   * Whether keys it returns may be reused for `secretKeys.cacheTtl`. Sources that
+   * change during a run, such as the keystore during a rotation, must not be cached.
+   */
+  cacheable: boolean;
+  /**
+   * Returns the key, or undefined when this source has none and the next provider
+   * should be asked. Throwing stops the chain and the error is categorized by
+   * `ErrorAnalyzer`; messages must never contain key material.
+   */
+  getKey(request: SecretKeyRequest): Promise<string | undefined>;
+}
+
+export interface SecretKeyResolution {
+  key: string;
+  /** Name of the provider that returned the key */
+  provider: string;
+}
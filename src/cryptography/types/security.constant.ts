@@ -13,6 +13,12 @@ export const SECURITY_CONFIG: SecurityConfig = {
     TIME_COST: 4,
     PARALLELISM: 3,
   },
+  LEGACY_ARGON2_PARAMETERS: {
+    MEMORY_COST: 262144, // 256 MB
+    TIME_COST: 4,
+    PARALLELISM: 3,
+  },
+  MAX_CONCURRENT_DERIVATIONS: 2, // 512 MB at the parameters above
 };
 
 export const SECURITY_CONSTANTS = {
@@ -22,6 +28,15 @@ export const SECURITY_CONSTANTS = {
     EXPECTED_PARTS: 4,
     PREFIX_LENGTH: 4,
   },
+  FORMAT_V3: {
+    PREFIX: "ENC3:",
+    EXPECTED_PARTS: 5,
+    CIPHER: "AES-256-GCM",
+    KDF: "argon2id+hkdf-sha256",
+    PER_VALUE_KDF: "argon2id",
+    HKDF_HASH: "SHA-256",
+    HKDF_INFO: "ENC3 AES-256-GCM HMAC-SHA-256",
+  },
   CRYPTO: {
     ALGORITHM: "AES-GCM",
     KEY_USAGE: ["encrypt", "decrypt"] as KeyUsage[],
@@ -32,5 +47,6 @@ export const SECURITY_CONSTANTS = {
 } as const;
 
 export type EncryptionFormat = typeof SECURITY_CONSTANTS.FORMAT;
+export type EncryptionFormatV3 = typeof SECURITY_CONSTANTS.FORMAT_V3;
 export type EncryptionCrypto = typeof SECURITY_CONSTANTS.CRYPTO;
 export type EncryptionValidation = typeof SECURITY_CONSTANTS.VALIDATION;
@@ -23,5 +23,10 @@ export interface Argon2Config {
 
 export interface SecurityConfig {
   BYTE_LENGTHS: CryptoByteLengths;
+  /** Used for new values and recorded in their header; can be changed */
   ARGON2_PARAMETERS: Argon2Config;
+  /** What every ENC2 value was derived with; never change */
+  LEGACY_ARGON2_PARAMETERS: Argon2Config;
+  /** Argon2 derivations that may run at once in a process; each holds `MEMORY_COST` KiB */
+  MAX_CONCURRENT_DERIVATIONS: number;
 }
@@ -0,0 +1,44 @@
+import ErrorHandler from "../errorHandling/errorHandler";
+
+/**
+ * Caps how many tasks run at once within this process; further tasks wait in call
+ * order for a free slot.
+ *
+ * The limit is per process: each Playwright worker has its own limiter.
+ */
+export default class ConcurrencyLimiter {
+  private active = 0;
+  private readonly waiting: (() => void)[] = [];
+
+  constructor(private readonly limit: number) {
+    if (!Number.isInteger(limit) || limit < 1) {
+      ErrorHandler.logAndThrow(
+        `Concurrency limit must be a positive integer, got ${limit}`,
+        "ConcurrencyLimiter",
+      );
+    }
+  }
+
+  /**
+   * Runs a task once a slot is free and releases the slot when it settles.
+   */
+  public async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active < this.limit) {
+      this.active++;
+    } else {
+      // The releasing task hands its slot over, so `active` stays unchanged
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import { ENVIRONMENT_FILE_CONFIG } from "../../configuration/environment/dotenv/environment.constants";
 import PathUtils from "../fileManager/pathUtils";
+import StageRegistry from "../../configuration/environment/stages/stageRegistry";
 import type { EnvironmentStage } from "../../configuration/environment/dotenv/environment.types";
 
 export default class EnvironmentPathUtils {
@@ -23,14 +24,53 @@ export default class EnvironmentPathUtils {
   }
 
   public static getEnvironmentFilePath(stage: EnvironmentStage): string {
+    return PathUtils.normalize(StageRegistry.getStage(stage).filePath);
+  }
+
+  /**
+   * Returns the shared layer file path (e.g., envs/.env.common).
+   */
+  public static getCommonEnvFilePath(): string {
     return PathUtils.joinPath(
       EnvironmentPathUtils.ENV_DIRECTORY,
-      `${ENVIRONMENT_FILE_CONFIG.BASE_ENV_FILE}.${stage}`,
+      `${ENVIRONMENT_FILE_CONFIG.BASE_ENV_FILE}.${ENVIRONMENT_FILE_CONFIG.COMMON_ENV_SUFFIX}`,
     );
   }
 
+  /**
+   * Returns the gitignored local override file path, next to the stage file
+   * (e.g., envs/.env.dev.local).
+   */
+  public static getLocalEnvironmentFilePath(stage: EnvironmentStage): string {
+    return `${this.getEnvironmentFilePath(stage)}.${ENVIRONMENT_FILE_CONFIG.LOCAL_ENV_SUFFIX}`;
+  }
+
+  /**
+   * Returns the committed template file path (e.g., envs/.env.example).
+   */
+  public static getExampleEnvFilePath(): string {
+    return PathUtils.joinPath(
+      EnvironmentPathUtils.ENV_DIRECTORY,
+      `${ENVIRONMENT_FILE_CONFIG.BASE_ENV_FILE}.${ENVIRONMENT_FILE_CONFIG.EXAMPLE_ENV_SUFFIX}`,
+    );
+  }
+
+  /**
+   * Returns the keystore file path (e.g., envs/.keystore.json), or the path in
+   * `ENV_KEYSTORE_PATH`.
+   */
+  public static getKeystoreFilePath(): string {
+    const override = process.env[ENVIRONMENT_FILE_CONFIG.KEYSTORE_OVERRIDE_VARIABLE];
+    return override
+      ? PathUtils.resolvePath(override)
+      : PathUtils.joinPath(
+          EnvironmentPathUtils.ENV_DIRECTORY,
+          ENVIRONMENT_FILE_CONFIG.KEYSTORE_FILE,
+        );
+  }
+
   public static getSecretKeyVariable(stage: EnvironmentStage): string {
-    return `${ENVIRONMENT_FILE_CONFIG.SECRET_KEY_PREFIX}_${stage.toUpperCase()}`;
+    return StageRegistry.getStage(stage).secretKeyVariable;
   }
 
   /**
@@ -10,6 +10,8 @@ import {
 } from "./lookups/errorPatternCacheManager";
 
 export default class ErrorHandler {
+  private static readonly categoryTotals = new Map<string, number>();
+
   /**
    * Centralized error capture with optimized deduplication and logging.
    * @param error - The error to log
@@ -36,6 +38,10 @@ export default class ErrorHandler {
       cleanupLoggedErrorsCache();
 
       LOGGED_ERRORS_CACHE.add(cacheKey);
+      this.categoryTotals.set(
+        details.category,
+        (this.categoryTotals.get(details.category) ?? 0) + 1,
+      );
       this.logStructuredError(details);
       this.logAdditionalDetails(error, source);
     } catch (loggingError) {
@@ -101,6 +107,13 @@ export default class ErrorHandler {
     );
   }
 
+  /**
+   * Returns how many distinct errors this process logged per category.
+   */
+  public static getCategoryTotals(): Record<string, number> {
+    return Object.fromEntries(this.categoryTotals);
+  }
+
   /**
    * Reset the error cache - useful for testing or memory management
    */
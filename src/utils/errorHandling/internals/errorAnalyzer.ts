@@ -1,6 +1,7 @@
 import { AxiosError } from "axios";
 import DataSanitizer from "../../sanitization/dataSanitizer";
 import { CategorizedError } from "./categorizedError";
+import CiContextDetector from "../../../configuration/environment/detector/ciContextDetector";
 import { ErrorCategories } from "../../types/errorHandling/error-categories.enum";
 import { ErrorDetails } from "../../types/errorHandling/error-handler.types";
 import {
@@ -26,6 +27,7 @@ export default class ErrorAnalyzer {
    */
   public static createErrorDetails(error: unknown, source: string, context?: string): ErrorDetails {
     const analysis = this.categorizeError(error);
+    const ciContext = CiContextDetector.detect();
 
     return {
       source,
@@ -36,6 +38,7 @@ export default class ErrorAnalyzer {
       environment: process.env.ENV ?? "dev",
       version: process.env.APP_VERSION,
       statusCode: this.extractHttpStatus(error),
+      ci: ciContext.isCI ? ciContext : undefined,
     };
   }
 
@@ -33,6 +33,11 @@ export const SYSTEM_ERROR_MAP = new Map([
     "ENETUNREACH",
     { category: ErrorCategories.API_AND_NETWORK, context: "Network Unreachable Error" },
   ],
+  ["ENOTFOUND", { category: ErrorCategories.API_AND_NETWORK, context: "DNS Lookup Error" }],
+  [
+    "ECONNABORTED",
+    { category: ErrorCategories.API_AND_NETWORK, context: "Connection Aborted Error" },
+  ],
 ]);
 
 // Runtime error type mappings - moderate frequency
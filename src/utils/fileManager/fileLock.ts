@@ -0,0 +1,249 @@
+import fs from "fs";
+import os from "os";
+import { randomUUID } from "crypto";
+import { FileLockOptions } from "../types/fileManager/File-manager.types";
+import { CategorizedError } from "../errorHandling/internals/categorizedError";
+import { ErrorCategories } from "../types/errorHandling/error-categories.enum";
+import ErrorHandler from "../errorHandling/errorHandler";
+import logger from "../logger/loggerManager";
+
+interface LockOwner {
+  pid: number;
+  host: string;
+  createdAt: number;
+  /** Tells this acquisition apart from any other, including a reused pid */
+  token: string;
+}
+
+interface LockSnapshot {
+  /** Lock file content, compared again before a stale lock is taken over */
+  content: string;
+  owner: LockOwner | null;
+  modifiedAt: number;
+}
+
+/**
+ * Advisory lock shared between processes through a `<file>.lock` file.
+ *
+ * The lock file is created exclusively, so only one process (or Playwright worker)
+ * holds it at a time. While held, its modification time is refreshed every third of
+ * `staleMs`. A lock is stale when its owner ran on this host and is no longer alive,
+ * or, for owners on another host, when it was not refreshed for `staleMs`. A live
+ * owner on this host is waited for however long it holds the lock.
+ *
+ * A stale lock is taken over by renaming it to a unique name and checking it is still
+ * the lock judged stale, so two waiters never both remove it and take the lock.
+ *
+ * Locks are not reentrant: calling `withLock` for the same file inside the action
+ * waits for the outer lock and eventually times out.
+ */
+export default class FileLock {
+  private static readonly DEFAULT_OPTIONS: FileLockOptions = {
+    timeoutMs: 10_000,
+    retryIntervalMs: 50,
+    staleMs: 30_000,
+  };
+  private static readonly MIN_REFRESH_INTERVAL_MS = 10;
+
+  public static getLockPath(filePath: string): string {
+    return `${filePath}.lock`;
+  }
+
+  /**
+   * Runs an action while holding the lock for a file.
+   * @param filePath - File to protect
+   * @param action - Work to do while the lock is held
+   * @param options - Timeout, retry and stale settings
+   * @throws CategorizedError if the lock cannot be acquired before the timeout
+   */
+  public static async withLock<T>(
+    filePath: string,
+    action: () => Promise<T>,
+    options?: Partial<FileLockOptions>,
+  ): Promise<T> {
+    const opts = { ...this.DEFAULT_OPTIONS, ...options };
+    const lockPath = this.getLockPath(filePath);
+
+    const owner = await this.acquire(lockPath, opts);
+    const heartbeat = setInterval(
+      () => void this.refresh(lockPath),
+      Math.max(opts.staleMs / 3, this.MIN_REFRESH_INTERVAL_MS),
+    );
+    heartbeat.unref();
+
+    try {
+      return await action();
+    } finally {
+      clearInterval(heartbeat);
+      await this.release(lockPath, owner);
+    }
+  }
+
+  private static async acquire(lockPath: string, options: FileLockOptions): Promise<LockOwner> {
+    const deadline = Date.now() + options.timeoutMs;
+    const owner: LockOwner = {
+      pid: process.pid,
+      host: os.hostname(),
+      createdAt: Date.now(),
+      token: randomUUID(),
+    };
+
+    while (!(await this.tryCreateLock(lockPath, owner))) {
+      if (await this.removeIfStale(lockPath, options.staleMs)) {
+        continue;
+      }
+
+      if (Date.now() >= deadline) {
+        const error = new CategorizedError(
+          ErrorCategories.FILE_SYSTEM,
+          {
+            lockPath,
+            owner: (await this.readSnapshot(lockPath))?.owner,
+            timeoutMs: options.timeoutMs,
+          },
+          "File Lock",
+          `Timed out after ${options.timeoutMs}ms waiting for lock: ${lockPath}`,
+        );
+        ErrorHandler.captureError(error, "FileLock.acquire", "Failed to acquire file lock");
+        throw error;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, options.retryIntervalMs));
+    }
+
+    logger.debug(`Acquired lock: ${lockPath}`);
+    return owner;
+  }
+
+  private static async tryCreateLock(lockPath: string, owner: LockOwner): Promise<boolean> {
+    try {
+      await fs.promises.writeFile(lockPath, JSON.stringify(owner), { flag: "wx" });
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Removes the lock if it is stale.
+   * @returns Whether the lock is gone and creating it should be retried right away
+   */
+  private static async removeIfStale(lockPath: string, staleMs: number): Promise<boolean> {
+    const snapshot = await this.readSnapshot(lockPath);
+
+    if (!snapshot) {
+      // Released between our attempt and this check
+      return true;
+    }
+
+    const { owner } = snapshot;
+    const sameHost = !!owner && owner.host === os.hostname();
+    const abandoned = sameHost && !this.isProcessAlive(owner.pid);
+    const expired = !sameHost && Date.now() - snapshot.modifiedAt > staleMs;
+
+    if (!abandoned && !expired) {
+      return false;
+    }
+
+    if (!(await this.takeOver(lockPath, snapshot))) {
+      return false;
+    }
+
+    logger.warn(
+      `Removed stale lock ${lockPath} held by pid ${owner?.pid ?? "unknown"} (${abandoned ? "owner exited" : "expired"})`,
+    );
+    return true;
+  }
+
+  /**
+   * Moves the lock aside and deletes it if it is still the one judged stale. A lock
+   * that was replaced in the meantime is put back.
+   */
+  private static async takeOver(lockPath: string, stale: LockSnapshot): Promise<boolean> {
+    const claimedPath = `${lockPath}.${randomUUID()}.stale`;
+
+    try {
+      await fs.promises.rename(lockPath, claimedPath);
+    } catch (error) {
+      // Another waiter moved it first
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return false;
+      }
+      throw error;
+    }
+
+    const claimed = await this.readSnapshot(claimedPath);
+
+    if (claimed?.content === stale.content) {
+      await fs.promises.rm(claimedPath, { force: true });
+      return true;
+    }
+
+    try {
+      await fs.promises.link(claimedPath, lockPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+      logger.warn(`Lock ${lockPath} was replaced while a stale lock was being removed`);
+    } finally {
+      await fs.promises.rm(claimedPath, { force: true });
+    }
+
+    return false;
+  }
+
+  private static async readSnapshot(lockPath: string): Promise<LockSnapshot | null> {
+    try {
+      const [content, stats] = await Promise.all([
+        fs.promises.readFile(lockPath, "utf8"),
+        fs.promises.stat(lockPath),
+      ]);
+      return { content, owner: this.parseOwner(content), modifiedAt: stats.mtimeMs };
+    } catch {
+      return null;
+    }
+  }
+
+  private static parseOwner(content: string): LockOwner | null {
+    try {
+      return JSON.parse(content) as LockOwner;
+    } catch {
+      // Created but not written yet
+      return null;
+    }
+  }
+
+  private static isProcessAlive(pid: number): boolean {
+    try {
+      process.kill(pid, 0);
+      return true;
+    } catch (error) {
+      // EPERM means the process exists but belongs to another user
+      return (error as NodeJS.ErrnoException).code === "EPERM";
+    }
+  }
+
+  private static async refresh(lockPath: string): Promise<void> {
+    const now = new Date();
+    await fs.promises.utimes(lockPath, now, now).catch(() => undefined);
+  }
+
+  /**
+   * Deletes the lock file unless another process took it over meanwhile.
+   */
+  private static async release(lockPath: string, owner: LockOwner): Promise<void> {
+    const current = (await this.readSnapshot(lockPath))?.owner;
+
+    if (current?.token !== owner.token) {
+      logger.warn(`Lock ${lockPath} was taken over by pid ${current?.pid ?? "unknown"}`);
+      return;
+    }
+
+    await fs.promises.rm(lockPath, { force: true });
+    logger.debug(`Released lock: ${lockPath}`);
+  }
+}
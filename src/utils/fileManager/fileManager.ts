@@ -264,6 +264,92 @@ export default class FileManager {
       };
     }
   }
+  /**
+   * Writes content to a temporary file next to the target and renames it into place,
+   * so readers never see a partially written file
+   *
+   * @param filePath - Path to the file
+   * @param content - Content to write
+   * @param encoding - File encoding
+   * @param mode - Permission bits, applied before the file is moved into place; defaults
+   * to those of the file being replaced
+   */
+  public static async writeFileAtomic(
+    filePath: string,
+    content: string,
+    encoding: FileEncoding = FileEncoding.UTF8,
+    mode?: number,
+  ): Promise<void> {
+    filePath = PathUtils.normalize(filePath);
+    PathUtils.validate(filePath, "filePath");
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+
+    try {
+      mode ??= await this.getPermissionBits(filePath);
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.writeFile(tempPath, content, { encoding, mode });
+      if (mode !== undefined) {
+        // The mode given to writeFile is reduced by the umask
+        await fs.promises.chmod(tempPath, mode);
+      }
+      await fs.promises.rename(tempPath, filePath);
+      logger.debug(`Atomically wrote file: ${PathUtils.resolvePath(filePath)}`);
+    } catch (error) {
+      await fs.promises.rm(tempPath, { force: true });
+      ErrorHandler.captureError(error, "writeFileAtomic", `Failed to write file: ${filePath}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Appends content to a file, creating it and its parent directories if needed
+   *
+   * @param filePath - Path to the file
+   * @param content - Content to append
+   * @param encoding - File encoding
+   */
+  public static async appendFile(
+    filePath: string,
+    content: string,
+    encoding: FileEncoding = FileEncoding.UTF8,
+  ): Promise<void> {
+    filePath = PathUtils.normalize(filePath);
+    PathUtils.validate(filePath, "filePath");
+
+    try {
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.appendFile(filePath, content, { encoding });
+    } catch (error) {
+      ErrorHandler.captureError(error, "appendFile", `Failed to append to file: ${filePath}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Copies a file, overwriting the destination
+   *
+   * @param sourcePath - File to copy
+   * @param destinationPath - Path of the copy
+   */
+  public static async copyFile(sourcePath: string, destinationPath: string): Promise<void> {
+    sourcePath = PathUtils.normalize(sourcePath);
+    destinationPath = PathUtils.normalize(destinationPath);
+    PathUtils.validate(sourcePath, "sourcePath");
+    PathUtils.validate(destinationPath, "destinationPath");
+
+    try {
+      await fs.promises.copyFile(sourcePath, destinationPath);
+      logger.debug(`Copied file: ${sourcePath} -> ${destinationPath}`);
+    } catch (error) {
+      ErrorHandler.captureError(
+        error,
+        "copyFile",
+        `Failed to copy file: ${sourcePath} -> ${destinationPath}`,
+      );
+      throw error;
+    }
+  }
+
   /**
    * Reads content from a file
    *
@@ -445,6 +531,20 @@ export default class FileManager {
     }
   }
 
+  /**
+   * Returns the permission bits of an existing file, or undefined if it does not exist
+   */
+  private static async getPermissionBits(filePath: string): Promise<number | undefined> {
+    try {
+      return (await fs.promises.stat(filePath)).mode & 0o777;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
   /**
    * Helper method to get human-readable access mode description
    * @param mode - Access mode constant
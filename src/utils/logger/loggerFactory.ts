@@ -3,6 +3,7 @@ import moment from "moment-timezone";
 import path from "path";
 import fs from "fs";
 import { winstonLoggerConfig } from "../types/logger/logger.config";
+import StageRegistry from "../../configuration/environment/stages/stageRegistry";
 import type { EnvironmentStage } from "../../configuration/environment/dotenv/environment.types";
 
 export default class LoggerFactory {
@@ -74,8 +75,7 @@ export default class LoggerFactory {
   private static createConsoleTransport(): winston.transports.ConsoleTransportInstance {
     const timestampFormat = this.customTimestampFormat();
     const customFormatColored = this.logCustomFormatColored();
-    const environment = (process.env.ENV as EnvironmentStage) || "dev";
-    const consoleLevel = this.getConsoleLogLevel(environment);
+    const consoleLevel = this.getConsoleLogLevel(process.env.ENV);
 
     return new winston.transports.Console({
       level: consoleLevel,
@@ -105,15 +105,18 @@ export default class LoggerFactory {
     });
   }
 
-  private static getConsoleLogLevel(environment: EnvironmentStage): string {
-    const levelMap: Record<EnvironmentStage, string> = {
-      dev: winstonLoggerConfig.logLevels.debug,
-      qa: winstonLoggerConfig.logLevels.debug,
-      uat: winstonLoggerConfig.logLevels.info,
-      preprod: winstonLoggerConfig.logLevels.warn,
-      prod: winstonLoggerConfig.logLevels.error,
-    };
-    return levelMap[environment] || winstonLoggerConfig.logLevels.debug;
+  /**
+   * Resolves the console level from the stage registry. The logger must always be
+   * creatable, so an unknown stage or unreadable stages config falls back to debug;
+   * `EnvironmentDetector` reports those problems once the logger exists.
+   */
+  private static getConsoleLogLevel(environment?: EnvironmentStage): string {
+    try {
+      const stage = StageRegistry.findStage(environment || StageRegistry.getDefaultStage());
+      return stage?.consoleLogLevel ?? winstonLoggerConfig.logLevels.debug;
+    } catch {
+      return winstonLoggerConfig.logLevels.debug;
+    }
   }
 
   private static ensureDirExists(dirPath: string): void {
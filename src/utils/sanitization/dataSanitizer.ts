@@ -131,6 +131,18 @@ export default class DataSanitizer {
     return result as T;
   }
 
+  /**
+   * Checks whether a variable name contains a sensitive key, ignoring case and
+   * separators (e.g. `PORTAL_PASSWORD` or `SECRET_KEY_DEV`).
+   */
+  public static containsSensitiveKey(
+    name: string,
+    sensitiveKeys: string[] = this.defaultParams.sensitiveKeys,
+  ): boolean {
+    const normalized = name.toLowerCase().replace(/[^a-z0-9]/g, "");
+    return sensitiveKeys.some((key) => normalized.includes(key.toLowerCase()));
+  }
+
   // Helper methods
   private static containsSensitivePattern(value: string): boolean {
     return defaultSensitiveKeysRegex.some((pattern) => pattern.test(value));
@@ -1,4 +1,5 @@
 import { ErrorCategories } from "./error-categories.enum";
+import type { CiContext } from "../../../configuration/environment/detector/ci-context.types";
 /**
  * Interface for structured error logging
  */
@@ -13,6 +14,8 @@ export interface ErrorDetails {
   timestamp: string;
   environment: string;
   version?: string;
+  /** CI provider and build, only set when running in CI */
+  ci?: CiContext;
 }
 
 /**
@@ -15,3 +15,15 @@ export interface FileOperationOptions {
   overwrite?: boolean;
   createParentDirs?: boolean;
 }
+
+/**
+ * Options for cross-process file locks
+ */
+export interface FileLockOptions {
+  /** How long to wait for the lock before failing */
+  timeoutMs: number;
+  /** Delay between attempts while the lock is held elsewhere */
+  retryIntervalMs: number;
+  /** Time without a refresh after which a lock held on another host is considered abandoned */
+  staleMs: number;
+}
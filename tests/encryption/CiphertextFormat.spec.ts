@@ -0,0 +1,104 @@
+import { test, expect } from "../../fixtures/guardrails.fixture";
+import { CryptoService } from "../../src/cryptography/service/cryptoService";
+import CiphertextFormat from "../../src/cryptography/format/ciphertextFormat";
+import SecretKeystore from "../../src/cryptography/key/secretKeystore";
+import SecureKeyGenerator from "../../src/cryptography/key/secureKeyGenerator";
+import type { CiphertextHeader } from "../../src/cryptography/types/ciphertext.types";
+
+const CONTEXT = { variable: "PORTAL_PASSWORD", stage: "dev" };
+const TAMPER = { context: "Ciphertext Tamper" };
+
+function replaceHeader(encrypted: string, header: CiphertextHeader): string {
+  const [, ...rest] = CiphertextFormat.split(encrypted, 3);
+  return `ENC3:${[CiphertextFormat.encodeHeader(header), ...rest].join(":")}`;
+}
+
+test.describe.serial("Ciphertext Format @ciphertext-format @unit @prod-safe", () => {
+  const secretKey = SecureKeyGenerator.generateBase64SecretKey();
+  let encrypted: string;
+  let header: CiphertextHeader;
+
+  test.beforeAll(async () => {
+    encrypted = await CryptoService.encryptWithKey("s3cr3t-Passw0rd", secretKey, CONTEXT);
+    header = CiphertextFormat.decodeHeader(CiphertextFormat.split(encrypted, 3)[0]);
+  });
+
+  test("Writes an ENC3 header bound to the variable and stage", async () => {
+    expect(CiphertextFormat.getVersion(encrypted)).toBe(3);
+    expect(CiphertextFormat.isEncrypted(encrypted)).toBe(true);
+    expect(CiphertextFormat.split(encrypted, 3)).toHaveLength(5);
+    expect(header).toMatchObject({
+      version: 3,
+      keyId: SecretKeystore.getKeyId(secretKey),
+      cipher: "AES-256-GCM",
+      kdf: { algorithm: "argon2id+hkdf-sha256" },
+      context: CONTEXT,
+    });
+
+    expect(await CryptoService.decryptWithKeys(encrypted, [secretKey], CONTEXT)).toBe(
+      "s3cr3t-Passw0rd",
+    );
+    expect(
+      await CryptoService.decryptWithKeys(encrypted, [secretKey], {
+        variable: CONTEXT.variable,
+        stage: "qa",
+        inheritedStages: ["dev"],
+      }),
+    ).toBe("s3cr3t-Passw0rd");
+  });
+
+  test("Rejects a value found in another variable or stage", async () => {
+    await expect(
+      CryptoService.decryptWithKeys(encrypted, [secretKey], { ...CONTEXT, variable: "API_TOKEN" }),
+    ).rejects.toMatchObject(TAMPER);
+    await expect(
+      CryptoService.decryptWithKeys(encrypted, [secretKey], { ...CONTEXT, stage: "uat" }),
+    ).rejects.toMatchObject(TAMPER);
+    await expect(CryptoService.decryptWithKeys(encrypted, [secretKey])).rejects.toMatchObject(
+      TAMPER,
+    );
+  });
+
+  test("Rejects a header re-bound to the place the value was moved to", async () => {
+    const moved = replaceHeader(encrypted, { ...header, context: { ...CONTEXT, stage: "uat" } });
+
+    await expect(
+      CryptoService.decryptWithKeys(moved, [secretKey], { ...CONTEXT, stage: "uat" }),
+    ).rejects.toMatchObject(TAMPER);
+
+    const unbound = replaceHeader(encrypted, { ...header, context: undefined });
+    await expect(
+      CryptoService.decryptWithKeys(unbound, [secretKey], CONTEXT),
+    ).rejects.toMatchObject(TAMPER);
+  });
+
+  test("Rejects a modified cipher text", async () => {
+    const parts = CiphertextFormat.split(encrypted, 3);
+    const cipherText = Buffer.from(parts[3], "base64");
+    cipherText[0] ^= 0xff;
+    parts[3] = cipherText.toString("base64");
+
+    await expect(
+      CryptoService.decryptWithKeys(`ENC3:${parts.join(":")}`, [secretKey], CONTEXT),
+    ).rejects.toMatchObject(TAMPER);
+  });
+
+  test("Rejects malformed headers before deriving any key", () => {
+    const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64");
+
+    expect(() =>
+      CiphertextFormat.decodeHeader(Buffer.from("{not json").toString("base64")),
+    ).toThrow("Invalid encrypted format: header is not valid JSON");
+    expect(() =>
+      CiphertextFormat.decodeHeader(
+        encode({ ...header, kdf: { ...header.kdf, memoryCost: 1 << 30 } }),
+      ),
+    ).toThrow("Invalid encrypted format: Argon2 memoryCost");
+    expect(() =>
+      CiphertextFormat.decodeHeader(encode({ ...header, cipher: "AES-128-CBC" })),
+    ).toThrow("Invalid encrypted format: unsupported cipher");
+    expect(() =>
+      CiphertextFormat.decodeHeader(encode({ ...header, keyId: "not-a-key-id" })),
+    ).toThrow("Invalid encrypted format: header has no valid key id");
+  });
+});
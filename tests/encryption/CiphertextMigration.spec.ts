@@ -0,0 +1,17 @@
+import { test, expect } from "../../fixtures/cryptography.fixture";
+import { CiphertextMigrationManager } from "../../src/cryptography/manager/ciphertextMigrationManager";
+
+// Run through `encryption:migrate:*`
+test.describe("Ciphertext Migration @ciphertext-migration @maintenance @writes-data", () => {
+  test("Upgrade encrypted values to the current format", async ({
+    cryptoOrchestrator,
+  }, testInfo) => {
+    const report = await cryptoOrchestrator.migrateEncryptedValues();
+
+    await testInfo.attach("ciphertext-migration-report", {
+      body: JSON.stringify(report, null, 2),
+      contentType: "application/json",
+    });
+    expect(report.files.length, CiphertextMigrationManager.format(report)).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,104 @@
+import { test, expect } from "../../fixtures/cryptography.fixture";
+import { CryptoManager } from "../../src/cryptography/manager/cryptoManager";
+import { CryptoService } from "../../src/cryptography/service/cryptoService";
+import CiphertextFormat from "../../src/cryptography/format/ciphertextFormat";
+import SecureKeyGenerator from "../../src/cryptography/key/secureKeyGenerator";
+import EnvFileDocument from "../../src/configuration/environment/dotenv/envFileDocument";
+import { SECURITY_CONSTANTS } from "../../src/cryptography/types/security.constant";
+
+const PASSWORD = { variable: "PORTAL_PASSWORD", stage: "dev" };
+const USERNAME = { variable: "PORTAL_USERNAME", stage: "dev" };
+
+/**
+ * Encrypts a value the way `ENC2` values were written: no header, the legacy Argon2
+ * parameters and nothing bound to the variable or stage.
+ */
+async function encryptLegacy(plaintext: string, secretKey: string): Promise<string> {
+  const salt = SecureKeyGenerator.generateBase64Salt();
+  const webCryptoIv = SecureKeyGenerator.generateWebCryptoIV();
+  const { encryptionKey, hmacKey } = await CryptoManager.deriveKeys(secretKey, salt);
+
+  const iv = webCryptoIv.toString("base64");
+  const cipherText = Buffer.from(
+    await CryptoManager.encryptBuffer(webCryptoIv, encryptionKey, plaintext),
+  ).toString("base64");
+  const hmac = await CryptoManager.computeHMAC(
+    hmacKey,
+    CryptoManager.prepareHMACData(salt, iv, cipherText),
+  );
+
+  return `${SECURITY_CONSTANTS.FORMAT.PREFIX}${[salt, iv, cipherText, hmac].join(":")}`;
+}
+
+test.describe("Ciphertext Migration Manager @ciphertext-migration-manager @unit @prod-safe", () => {
+  let secretKey: string;
+  let currentUsername: string;
+
+  test.beforeEach(async ({ sandbox, scopedEnv }) => {
+    await sandbox.declareStages({ dev: { secretKeys: { providers: ["process-env"] } } });
+    secretKey = SecureKeyGenerator.generateBase64SecretKey();
+    scopedEnv.set("SECRET_KEY_DEV", secretKey);
+
+    currentUsername = await CryptoService.encryptWithKey("admin", secretKey, USERNAME);
+    await sandbox.writeFile(
+      ".env.dev",
+      [
+        "PORTAL_BASE_URL=https://dev.example.test",
+        `PORTAL_PASSWORD=${await encryptLegacy("s3cr3t-Passw0rd", secretKey)}`,
+        `PORTAL_USERNAME=${currentUsername}`,
+        "",
+      ].join("\n"),
+    );
+  });
+
+  test("Re-encrypts ENC2 values as bound ENC3 and leaves current ones alone", async ({
+    sandbox,
+    ciphertextMigrationManager,
+  }) => {
+    const report = await ciphertextMigrationManager.migrateEncryptedValues();
+
+    expect(report).toMatchObject({
+      stage: "dev",
+      variable: "SECRET_KEY_DEV",
+      migratedCount: 1,
+      files: [
+        { filePath: sandbox.resolve(".env.dev"), migrated: ["PORTAL_PASSWORD"], upToDate: 1 },
+      ],
+    });
+
+    const document = EnvFileDocument.parse(await sandbox.readFile(".env.dev"));
+    const password = document.get("PORTAL_PASSWORD")!;
+
+    expect(CiphertextFormat.getVersion(password)).toBe(3);
+    expect(await CryptoService.decryptWithKeys(password, [secretKey], PASSWORD)).toBe(
+      "s3cr3t-Passw0rd",
+    );
+    expect(document.get("PORTAL_USERNAME")).toBe(currentUsername);
+    expect(document.get("PORTAL_BASE_URL")).toBe("https://dev.example.test");
+  });
+
+  test("Changes nothing on a second run", async ({ sandbox, ciphertextMigrationManager }) => {
+    await ciphertextMigrationManager.migrateEncryptedValues();
+    const migrated = await sandbox.readFile(".env.dev");
+
+    const report = await ciphertextMigrationManager.migrateEncryptedValues();
+
+    expect(report.migratedCount).toBe(0);
+    expect(report.files[0].upToDate).toBe(2);
+    expect(await sandbox.readFile(".env.dev")).toBe(migrated);
+  });
+
+  test("Leaves the file unchanged when a value cannot be decrypted", async ({
+    sandbox,
+    ciphertextMigrationManager,
+  }) => {
+    const otherKey = SecureKeyGenerator.generateBase64SecretKey();
+    const content = `${await sandbox.readFile(".env.dev")}API_TOKEN=${await encryptLegacy("token", otherKey)}\n`;
+    await sandbox.writeFile(".env.dev", content);
+
+    await expect(ciphertextMigrationManager.migrateEncryptedValues()).rejects.toThrow(
+      "HMAC mismatch",
+    );
+    expect(await sandbox.readFile(".env.dev")).toBe(content);
+  });
+});
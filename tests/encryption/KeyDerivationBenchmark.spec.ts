@@ -0,0 +1,20 @@
+import { test, expect } from "../../fixtures/cryptography.fixture";
+import KeyDerivationBenchmark from "../../src/cryptography/benchmark/keyDerivationBenchmark";
+
+// Run through `benchmark:key-derivation`; uses a throwaway key and leaves env files alone
+test.describe("Key Derivation Benchmark @key-derivation-benchmark @maintenance", () => {
+  test("Compare per-value Argon2 with master key and HKDF", async ({}, testInfo) => {
+    test.setTimeout(600_000);
+
+    const report = await KeyDerivationBenchmark.run();
+
+    await testInfo.attach("key-derivation-benchmark", {
+      body: JSON.stringify(report, null, 2),
+      contentType: "application/json",
+    });
+    const [perValue, masterKey] = report.results;
+    expect(masterKey.decryptMs, KeyDerivationBenchmark.format(report)).toBeLessThan(
+      perValue.decryptMs,
+    );
+  });
+});
@@ -0,0 +1,26 @@
+import { test, expect } from "../../fixtures/cryptography.fixture";
+import { KeyRotationManager } from "../../src/cryptography/manager/keyRotationManager";
+
+// Run one at a time through `keys:rotate:*`, `keys:rotate:dry-run:*` or `keys:rollback:*`.
+// Both rewrite the keystore and env files, so they never run side by side or in `test:all:*`
+test.describe.serial("Key Rotation @key-rotation @maintenance @destructive", () => {
+  test("Rotate secret key @key-rotate", async ({ cryptoOrchestrator }, testInfo) => {
+    const report = await cryptoOrchestrator.rotateSecretKey();
+
+    await testInfo.attach("key-rotation-report", {
+      body: JSON.stringify(report, null, 2),
+      contentType: "application/json",
+    });
+    expect(report.failures, KeyRotationManager.format(report)).toEqual([]);
+  });
+
+  test("Roll back secret key rotation @key-rollback", async ({ cryptoOrchestrator }, testInfo) => {
+    const report = await cryptoOrchestrator.rollbackSecretKeyRotation();
+
+    await testInfo.attach("key-rotation-report", {
+      body: JSON.stringify(report, null, 2),
+      contentType: "application/json",
+    });
+    expect(report.failures, KeyRotationManager.format(report)).toEqual([]);
+  });
+});
@@ -0,0 +1,163 @@
+import fs from "fs";
+import { test, expect } from "../../fixtures/cryptography.fixture";
+import type { EnvironmentSandbox } from "../../fixtures/sandbox.fixture";
+import { CryptoService } from "../../src/cryptography/service/cryptoService";
+import { KeyRotationManager } from "../../src/cryptography/manager/keyRotationManager";
+import SecretKeystore from "../../src/cryptography/key/secretKeystore";
+import SecureKeyGenerator from "../../src/cryptography/key/secureKeyGenerator";
+import StageEnvFileManager from "../../src/configuration/environment/manager/stageEnvFileManager";
+import EnvFileDocument from "../../src/configuration/environment/dotenv/envFileDocument";
+import type { KeyRotationReport } from "../../src/cryptography/types/key-rotation.types";
+
+const VALUES = {
+  ".env.dev": { key: "PORTAL_PASSWORD", plaintext: "s3cr3t-Passw0rd" },
+  ".env.dev.local": { key: "PORTAL_USERNAME", plaintext: "local-admin" },
+};
+
+type StageFile = keyof typeof VALUES;
+
+async function decryptFile(
+  sandbox: EnvironmentSandbox,
+  fileName: StageFile,
+  secretKey: string,
+): Promise<string> {
+  const { key } = VALUES[fileName];
+  const document = EnvFileDocument.parse(await sandbox.readFile(fileName));
+
+  return CryptoService.decryptWithKeys(document.get(key)!, [secretKey], {
+    variable: key,
+    stage: "dev",
+  });
+}
+
+async function readReport(): Promise<KeyRotationReport> {
+  return JSON.parse(
+    await fs.promises.readFile(KeyRotationManager.REPORT_FILE, "utf8"),
+  ) as KeyRotationReport;
+}
+
+async function getActiveKey(): Promise<string | undefined> {
+  return (await SecretKeystore.findKey("SECRET_KEY_DEV"))?.key;
+}
+
+test.describe("Key Rotation Manager @key-rotation-manager @unit @prod-safe", () => {
+  let initialKey: string;
+  const updateEnvironmentDocument = StageEnvFileManager.updateEnvironmentDocument;
+
+  test.beforeEach(async ({ sandbox }) => {
+    await sandbox.declareStages({ dev: { secretKeys: { providers: ["keystore"] } } });
+    initialKey = SecureKeyGenerator.generateBase64SecretKey();
+    await SecretKeystore.storeKey("dev", "SECRET_KEY_DEV", initialKey);
+
+    for (const [fileName, { key, plaintext }] of Object.entries(VALUES)) {
+      const encrypted = await CryptoService.encryptWithKey(plaintext, initialKey, {
+        variable: key,
+        stage: "dev",
+      });
+      await sandbox.writeFile(fileName, `# @secret\n${key}=${encrypted}\n`);
+    }
+  });
+
+  test.afterEach(() => {
+    StageEnvFileManager.updateEnvironmentDocument = updateEnvironmentDocument;
+  });
+
+  test("Updates the keystore before re-encrypting the stage and local files", async ({
+    sandbox,
+    keyRotationManager,
+  }) => {
+    const activeKeysAtWrite: (string | undefined)[] = [];
+    StageEnvFileManager.updateEnvironmentDocument = async (filePath, mutate) => {
+      activeKeysAtWrite.push(await getActiveKey());
+      return updateEnvironmentDocument(filePath, mutate);
+    };
+
+    const report = await keyRotationManager.rotateSecretKey({ gracePeriodDays: 1 });
+    const newKey = await getActiveKey();
+
+    expect(report).toMatchObject({
+      operation: "rotate",
+      status: "completed",
+      fromKeyId: SecretKeystore.getKeyId(initialKey),
+      toKeyId: SecretKeystore.getKeyId(newKey!),
+      reencryptedCount: 2,
+    });
+    expect(newKey).not.toBe(initialKey);
+    expect(activeKeysAtWrite).toEqual([newKey, newKey]);
+
+    for (const fileName of Object.keys(VALUES) as StageFile[]) {
+      expect(await decryptFile(sandbox, fileName, newKey!)).toBe(VALUES[fileName].plaintext);
+    }
+    expect(await SecretKeystore.findRetiredKeys("SECRET_KEY_DEV")).toEqual([
+      expect.objectContaining({ key: initialKey, status: "retired" }),
+    ]);
+  });
+
+  test("Puts the written files and the keystore back when a write fails", async ({
+    sandbox,
+    keyRotationManager,
+  }) => {
+    const stageFile = await sandbox.readFile(".env.dev");
+    const localFile = await sandbox.readFile(".env.dev.local");
+    let writes = 0;
+    StageEnvFileManager.updateEnvironmentDocument = async (filePath, mutate) => {
+      // The second forward write fails after the stage file was re-encrypted
+      if (++writes === 2) {
+        throw new Error("disk full");
+      }
+      return updateEnvironmentDocument(filePath, mutate);
+    };
+
+    await expect(keyRotationManager.rotateSecretKey()).rejects.toThrow("disk full");
+
+    expect(await sandbox.readFile(".env.dev")).toBe(stageFile);
+    expect(await sandbox.readFile(".env.dev.local")).toBe(localFile);
+    expect(await getActiveKey()).toBe(initialKey);
+    expect(await readReport()).toMatchObject({ operation: "rotate", status: "reverted" });
+  });
+
+  test("Changes nothing in a dry run", async ({ sandbox, keyRotationManager }) => {
+    const stageFile = await sandbox.readFile(".env.dev");
+    const localFile = await sandbox.readFile(".env.dev.local");
+    const keystore = await sandbox.readFile(".keystore.json");
+
+    const report = await keyRotationManager.rotateSecretKey({ dryRun: true });
+
+    expect(report).toMatchObject({ status: "dry-run", reencryptedCount: 2 });
+    expect(report.files.map((file) => file.keys)).toEqual([
+      ["PORTAL_PASSWORD"],
+      ["PORTAL_USERNAME"],
+    ]);
+    expect(await sandbox.readFile(".env.dev")).toBe(stageFile);
+    expect(await sandbox.readFile(".env.dev.local")).toBe(localFile);
+    expect(await sandbox.readFile(".keystore.json")).toBe(keystore);
+  });
+
+  test("Rolls back to the retired key", async ({ sandbox, keyRotationManager }) => {
+    await keyRotationManager.rotateSecretKey();
+    const rotatedKey = await getActiveKey();
+
+    const report = await keyRotationManager.rollbackSecretKeyRotation();
+
+    expect(report).toMatchObject({
+      operation: "rollback",
+      status: "completed",
+      fromKeyId: SecretKeystore.getKeyId(rotatedKey!),
+      toKeyId: SecretKeystore.getKeyId(initialKey),
+    });
+    expect(await getActiveKey()).toBe(initialKey);
+    expect(await decryptFile(sandbox, ".env.dev", initialKey)).toBe(VALUES[".env.dev"].plaintext);
+    expect(
+      (await SecretKeystore.findRetiredKeys("SECRET_KEY_DEV")).map((entry) => entry.key),
+    ).toEqual([rotatedKey]);
+  });
+
+  test("Refuses a rollback without a retired key", async ({ sandbox, keyRotationManager }) => {
+    const stageFile = await sandbox.readFile(".env.dev");
+
+    await expect(keyRotationManager.rollbackSecretKeyRotation()).rejects.toThrow(
+      "there is no rotation to roll back",
+    );
+    expect(await sandbox.readFile(".env.dev")).toBe(stageFile);
+  });
+});
@@ -0,0 +1,70 @@
+import fs from "fs";
+import { test, expect } from "../../fixtures/cryptography.fixture";
+import { CryptoService } from "../../src/cryptography/service/cryptoService";
+import SecretKeystore from "../../src/cryptography/key/secretKeystore";
+import SecureKeyGenerator from "../../src/cryptography/key/secureKeyGenerator";
+
+const CONTEXT = { variable: "PORTAL_PASSWORD", stage: "dev" };
+const GRACE_PERIOD_END = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+test.describe("Secret Key Generation @secret-key-generation @unit @prod-safe", () => {
+  test.beforeEach(async ({ sandbox }) => {
+    await sandbox.declareStages({
+      dev: { secretKeys: { providers: ["keystore", "process-env"] } },
+    });
+  });
+
+  test("Keeps the stored key and the values it encrypted when run again", async ({
+    sandbox,
+    cryptoOrchestrator,
+  }) => {
+    await cryptoOrchestrator.generateSecretKey();
+    const keystore = await sandbox.readFile(".keystore.json");
+
+    const encrypted = await CryptoService.encrypt("s3cr3t-Passw0rd", "SECRET_KEY_DEV", CONTEXT);
+    await sandbox.writeFile(".env.dev", `# @secret\nPORTAL_PASSWORD=${encrypted}\n`);
+    const stageFile = await sandbox.readFile(".env.dev");
+
+    await cryptoOrchestrator.generateSecretKey();
+
+    expect(await sandbox.readFile(".keystore.json")).toBe(keystore);
+    expect(await sandbox.readFile(".env.dev")).toBe(stageFile);
+    expect(await CryptoService.decrypt(encrypted, "SECRET_KEY_DEV", CONTEXT)).toBe(
+      "s3cr3t-Passw0rd",
+    );
+  });
+
+  test("Keeps a key provided outside the keystore", async ({
+    sandbox,
+    scopedEnv,
+    cryptoOrchestrator,
+  }) => {
+    scopedEnv.set("SECRET_KEY_DEV", SecureKeyGenerator.generateBase64SecretKey());
+
+    await cryptoOrchestrator.generateSecretKey();
+
+    expect(fs.existsSync(sandbox.keystorePath)).toBe(false);
+  });
+
+  test("Never drops retired keys or replaces the active key", async () => {
+    const [first, second, third] = Array.from({ length: 3 }, () =>
+      SecureKeyGenerator.generateBase64SecretKey(),
+    );
+
+    await SecretKeystore.storeKey("dev", "SECRET_KEY_DEV", first);
+    await SecretKeystore.rotateKey("dev", "SECRET_KEY_DEV", second, first, GRACE_PERIOD_END);
+
+    await expect(SecretKeystore.storeKey("dev", "SECRET_KEY_DEV", third)).rejects.toThrow(
+      "rotate the key instead of replacing it",
+    );
+    expect((await SecretKeystore.storeKey("dev", "SECRET_KEY_DEV", second)).keyId).toBe(
+      SecretKeystore.getKeyId(second),
+    );
+
+    const keys = await SecretKeystore.listKeys();
+    expect(keys.map(({ keyId, status }) => ({ keyId, status }))).toEqual([
+      { keyId: SecretKeystore.getKeyId(first), status: "retired" },
+      { keyId: SecretKeystore.getKeyId(second), status: "active" },
+    ]);
+  });
+});
@@ -0,0 +1,36 @@
+import { test, expect } from "../../fixtures/cryptography.fixture";
+import SecretKeyResolver from "../../src/cryptography/key/secretKeyResolver";
+import SecureKeyGenerator from "../../src/cryptography/key/secureKeyGenerator";
+import LocalKmsStub from "../../src/cryptography/key/providers/localKmsStub";
+import type { SecretKeyRequest } from "../../src/cryptography/types/secret-key-provider.types";
+
+// Run through `keys:providers:check`; uses a throwaway key and leaves the keystore alone
+test.describe("Secret Key Providers @secret-key-providers @prod-safe", () => {
+  test("Resolve a secret key through the local KMS stub", async () => {
+    const stub = new LocalKmsStub();
+    const key = SecureKeyGenerator.generateBase64SecretKey();
+    stub.setKey("SECRET_KEY_KMS_CHECK", key);
+    const kmsUrl = await stub.start();
+
+    try {
+      const request: SecretKeyRequest = {
+        variable: "SECRET_KEY_KMS_CHECK",
+        stage: "kms-check",
+        settings: { providers: ["http-kms"], kmsUrl, kmsTimeout: 5_000, cacheTtl: 0 },
+      };
+
+      expect(await SecretKeyResolver.resolve(request)).toEqual({ key, provider: "http-kms" });
+      await expect(
+        SecretKeyResolver.resolve({ ...request, variable: "SECRET_KEY_KMS_MISSING" }),
+      ).rejects.toThrow("was not found by any provider");
+      await expect(
+        SecretKeyResolver.resolve({
+          ...request,
+          settings: { ...request.settings, kmsUrl: undefined },
+        }),
+      ).rejects.toThrow("http-kms needs a valid secretKeys.kmsUrl");
+    } finally {
+      await stub.stop();
+    }
+  });
+});
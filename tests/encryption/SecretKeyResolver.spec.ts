@@ -0,0 +1,130 @@
+import { test, expect } from "../../fixtures/sandbox.fixture";
+import SecretKeyResolver from "../../src/cryptography/key/secretKeyResolver";
+import SecretKeystore from "../../src/cryptography/key/secretKeystore";
+import SecureKeyGenerator from "../../src/cryptography/key/secureKeyGenerator";
+import { ErrorCategories } from "../../src/utils/types/errorHandling/error-categories.enum";
+import type {
+  SecretKeyProvider,
+  SecretKeyRequest,
+} from "../../src/cryptography/types/secret-key-provider.types";
+
+interface FakeProvider extends SecretKeyProvider {
+  calls: number;
+}
+
+function fakeProvider(
+  name: string,
+  getKey: () => Promise<string | undefined>,
+  cacheable = true,
+): FakeProvider {
+  const provider: FakeProvider = {
+    name,
+    cacheable,
+    calls: 0,
+    getKey: () => {
+      provider.calls++;
+      return getKey();
+    },
+  };
+  return provider;
+}
+
+function request(providers: string[], cacheTtl = 60_000): SecretKeyRequest {
+  return {
+    variable: "SECRET_KEY_DEV",
+    stage: "dev",
+    settings: { providers, kmsTimeout: 5_000, cacheTtl },
+  };
+}
+
+test.describe("Secret Key Resolver @secret-key-resolver @unit @prod-safe", () => {
+  test.beforeEach(() => {
+    SecretKeyResolver.clearCache();
+  });
+
+  test("Asks the stage's providers in order until one has the key", async () => {
+    const empty = fakeProvider("empty", async () => undefined);
+    const vault = fakeProvider("vault", async () => "vault-key");
+    const unused = fakeProvider("unused", async () => "unused-key");
+
+    await expect(
+      SecretKeyResolver.resolve(request(["empty", "vault", "unused"]), [unused, vault, empty]),
+    ).resolves.toEqual({ key: "vault-key", provider: "vault" });
+    expect([empty.calls, vault.calls, unused.calls]).toEqual([1, 1, 0]);
+
+    await expect(SecretKeyResolver.resolve(request(["empty"]), [empty])).rejects.toThrow(
+      "Secret key 'SECRET_KEY_DEV' was not found by any provider of stage 'dev': empty",
+    );
+    await expect(SecretKeyResolver.resolve(request(["kms"]), [empty])).rejects.toThrow(
+      "No secret key provider named 'kms'. Registered: empty",
+    );
+  });
+
+  test("Stops at a provider that fails instead of trying the next one", async () => {
+    const failing = fakeProvider("failing", async () => {
+      throw Object.assign(new Error("KMS unavailable"), { status: 503 });
+    });
+    const fallback = fakeProvider("fallback", async () => "fallback-key");
+
+    const error = await SecretKeyResolver.resolve(request(["failing", "fallback"]), [
+      failing,
+      fallback,
+    ]).catch((caught: unknown) => caught);
+
+    expect(error).toMatchObject({
+      category: ErrorCategories.API_AND_NETWORK,
+      message: expect.stringContaining("Secret key provider 'failing' failed for 'SECRET_KEY_DEV'"),
+    });
+    expect(fallback.calls).toBe(0);
+  });
+
+  test("Reuses keys of cacheable providers until the cache expires or is cleared", async () => {
+    const cached = fakeProvider("cached", async () => "cached-key");
+    const uncached = fakeProvider("uncached", async () => "uncached-key", false);
+
+    for (let run = 0; run < 2; run++) {
+      await SecretKeyResolver.resolve(request(["cached"]), [cached]);
+      await SecretKeyResolver.resolve(request(["uncached"]), [uncached]);
+      await SecretKeyResolver.resolve(request(["cached"], 0), [cached]);
+    }
+    expect(cached.calls).toBe(1);
+    expect(uncached.calls).toBe(2);
+
+    SecretKeyResolver.clearCache();
+    await SecretKeyResolver.resolve(request(["cached"], 1), [cached]);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await SecretKeyResolver.resolve(request(["cached"], 1), [cached]);
+    expect(cached.calls).toBe(3);
+  });
+
+  test("Resolves a variable with the settings of the stage using it", async ({
+    sandbox,
+    scopedEnv,
+  }) => {
+    await sandbox.declareStages({
+      dev: { secretKeys: { providers: ["keystore", "process-env"] } },
+      qa: { secretKeys: { providers: ["process-env"] }, secretKeyVariable: "QA_KEY" },
+      uat: { secretKeys: { providers: ["process-env"] } },
+    });
+    const keystoreKey = SecureKeyGenerator.generateBase64SecretKey();
+    const qaKey = SecureKeyGenerator.generateBase64SecretKey();
+    scopedEnv.set("SECRET_KEY_DEV", SecureKeyGenerator.generateBase64SecretKey());
+    scopedEnv.set("QA_KEY", qaKey);
+    scopedEnv.unset("SECRET_KEY_UAT");
+
+    await SecretKeystore.storeKey("dev", "SECRET_KEY_DEV", keystoreKey);
+
+    expect(await SecretKeyResolver.getKey("SECRET_KEY_DEV")).toEqual({
+      key: keystoreKey,
+      provider: "keystore",
+    });
+    expect(await SecretKeyResolver.getKey("QA_KEY")).toEqual({
+      key: qaKey,
+      provider: "process-env",
+    });
+    expect(await SecretKeyResolver.findKey("SECRET_KEY_UAT")).toBeUndefined();
+    await expect(SecretKeyResolver.getKey("SECRET_KEY_QA")).rejects.toThrow(
+      "No stage uses the secret key variable 'SECRET_KEY_QA'",
+    );
+  });
+});
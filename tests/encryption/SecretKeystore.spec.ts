@@ -0,0 +1,66 @@
+import fs from "fs";
+import { test, expect } from "../../fixtures/sandbox.fixture";
+import SecretKeystore from "../../src/cryptography/key/secretKeystore";
+import SecureKeyGenerator from "../../src/cryptography/key/secureKeyGenerator";
+
+const UNSAFE_PERMISSIONS = { context: "Secret Keystore", category: "SECURITY_AND_ACCESS" };
+
+test.describe("Secret Keystore @secret-keystore @unit @prod-safe", () => {
+  test.skip(process.platform === "win32", "POSIX file modes do not apply on Windows");
+
+  test("Creates the keystore readable by its owner only", async ({ sandbox }) => {
+    const key = SecureKeyGenerator.generateBase64SecretKey();
+    const previousUmask = process.umask(0o022);
+
+    try {
+      await SecretKeystore.storeKey("dev", "SECRET_KEY_DEV", key);
+    } finally {
+      process.umask(previousUmask);
+    }
+
+    expect((await fs.promises.stat(sandbox.keystorePath)).mode & 0o777).toBe(0o600);
+    expect((await SecretKeystore.findKey("SECRET_KEY_DEV"))?.key).toBe(key);
+  });
+
+  for (const mode of [0o640, 0o604, 0o660, 0o644]) {
+    test(`Refuses a keystore with mode ${mode.toString(8)}`, async ({ sandbox }) => {
+      await SecretKeystore.storeKey(
+        "dev",
+        "SECRET_KEY_DEV",
+        SecureKeyGenerator.generateBase64SecretKey(),
+      );
+      await fs.promises.chmod(sandbox.keystorePath, mode);
+
+      await expect(SecretKeystore.findKey("SECRET_KEY_DEV")).rejects.toMatchObject(
+        UNSAFE_PERMISSIONS,
+      );
+      await expect(SecretKeystore.findKey("SECRET_KEY_DEV")).rejects.toThrow(
+        "must not be accessible by group or others",
+      );
+      await expect(
+        SecretKeystore.storeKey(
+          "dev",
+          "SECRET_KEY_QA",
+          SecureKeyGenerator.generateBase64SecretKey(),
+        ),
+      ).rejects.toMatchObject(UNSAFE_PERMISSIONS);
+      expect((await fs.promises.stat(sandbox.keystorePath)).mode & 0o777).toBe(mode);
+    });
+  }
+
+  test("Keeps mode 0600 when the keystore is updated", async ({ sandbox }) => {
+    const first = SecureKeyGenerator.generateBase64SecretKey();
+
+    await SecretKeystore.storeKey("dev", "SECRET_KEY_DEV", first);
+    await SecretKeystore.rotateKey(
+      "dev",
+      "SECRET_KEY_DEV",
+      SecureKeyGenerator.generateBase64SecretKey(),
+      first,
+      new Date(Date.now() + 60_000),
+    );
+
+    expect((await fs.promises.stat(sandbox.keystorePath)).mode & 0o777).toBe(0o600);
+    expect(await SecretKeystore.listKeys()).toHaveLength(2);
+  });
+});
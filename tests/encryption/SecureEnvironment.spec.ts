@@ -0,0 +1,98 @@
+import { test, expect } from "../../fixtures/sandbox.fixture";
+import { EnvironmentSetup } from "../../src/configuration/environment/manager/environmentSetup";
+import SecureEnvironment from "../../src/configuration/environment/secrets/secureEnvironment";
+import { CryptoService } from "../../src/cryptography/service/cryptoService";
+import SecureKeyGenerator from "../../src/cryptography/key/secureKeyGenerator";
+
+const PLAINTEXT = "s3cr3t-Passw0rd";
+
+test.describe("Secure Environment @secure-environment @unit @prod-safe", () => {
+  let encrypted: string;
+
+  test.beforeEach(async ({ sandbox, scopedEnv }) => {
+    await sandbox.declareStages({ dev: { secretKeys: { providers: ["process-env"] } } });
+    scopedEnv.set("CI", "false");
+    scopedEnv.set("SECRET_KEY_DEV", SecureKeyGenerator.generateBase64SecretKey());
+    scopedEnv.unset("ENV_DECRYPT_SECRETS");
+    scopedEnv.unset("ENV_EXPOSE_SECRETS");
+
+    encrypted = await CryptoService.encrypt(PLAINTEXT, "SECRET_KEY_DEV", {
+      variable: "PORTAL_PASSWORD",
+      stage: "dev",
+    });
+    await sandbox.writeFile(
+      ".env.dev",
+      `PORTAL_BASE_URL=https://dev.example.test\nPORTAL_PASSWORD=${encrypted}\n`,
+    );
+
+    // Unset through the scope so the loaded values are removed after the test
+    scopedEnv.unset("PORTAL_BASE_URL");
+    scopedEnv.unset("PORTAL_PASSWORD");
+  });
+
+  test("Leaves values encrypted at setup unless ENV_DECRYPT_SECRETS is true", async () => {
+    await new EnvironmentSetup().initialize();
+
+    expect(process.env.PORTAL_PASSWORD).toBe(encrypted);
+    expect(SecureEnvironment.has("PORTAL_PASSWORD")).toBe(false);
+
+    // Read on first access and kept for the next one
+    expect(await SecureEnvironment.get("PORTAL_PASSWORD")).toBe(PLAINTEXT);
+    expect(SecureEnvironment.peek("PORTAL_PASSWORD")).toBe(PLAINTEXT);
+    expect(await SecureEnvironment.get("PORTAL_BASE_URL")).toBe("https://dev.example.test");
+  });
+
+  test("Decrypts at setup into the store only", async ({ scopedEnv }) => {
+    scopedEnv.set("ENV_DECRYPT_SECRETS", "true");
+
+    await new EnvironmentSetup().initialize();
+
+    expect(SecureEnvironment.peek("PORTAL_PASSWORD")).toBe(PLAINTEXT);
+    expect(process.env.PORTAL_PASSWORD).toBe(encrypted);
+  });
+
+  test("Writes the plaintext to process.env only when exposure is allowed", async () => {
+    await new EnvironmentSetup({
+      decryptSecrets: true,
+      exposeSecretsToProcessEnv: true,
+    }).initialize();
+
+    expect(process.env.PORTAL_PASSWORD).toBe(PLAINTEXT);
+  });
+
+  test("Reports every value that fails to decrypt and keeps going", async () => {
+    const otherKey = SecureKeyGenerator.generateBase64SecretKey();
+    const wrongKey = await CryptoService.encryptWithKey("other", otherKey, {
+      variable: "API_TOKEN",
+      stage: "dev",
+    });
+
+    const summary = await SecureEnvironment.decryptAll({
+      PORTAL_PASSWORD: encrypted,
+      API_TOKEN: wrongKey,
+      // Bound to PORTAL_PASSWORD, so it cannot be read as another variable
+      PORTAL_USERNAME: encrypted,
+      PORTAL_BASE_URL: "https://dev.example.test",
+    });
+
+    expect(summary.decrypted).toEqual(["PORTAL_PASSWORD"]);
+    expect(summary.failures.map((failure) => failure.key)).toEqual([
+      "API_TOKEN",
+      "PORTAL_USERNAME",
+    ]);
+    expect(summary.failures[1].message).toContain("cannot be moved between variables or stages");
+    expect(SecureEnvironment.has("API_TOKEN")).toBe(false);
+  });
+
+  test("Fails setup with the variables that could not be decrypted", async ({
+    sandbox,
+    scopedEnv,
+  }) => {
+    await sandbox.writeFile(".env.dev", `PORTAL_USERNAME=${encrypted}\n`);
+    scopedEnv.unset("PORTAL_USERNAME");
+
+    await expect(new EnvironmentSetup({ decryptSecrets: true }).initialize()).rejects.toThrow(
+      "Failed to decrypt 1 environment variable(s): PORTAL_USERNAME",
+    );
+  });
+});
@@ -0,0 +1,208 @@
+import { test, expect } from "../../fixtures/guardrails.fixture";
+import CiContextDetector from "../../src/configuration/environment/detector/ciContextDetector";
+import type { CiContext } from "../../src/configuration/environment/detector/ci-context.types";
+
+const PROVIDER_CASES: { env: NodeJS.ProcessEnv; context: CiContext }[] = [
+  {
+    env: {
+      GITHUB_ACTIONS: "true",
+      GITHUB_RUN_ID: "42",
+      GITHUB_SERVER_URL: "https://github.com",
+      GITHUB_REPOSITORY: "acme/portal",
+      GITHUB_HEAD_REF: "feature/login",
+      GITHUB_REF_NAME: "7/merge",
+      GITHUB_REF: "refs/pull/7/merge",
+      GITHUB_SHA: "1a2b3c4d5e",
+    },
+    context: {
+      isCI: true,
+      provider: "github-actions",
+      buildId: "42",
+      buildUrl: "https://github.com/acme/portal/actions/runs/42",
+      branch: "feature/login",
+      commitSha: "1a2b3c4d5e",
+      pullRequest: "7",
+    },
+  },
+  {
+    env: {
+      GITLAB_CI: "true",
+      CI_PIPELINE_ID: "100",
+      CI_PIPELINE_URL: "https://gitlab.example.test/acme/portal/-/pipelines/100",
+      CI_COMMIT_REF_NAME: "main",
+      CI_COMMIT_SHA: "abcdef1",
+    },
+    context: {
+      isCI: true,
+      provider: "gitlab",
+      buildId: "100",
+      buildUrl: "https://gitlab.example.test/acme/portal/-/pipelines/100",
+      branch: "main",
+      commitSha: "abcdef1",
+    },
+  },
+  {
+    env: {
+      JENKINS_URL: "https://jenkins.example.test/",
+      BUILD_NUMBER: "12",
+      BUILD_URL: "https://jenkins.example.test/job/portal/12/",
+      CHANGE_BRANCH: "feature/login",
+      BRANCH_NAME: "PR-3",
+      GIT_COMMIT: "abcdef1",
+      CHANGE_ID: "3",
+    },
+    context: {
+      isCI: true,
+      provider: "jenkins",
+      buildId: "12",
+      buildUrl: "https://jenkins.example.test/job/portal/12/",
+      branch: "feature/login",
+      commitSha: "abcdef1",
+      pullRequest: "3",
+    },
+  },
+  {
+    env: {
+      CIRCLECI: "true",
+      CIRCLE_BUILD_NUM: "8",
+      CIRCLE_BUILD_URL: "https://circleci.com/gh/acme/portal/8",
+      CIRCLE_BRANCH: "main",
+      CIRCLE_SHA1: "abcdef1",
+      CIRCLE_PULL_REQUEST: "https://github.com/acme/portal/pull/5",
+    },
+    context: {
+      isCI: true,
+      provider: "circleci",
+      buildId: "8",
+      buildUrl: "https://circleci.com/gh/acme/portal/8",
+      branch: "main",
+      commitSha: "abcdef1",
+      pullRequest: "5",
+    },
+  },
+  {
+    env: {
+      TRAVIS: "true",
+      TRAVIS_BUILD_ID: "9",
+      TRAVIS_BUILD_WEB_URL: "https://app.travis-ci.com/acme/portal/builds/9",
+      TRAVIS_BRANCH: "main",
+      TRAVIS_COMMIT: "abcdef1",
+      TRAVIS_PULL_REQUEST: "false",
+    },
+    context: {
+      isCI: true,
+      provider: "travis",
+      buildId: "9",
+      buildUrl: "https://app.travis-ci.com/acme/portal/builds/9",
+      branch: "main",
+      commitSha: "abcdef1",
+    },
+  },
+  {
+    env: {
+      BITBUCKET_BUILD_NUMBER: "15",
+      BITBUCKET_GIT_HTTP_ORIGIN: "https://bitbucket.org/acme/portal",
+      BITBUCKET_BRANCH: "main",
+      BITBUCKET_COMMIT: "abcdef1",
+      BITBUCKET_PR_ID: "4",
+    },
+    context: {
+      isCI: true,
+      provider: "bitbucket",
+      buildId: "15",
+      buildUrl: "https://bitbucket.org/acme/portal/addon/pipelines/home#!/results/15",
+      branch: "main",
+      commitSha: "abcdef1",
+      pullRequest: "4",
+    },
+  },
+  {
+    env: {
+      TF_BUILD: "True",
+      BUILD_BUILDID: "77",
+      SYSTEM_COLLECTIONURI: "https://dev.azure.com/acme/",
+      SYSTEM_TEAMPROJECT: "portal",
+      BUILD_SOURCEBRANCH: "refs/heads/main",
+      BUILD_SOURCEVERSION: "abcdef1",
+    },
+    context: {
+      isCI: true,
+      provider: "azure-devops",
+      buildId: "77",
+      buildUrl: "https://dev.azure.com/acme/portal/_build/results?buildId=77",
+      branch: "main",
+      commitSha: "abcdef1",
+    },
+  },
+  {
+    env: { CI: "1" },
+    context: { isCI: true, provider: "generic" },
+  },
+];
+
+test.describe("CI Context Detector @ci-context @unit @prod-safe", () => {
+  for (const { env, context } of PROVIDER_CASES) {
+    test(`Reads the build details of ${context.provider}`, () => {
+      expect(CiContextDetector.detect({ CI: "true", ...env })).toEqual({
+        ...context,
+        shard: undefined,
+      });
+    });
+  }
+
+  test("Reports a local run without CI flags or with a falsy CI", () => {
+    expect(CiContextDetector.detect({})).toEqual({ isCI: false, shard: undefined });
+    expect(CiContextDetector.detect({ CI: "" })).toEqual({ isCI: false, shard: undefined });
+
+    for (const value of ["false", "0", "No", " off "]) {
+      expect(CiContextDetector.detect({ CI: value, GITHUB_ACTIONS: "true" }).isCI).toBe(false);
+    }
+  });
+
+  test("Detects a provider whose flag is set without CI", () => {
+    expect(
+      CiContextDetector.detect({ JENKINS_URL: "https://jenkins.example.test/" }),
+    ).toMatchObject({ isCI: true, provider: "jenkins" });
+    expect(CiContextDetector.detect({ GITLAB_CI: "false" }).isCI).toBe(false);
+  });
+
+  test("Reads the shard, also outside CI", () => {
+    expect(CiContextDetector.detect({ SHARD_INDEX: "2", SHARD_TOTAL: "3" })).toEqual({
+      isCI: false,
+      shard: { index: 2, total: 3 },
+    });
+    expect(
+      CiContextDetector.detect({ CI: "true", SHARD_INDEX: "3", SHARD_TOTAL: "3" }).shard,
+    ).toEqual({ index: 3, total: 3 });
+  });
+
+  test("Leaves the run unsharded for partial or invalid shard values", () => {
+    const shards: [string | undefined, string | undefined][] = [
+      ["1", undefined],
+      [undefined, "3"],
+      ["", "3"],
+      ["0", "3"],
+      ["4", "3"],
+      ["-1", "3"],
+      ["1.5", "3"],
+      ["one", "3"],
+      ["1", "0"],
+      ["1", "three"],
+    ];
+
+    for (const [index, total] of shards) {
+      expect(CiContextDetector.detect({ SHARD_INDEX: index, SHARD_TOTAL: total }).shard).toBe(
+        undefined,
+      );
+    }
+  });
+
+  test("Describes the build on one line", () => {
+    expect(CiContextDetector.describe({ isCI: false })).toBe("Local run");
+    expect(
+      CiContextDetector.describe({ ...PROVIDER_CASES[0].context, shard: { index: 1, total: 3 } }),
+    ).toBe(
+      "GitHub Actions build 42 on feature/login@1a2b3c4 (PR #7, shard 1/3) https://github.com/acme/portal/actions/runs/42",
+    );
+  });
+});
@@ -0,0 +1,49 @@
+import { test, expect } from "../../fixtures/guardrails.fixture";
+import CiEnvironmentValidator from "../../src/configuration/environment/manager/ciEnvironmentValidator";
+
+test.describe("CI Environment Validator @ci-environment @unit @prod-safe", () => {
+  test("Expects the template keys and their secret annotations", async () => {
+    const expected = await CiEnvironmentValidator.readExpectedVariables();
+
+    expect(expected.keys).toEqual(
+      expect.arrayContaining(["PORTAL_BASE_URL", "PORTAL_USERNAME", "PORTAL_PASSWORD"]),
+    );
+    expect(expected.secretKeys).toEqual(["PORTAL_USERNAME", "PORTAL_PASSWORD"]);
+  });
+
+  test("Collects only the expected variables the pipeline set", async ({ scopedEnv }) => {
+    scopedEnv.set("PORTAL_USERNAME", "admin");
+    scopedEnv.set("PORTAL_PASSWORD", "");
+    scopedEnv.set("UNRELATED_VARIABLE", "value");
+
+    expect(
+      CiEnvironmentValidator.collectInjectedVariables([
+        "PORTAL_USERNAME",
+        "PORTAL_PASSWORD",
+        "NOT_SET_VARIABLE",
+      ]),
+    ).toEqual({ PORTAL_USERNAME: "admin" });
+  });
+
+  test("Labels each variable with the place its value came from", () => {
+    const summary = CiEnvironmentValidator.formatSourceSummary(
+      "dev",
+      [
+        { key: "PORTAL_PASSWORD", value: "***", source: "process", overrides: [] },
+        {
+          key: "PORTAL_BASE_URL",
+          value: "https://dev.example.test",
+          source: ".env.dev:3",
+          overrides: [],
+        },
+      ],
+      true,
+    );
+
+    expect(summary.split("\n")).toEqual([
+      "CI environment for 'dev' (file fallback enabled), 2 variable(s):",
+      "  PORTAL_PASSWORD = *** <- ci-injected",
+      "  PORTAL_BASE_URL = https://dev.example.test <- file-fallback (.env.dev:3)",
+    ]);
+  });
+});
@@ -0,0 +1,78 @@
+import { test, expect } from "../../fixtures/sandbox.fixture";
+import { EnvironmentSetup } from "../../src/configuration/environment/manager/environmentSetup";
+import EffectiveConfigReporter from "../../src/configuration/environment/provenance/effectiveConfigReporter";
+import RunManifestWriter from "../../src/configuration/manifest/runManifestWriter";
+import { CryptoService } from "../../src/cryptography/service/cryptoService";
+import SecureKeyGenerator from "../../src/cryptography/key/secureKeyGenerator";
+
+const PLAINTEXTS = {
+  PORTAL_PASSWORD: "plain-password-1",
+  PORTAL_USERNAME: "plain-username-2",
+  SERVICE_PIN: "plain-pin-3",
+  API_TOKEN: "plain-token-4",
+  NOTE_VALUE: "plain-decrypted-5",
+};
+
+test.describe("Effective Config @effective-config @unit @prod-safe", () => {
+  test("Serializes no plaintext secret into the effective config or the run manifest", async ({
+    sandbox,
+    scopedEnv,
+  }) => {
+    await sandbox.declareStages({ dev: { secretKeys: { providers: ["process-env"] } } });
+    scopedEnv.set("CI", "false");
+    scopedEnv.set("SECRET_KEY_DEV", SecureKeyGenerator.generateBase64SecretKey());
+
+    const encryptedNote = await CryptoService.encrypt(PLAINTEXTS.NOTE_VALUE, "SECRET_KEY_DEV", {
+      variable: "NOTE_VALUE",
+      stage: "dev",
+    });
+    await sandbox.writeFile(
+      ".env.dev",
+      [
+        "PORTAL_BASE_URL=https://dev.example.test",
+        `PORTAL_PASSWORD=${PLAINTEXTS.PORTAL_PASSWORD}`,
+        "# @secret",
+        `PORTAL_USERNAME=${PLAINTEXTS.PORTAL_USERNAME}`,
+        "# @secret",
+        `SERVICE_PIN=${PLAINTEXTS.SERVICE_PIN}`,
+        "GREETING_TEXT=pin ${SERVICE_PIN}",
+        `NOTE_VALUE=${encryptedNote}`,
+        "",
+      ].join("\n"),
+    );
+    await sandbox.writeFile(".env.dev.local", `API_TOKEN=${PLAINTEXTS.API_TOKEN}\n`);
+
+    // Unset through the scope so the loaded values are removed after the test
+    for (const key of [...Object.keys(PLAINTEXTS), "PORTAL_BASE_URL", "GREETING_TEXT"]) {
+      scopedEnv.unset(key);
+    }
+
+    const setup = new EnvironmentSetup({ decryptSecrets: true });
+    await setup.initialize();
+
+    const effectiveConfig = setup.getEffectiveConfig();
+    const manifest = RunManifestWriter.create({
+      stage: "dev",
+      envFiles: setup.getLoadedFiles(),
+      effectiveConfig,
+      playwrightVersion: "test",
+    });
+    const serialized = [
+      JSON.stringify(effectiveConfig),
+      EffectiveConfigReporter.format(effectiveConfig),
+      JSON.stringify(manifest),
+    ];
+
+    for (const text of serialized) {
+      for (const plaintext of Object.values(PLAINTEXTS)) {
+        expect(text).not.toContain(plaintext);
+      }
+    }
+
+    const values = Object.fromEntries(effectiveConfig.map((entry) => [entry.key, entry.value]));
+    expect(values.PORTAL_BASE_URL).toBe("https://dev.example.test");
+    expect(Object.keys(values)).toEqual(
+      expect.arrayContaining([...Object.keys(PLAINTEXTS), "GREETING_TEXT"]),
+    );
+  });
+});
@@ -0,0 +1,133 @@
+import { test, expect } from "../../fixtures/guardrails.fixture";
+import EnvFileDocument from "../../src/configuration/environment/dotenv/envFileDocument";
+
+const PEM_KEY = "-----BEGIN KEY-----\nMIIBOgIBAAJBAKj34GkxFhD9\n-----END KEY-----";
+
+const CONTENT = [
+  "# Portal settings",
+  "",
+  "# @required @type=url @description Base URL of the portal under test",
+  "export PORTAL_BASE_URL=https://dev.example.com # trailing comment",
+  "# @secret @required",
+  "PORTAL_PASSWORD='p@ss #not a comment'",
+  'GREETING="Hello\\nWorld"',
+  "TEMPLATE=`keep ${AS_IS}`",
+  "# @type=enum(chromium,firefox)",
+  "BROWSER=chromium",
+  'SIGNING_KEY="-----BEGIN KEY-----',
+  "MIIBOgIBAAJBAKj34GkxFhD9",
+  '-----END KEY-----"',
+  "",
+].join("\r\n");
+
+test.describe("Env File Document @env-file-document @unit @prod-safe", () => {
+  test("Decodes quotes, export, inline comments and multi-line values", () => {
+    const document = EnvFileDocument.parse(CONTENT);
+
+    expect(document.lineEnding).toBe("\r\n");
+    expect(document.toObject()).toEqual({
+      PORTAL_BASE_URL: "https://dev.example.com",
+      PORTAL_PASSWORD: "p@ss #not a comment",
+      GREETING: "Hello\nWorld",
+      TEMPLATE: "keep ${AS_IS}",
+      BROWSER: "chromium",
+      SIGNING_KEY: PEM_KEY,
+    });
+    expect(document.getEntries().find((entry) => entry.key === "PORTAL_BASE_URL")).toMatchObject({
+      exported: true,
+      quote: null,
+      lineNumber: 4,
+    });
+    expect(document.getIssues()).toEqual([]);
+  });
+
+  test("Writes an unmodified document back byte for byte", () => {
+    expect(EnvFileDocument.parse(CONTENT).toString()).toBe(CONTENT);
+    expect(EnvFileDocument.parse("A=1\nB=2").toString()).toBe("A=1\nB=2");
+  });
+
+  test("Rewrites only the entry that changed", () => {
+    const document = EnvFileDocument.parse(CONTENT);
+
+    document.set("PORTAL_BASE_URL", "https://uat.example.com");
+    document.set("PORTAL_PASSWORD", "it's new");
+    document.set("SIGNING_KEY", PEM_KEY.replace("MIIB", "MIIC"));
+    document.set("NEW_KEY", "has # hash");
+
+    const lines = document.toString().split("\r\n");
+    expect(lines[3]).toBe("export PORTAL_BASE_URL=https://uat.example.com # trailing comment");
+    expect(lines[5]).toBe('PORTAL_PASSWORD="it\'s new"');
+    expect(lines.slice(10, 13)).toEqual([
+      'SIGNING_KEY="-----BEGIN KEY-----',
+      "MIICOgIBAAJBAKj34GkxFhD9",
+      '-----END KEY-----"',
+    ]);
+    expect(lines[13]).toBe('NEW_KEY="has # hash"');
+
+    const reparsed = EnvFileDocument.parse(document.toString());
+    expect(reparsed.get("PORTAL_PASSWORD")).toBe("it's new");
+    expect(reparsed.get("NEW_KEY")).toBe("has # hash");
+    expect(reparsed.get("GREETING")).toBe("Hello\nWorld");
+  });
+
+  test("Writes back any value so that it parses to the same value", () => {
+    const values = [
+      `all three " ' \` quotes`,
+      "literal \\n, not a newline",
+      "ends in a backslash \\",
+      'escaped \\" quote',
+      "two\nlines\r\n",
+      " padded # hash ",
+    ];
+    const document = EnvFileDocument.parse("QUOTED='old'\nPLAIN=old\n");
+
+    values.forEach((value, index) => document.set(`VALUE_${index}`, value));
+    document.set("QUOTED", values[2]);
+    document.set("PLAIN", values[1]);
+
+    const reparsed = EnvFileDocument.parse(document.toString());
+    values.forEach((value, index) => expect(reparsed.get(`VALUE_${index}`)).toBe(value));
+    expect(reparsed.get("QUOTED")).toBe(values[2]);
+    expect(reparsed.get("PLAIN")).toBe(values[1]);
+    expect(reparsed.getEntries()).toHaveLength(values.length + 2);
+  });
+
+  test("Keeps the line ending of each line in a mixed file", () => {
+    const content = "A=1\r\nB=2\nC=3\r\n";
+    const document = EnvFileDocument.parse(content);
+
+    expect(document.toString()).toBe(content);
+
+    document.set("B", "two");
+    document.set("D", "4");
+    expect(document.toString()).toBe("A=1\r\nB=two\r\nC=3\r\nD=4\r\n");
+  });
+
+  test("Reads file directives from comment lines only", () => {
+    const document = EnvFileDocument.parse('NOTE="\n# @extends uat\n"\n# @extends qa\nA=1\n');
+
+    expect(document.getDirective("@extends")).toBe("qa");
+    expect(document.getAnnotations("A")).toBeUndefined();
+    expect(EnvFileDocument.parse("# @extends\n").getDirective("@extends")).toBeUndefined();
+  });
+
+  test("Reads annotations above entries", () => {
+    const document = EnvFileDocument.parse(CONTENT);
+
+    expect(document.getAllAnnotations()).toEqual({
+      PORTAL_BASE_URL: {
+        secret: false,
+        required: true,
+        type: "url",
+        description: "Base URL of the portal under test",
+      },
+      PORTAL_PASSWORD: { secret: true, required: true },
+      BROWSER: { secret: false, required: false, type: "enum", values: ["chromium", "firefox"] },
+    });
+
+    const invalid = EnvFileDocument.parse("# @secret @sekret\nTOKEN=abc\n");
+    expect(invalid.getIssues()).toEqual([
+      { kind: "invalid-annotation", key: "@sekret", lineNumber: 1 },
+    ]);
+  });
+});
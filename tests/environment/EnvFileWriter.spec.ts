@@ -0,0 +1,44 @@
+import fs from "fs";
+import { test, expect } from "../../fixtures/guardrails.fixture";
+import EnvFileWriter from "../../src/configuration/environment/manager/envFileWriter";
+import FileLock from "../../src/utils/fileManager/fileLock";
+
+test.describe("Env File Writer @env-file-writer @unit @prod-safe", () => {
+  let filePath: string;
+
+  test.beforeEach(async ({}, testInfo) => {
+    await fs.promises.mkdir(testInfo.outputDir, { recursive: true });
+    filePath = testInfo.outputPath(".env.dev");
+    await fs.promises.writeFile(filePath, "# @secret\nPORTAL_PASSWORD=plaintext\n");
+    await fs.promises.chmod(filePath, 0o600);
+  });
+
+  test("Leaves no snapshot and no lock behind after a write", async () => {
+    await EnvFileWriter.update(filePath, (document) => document.set("PORTAL_PASSWORD", "ENC3:x"));
+
+    expect(await fs.promises.readFile(filePath, "utf8")).toBe(
+      "# @secret\nPORTAL_PASSWORD=ENC3:x\n",
+    );
+    expect(fs.existsSync(EnvFileWriter.getBackupPath(filePath))).toBe(false);
+    expect(fs.existsSync(FileLock.getLockPath(filePath))).toBe(false);
+  });
+
+  test("Keeps the permissions of the file it replaces", async () => {
+    await EnvFileWriter.update(filePath, (document) => document.set("PORTAL_USERNAME", "admin"));
+
+    expect((await fs.promises.stat(filePath)).mode & 0o777).toBe(0o600);
+  });
+
+  test("Leaves the file and no snapshot behind when the edit fails", async () => {
+    await expect(
+      EnvFileWriter.update(filePath, () => {
+        throw new Error("edit failed");
+      }),
+    ).rejects.toThrow("edit failed");
+
+    expect(await fs.promises.readFile(filePath, "utf8")).toBe(
+      "# @secret\nPORTAL_PASSWORD=plaintext\n",
+    );
+    expect(fs.existsSync(EnvFileWriter.getBackupPath(filePath))).toBe(false);
+  });
+});
@@ -0,0 +1,17 @@
+import { test, expect } from "../../fixtures/guardrails.fixture";
+import EnvironmentDriftAnalyzer from "../../src/configuration/environment/drift/environmentDriftAnalyzer";
+
+test.describe("Environment Drift @env-drift @maintenance @prod-safe", () => {
+  test("Stage files define the same keys", async ({}, testInfo) => {
+    const report = await EnvironmentDriftAnalyzer.analyze();
+
+    EnvironmentDriftAnalyzer.log(report);
+    await EnvironmentDriftAnalyzer.writeJson(report);
+    await testInfo.attach("environment-drift-report", {
+      body: JSON.stringify(report, null, 2),
+      contentType: "application/json",
+    });
+
+    expect(report.hasDrift, EnvironmentDriftAnalyzer.format(report)).toBe(false);
+  });
+});
@@ -0,0 +1,74 @@
+import { test, expect } from "../../fixtures/sandbox.fixture";
+import EnvironmentLayerResolver from "../../src/configuration/environment/manager/environmentLayerResolver";
+import SecureEnvironment from "../../src/configuration/environment/secrets/secureEnvironment";
+import BaseEnvFileManager from "../../src/configuration/environment/manager/baseEnvFileManager";
+import EnvironmentPathUtils from "../../src/utils/environment/environmentPathUtils";
+import { CryptoService } from "../../src/cryptography/service/cryptoService";
+import SecureKeyGenerator from "../../src/cryptography/key/secureKeyGenerator";
+
+const PROCESS_ENV_KEYS = { secretKeys: { providers: ["process-env"] } };
+
+test.describe("Environment Inheritance @env-inheritance @unit @prod-safe", () => {
+  test.beforeEach(async ({ sandbox, scopedEnv }) => {
+    await sandbox.declareStages({ dev: PROCESS_ENV_KEYS, qa: PROCESS_ENV_KEYS });
+    await sandbox.writeFile(
+      ".env.dev",
+      "# @extends qa\nPORTAL_BASE_URL=https://dev.example.test\n",
+    );
+    scopedEnv.set("SECRET_KEY_DEV", SecureKeyGenerator.generateBase64SecretKey());
+    scopedEnv.set("SECRET_KEY_QA", SecureKeyGenerator.generateBase64SecretKey());
+  });
+
+  test("Stacks the files of the stages config, parents first", ({ sandbox }) => {
+    expect(EnvironmentLayerResolver.resolveExtendsChain("dev")).toEqual(["qa"]);
+    expect(EnvironmentLayerResolver.resolveLayers("dev")).toEqual([
+      { kind: "base", filePath: BaseEnvFileManager.BASE_ENV_FILE },
+      { kind: "common", filePath: EnvironmentPathUtils.getCommonEnvFilePath() },
+      { kind: "extends", filePath: sandbox.resolve(".env.qa"), stage: "qa" },
+      { kind: "stage", filePath: sandbox.resolve(".env.dev"), stage: "dev" },
+      { kind: "local", filePath: sandbox.resolve(".env.dev.local"), stage: "dev" },
+    ]);
+  });
+
+  test("Fails on circular inheritance", async ({ sandbox }) => {
+    await sandbox.writeFile(".env.qa", "# @extends dev\n");
+
+    expect(() => EnvironmentLayerResolver.resolveExtendsChain("dev")).toThrow(
+      "Circular environment inheritance detected: dev -> qa -> dev",
+    );
+  });
+
+  test("Decrypts an inherited value with the parent stage's key", async ({ scopedEnv }) => {
+    const encrypted = await CryptoService.encrypt("qa-Passw0rd", "SECRET_KEY_QA", {
+      variable: "PORTAL_PASSWORD",
+      stage: "qa",
+    });
+    scopedEnv.set("PORTAL_PASSWORD", encrypted);
+
+    expect(await SecureEnvironment.decryptAll({ PORTAL_PASSWORD: encrypted })).toEqual({
+      decrypted: ["PORTAL_PASSWORD"],
+      failures: [],
+    });
+    expect(await SecureEnvironment.get("PORTAL_PASSWORD")).toBe("qa-Passw0rd");
+
+    // Without the parent's key the value is reported, not decrypted with the stage's key
+    scopedEnv.unset("SECRET_KEY_QA");
+    SecureEnvironment.forget("PORTAL_PASSWORD");
+    const { failures } = await SecureEnvironment.decryptAll({ PORTAL_PASSWORD: encrypted });
+    expect(failures.map((failure) => failure.key)).toEqual(["PORTAL_PASSWORD"]);
+    expect(failures[0].message).toContain("SECRET_KEY_QA");
+  });
+
+  test("Rejects a value bound to a stage outside the chain", async ({ scopedEnv }) => {
+    const encrypted = await CryptoService.encryptWithKey(
+      "uat-Passw0rd",
+      process.env.SECRET_KEY_DEV!,
+      { variable: "PORTAL_PASSWORD", stage: "uat" },
+    );
+    scopedEnv.set("PORTAL_PASSWORD", encrypted);
+
+    const { failures } = await SecureEnvironment.decryptAll({ PORTAL_PASSWORD: encrypted });
+    expect(failures.map((failure) => failure.key)).toEqual(["PORTAL_PASSWORD"]);
+    expect(failures[0].message).toContain("(uat)");
+  });
+});
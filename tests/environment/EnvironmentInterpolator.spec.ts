@@ -0,0 +1,63 @@
+import { test, expect } from "../../fixtures/guardrails.fixture";
+import EnvironmentInterpolator from "../../src/configuration/environment/interpolation/environmentInterpolator";
+
+function createInterpolator(variables: Record<string, string>): EnvironmentInterpolator {
+  const keys = Object.keys(variables);
+
+  return new EnvironmentInterpolator({
+    lookup: (key) => variables[key],
+    reveal: async () => undefined,
+    locate: (key) =>
+      keys.includes(key)
+        ? { filePath: "/project/envs/.env.dev", lineNumber: keys.indexOf(key) + 1 }
+        : undefined,
+  });
+}
+
+test.describe("Environment Interpolator @env-interpolation @unit @prod-safe", () => {
+  test("Expands references, defaults and escapes", async () => {
+    const interpolator = createInterpolator({
+      BASE_URL: "https://dev.example.com",
+      LOGIN_URL: "${BASE_URL}/auth/login",
+      CALLBACK_URL: "${LOGIN_URL}?next=home",
+      EMPTY: "",
+      TIMEOUT: "${TIMEOUT_OVERRIDE:-30000}",
+      RETRIES: "${EMPTY:-2}",
+      LITERAL: "\\${NOT_EXPANDED}",
+    });
+
+    expect(await interpolator.resolve("CALLBACK_URL")).toEqual({
+      value: "https://dev.example.com/auth/login?next=home",
+      secret: false,
+      unresolved: false,
+      references: ["LOGIN_URL", "BASE_URL"],
+    });
+    expect((await interpolator.resolve("TIMEOUT"))?.value).toBe("30000");
+    expect((await interpolator.resolve("RETRIES"))?.value).toBe("2");
+    expect((await interpolator.resolve("LITERAL"))?.value).toBe("${NOT_EXPANDED}");
+    expect(await interpolator.resolve("UNDEFINED")).toBeUndefined();
+  });
+
+  test("Fails on circular references with the file and line", async () => {
+    const interpolator = createInterpolator({
+      FIRST: "${SECOND}",
+      SECOND: "prefix-${THIRD}",
+      THIRD: "${FIRST}",
+    });
+
+    await expect(interpolator.resolve("FIRST")).rejects.toThrow(
+      "Circular variable reference detected: FIRST -> SECOND -> THIRD -> FIRST (.env.dev:1)",
+    );
+  });
+
+  test("Fails on undefined references with the file and line", async () => {
+    const interpolator = createInterpolator({
+      BASE_URL: "https://dev.example.com",
+      LOGIN_URL: "${BASE_URL}/${LOGIN_PATH}",
+    });
+
+    await expect(interpolator.resolve("LOGIN_URL")).rejects.toThrow(
+      "Undefined variable 'LOGIN_PATH' referenced by 'LOGIN_URL' (.env.dev:2)",
+    );
+  });
+});
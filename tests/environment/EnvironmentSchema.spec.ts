@@ -0,0 +1,99 @@
+import { test, expect } from "../../fixtures/guardrails.fixture";
+import EnvironmentSchemaValidator from "../../src/configuration/environment/schema/environmentSchemaValidator";
+import EnvironmentVariables from "../../src/configuration/environment/variables/environmentVariables";
+import type { EnvironmentSchema } from "../../src/configuration/environment/schema/variable-schema.types";
+
+const SCHEMA = {
+  API_URL: { format: "url", required: true, stages: { dev: { required: false } } },
+  ADMIN_EMAIL: { format: "email" },
+  WORKERS: { format: "int", default: "4", stages: { qa: { default: "2" } } },
+  HEADLESS: { format: "bool", default: "true" },
+  BROWSER: { format: "enum", values: ["chromium", "firefox"] },
+  GREETING: { format: "string", default: "hello" },
+} satisfies EnvironmentSchema;
+
+function issuesOf(stage: string, source: NodeJS.ProcessEnv) {
+  return EnvironmentSchemaValidator.validate(SCHEMA, stage, source).issues;
+}
+
+test.describe("Environment Schema @env-schema @unit @prod-safe", () => {
+  test("Relaxes a required variable only on the stage that overrides it", () => {
+    expect(issuesOf("dev", {})).toEqual([]);
+    expect(issuesOf("qa", {})).toEqual([
+      { key: "API_URL", kind: "missing", message: "'API_URL' is required but not set" },
+    ]);
+    expect(issuesOf("qa", { API_URL: "" })).toEqual([
+      { key: "API_URL", kind: "missing", message: "'API_URL' is required but not set" },
+    ]);
+  });
+
+  test("Applies the stage default only when the variable is unset", () => {
+    const rule = (stage: string) => EnvironmentSchemaValidator.resolveRule(SCHEMA.WORKERS, stage);
+
+    expect(rule("dev")).toEqual({ required: false, default: "4" });
+    expect(rule("qa")).toEqual({ required: false, default: "2" });
+    expect(EnvironmentSchemaValidator.resolveValue(rule("qa"), undefined)).toBe("2");
+    expect(EnvironmentSchemaValidator.resolveValue(rule("qa"), "8")).toBe("8");
+
+    const greeting = EnvironmentSchemaValidator.resolveRule(SCHEMA.GREETING, "dev");
+    expect(EnvironmentSchemaValidator.resolveValue(greeting, "")).toBe("");
+    expect(EnvironmentSchemaValidator.resolveValue(greeting, "0")).toBe("0");
+  });
+
+  test("Converts each format and reports malformed values", () => {
+    const parse = (key: keyof typeof SCHEMA, value: string) =>
+      EnvironmentSchemaValidator.parseValue(key, SCHEMA[key], value);
+
+    expect(parse("API_URL", " https://api.example.test ")).toBe("https://api.example.test");
+    expect(parse("ADMIN_EMAIL", "admin@example.test")).toBe("admin@example.test");
+    expect(parse("WORKERS", "-3")).toBe(-3);
+    expect(parse("HEADLESS", "Off")).toBe(false);
+    expect(parse("HEADLESS", "yes")).toBe(true);
+    expect(parse("BROWSER", "firefox")).toBe("firefox");
+    expect(parse("GREETING", "  spaced  ")).toBe("  spaced  ");
+
+    expect(
+      issuesOf("dev", {
+        API_URL: "not a url",
+        ADMIN_EMAIL: "admin",
+        WORKERS: "1.5",
+        HEADLESS: "maybe",
+        BROWSER: "webkit",
+      }).map((issue) => issue.message),
+    ).toEqual([
+      "'API_URL' must be a valid URL",
+      "'ADMIN_EMAIL' must be a valid email address",
+      "'WORKERS' must be an integer",
+      "'HEADLESS' must be a boolean (true/false, 1/0, yes/no, on/off)",
+      "'BROWSER' must be one of: chromium, firefox",
+    ]);
+  });
+
+  test("Keeps an empty value instead of the default", () => {
+    expect(issuesOf("dev", { WORKERS: "" })).toEqual([
+      { key: "WORKERS", kind: "malformed", message: "'WORKERS' must be an integer" },
+    ]);
+    expect(issuesOf("dev", { GREETING: "" })).toEqual([]);
+  });
+
+  test("Skips the format check of encrypted values", () => {
+    expect(issuesOf("dev", { API_URL: "ENC3:header:iv:cipher:hmac" })).toEqual([]);
+  });
+
+  test("Reads typed values through the accessor", ({ scopedEnv }) => {
+    scopedEnv.set("PORTAL_BASE_URL", " https://portal.example.test ");
+    scopedEnv.set("PORTAL_USERNAME", "");
+    scopedEnv.unset("PORTAL_PASSWORD");
+
+    expect(EnvironmentVariables.PORTAL_BASE_URL).toBe("https://portal.example.test");
+    expect(() => EnvironmentVariables.PORTAL_USERNAME).toThrow(
+      "Environment variable 'PORTAL_USERNAME' is required but not set",
+    );
+    expect(() => EnvironmentVariables.PORTAL_PASSWORD).toThrow(
+      "Environment variable 'PORTAL_PASSWORD' is required but not set",
+    );
+
+    scopedEnv.set("PORTAL_BASE_URL", "portal");
+    expect(() => EnvironmentVariables.PORTAL_BASE_URL).toThrow("must be a valid URL");
+  });
+});
@@ -0,0 +1,24 @@
+import { test, expect } from "../../fixtures/guardrails.fixture";
+import EnvironmentTemplate from "../../src/configuration/environment/template/environmentTemplate";
+
+test.describe("Environment Template", () => {
+  test("Generate .env.example @env-example-generate @maintenance @writes-data", async ({}, testInfo) => {
+    const template = await EnvironmentTemplate.write();
+
+    await testInfo.attach("env-example", {
+      body: EnvironmentTemplate.render(template),
+      contentType: "text/plain",
+    });
+  });
+
+  test("Stage files match .env.example @env-example-check @maintenance @prod-safe", async ({}, testInfo) => {
+    const report = await EnvironmentTemplate.check();
+
+    await testInfo.attach("env-example-check", {
+      body: JSON.stringify(report, null, 2),
+      contentType: "application/json",
+    });
+
+    expect(report.passed, EnvironmentTemplate.formatCheck(report)).toBe(true);
+  });
+});
@@ -0,0 +1,125 @@
+import fs from "fs";
+import os from "os";
+import { spawnSync } from "child_process";
+import { test, expect } from "../../fixtures/guardrails.fixture";
+import FileLock from "../../src/utils/fileManager/fileLock";
+
+const FAST_RETRY = { retryIntervalMs: 5, timeoutMs: 2_000 };
+
+async function writeForeignLock(
+  filePath: string,
+  owner: { pid: number; host: string },
+  ageMs = 0,
+): Promise<string> {
+  const lockPath = FileLock.getLockPath(filePath);
+  const createdAt = Date.now() - ageMs;
+
+  await fs.promises.writeFile(lockPath, JSON.stringify({ ...owner, createdAt, token: "foreign" }));
+  await fs.promises.utimes(lockPath, createdAt / 1000, createdAt / 1000);
+  return lockPath;
+}
+
+function getExitedPid(): number {
+  return spawnSync(process.execPath, ["-e", ""]).pid!;
+}
+
+test.describe("File Lock @file-lock @unit @prod-safe", () => {
+  let filePath: string;
+
+  test.beforeEach(async ({}, testInfo) => {
+    await fs.promises.mkdir(testInfo.outputDir, { recursive: true });
+    filePath = testInfo.outputPath("counter.env");
+    await fs.promises.writeFile(filePath, "0");
+  });
+
+  test("Serializes concurrent read-modify-write cycles", async () => {
+    let holders = 0;
+    let maxHolders = 0;
+
+    const increment = () =>
+      FileLock.withLock(
+        filePath,
+        async () => {
+          maxHolders = Math.max(maxHolders, ++holders);
+          const count = Number(await fs.promises.readFile(filePath, "utf8"));
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          await fs.promises.writeFile(filePath, String(count + 1));
+          holders--;
+        },
+        FAST_RETRY,
+      );
+
+    await Promise.all(Array.from({ length: 10 }, increment));
+
+    expect(await fs.promises.readFile(filePath, "utf8")).toBe("10");
+    expect(maxHolders).toBe(1);
+    expect(fs.existsSync(FileLock.getLockPath(filePath))).toBe(false);
+  });
+
+  test("Takes over a lock whose owner on this host exited, once per waiter", async () => {
+    await writeForeignLock(filePath, { pid: getExitedPid(), host: os.hostname() });
+    let holders = 0;
+    let maxHolders = 0;
+
+    const hold = () =>
+      FileLock.withLock(
+        filePath,
+        async () => {
+          maxHolders = Math.max(maxHolders, ++holders);
+          await new Promise((resolve) => setTimeout(resolve, 20));
+          holders--;
+        },
+        FAST_RETRY,
+      );
+
+    await Promise.all([hold(), hold(), hold()]);
+    expect(maxHolders).toBe(1);
+  });
+
+  test("Waits for a live owner on this host however old its lock is", async () => {
+    await writeForeignLock(filePath, { pid: process.pid, host: os.hostname() }, 60_000);
+
+    await expect(
+      FileLock.withLock(filePath, async () => undefined, {
+        ...FAST_RETRY,
+        staleMs: 50,
+        timeoutMs: 300,
+      }),
+    ).rejects.toThrow("Timed out after 300ms waiting for lock");
+  });
+
+  test("Expires a lock from another host only once it stops being refreshed", async () => {
+    const owner = { pid: process.pid, host: "other-host.invalid" };
+
+    await writeForeignLock(filePath, owner, 1_000);
+    await expect(
+      FileLock.withLock(filePath, async () => undefined, {
+        ...FAST_RETRY,
+        staleMs: 5_000,
+        timeoutMs: 200,
+      }),
+    ).rejects.toThrow("Timed out");
+
+    await writeForeignLock(filePath, owner, 10_000);
+    expect(
+      await FileLock.withLock(filePath, async () => "acquired", { ...FAST_RETRY, staleMs: 5_000 }),
+    ).toBe("acquired");
+  });
+
+  test("Refreshes a held lock so it never looks stale", async () => {
+    const staleMs = 150;
+    const lockPath = FileLock.getLockPath(filePath);
+
+    await FileLock.withLock(
+      filePath,
+      async () => {
+        for (let check = 0; check < 5; check++) {
+          await new Promise((resolve) => setTimeout(resolve, staleMs));
+          const { mtimeMs } = await fs.promises.stat(lockPath);
+          expect(Date.now() - mtimeMs).toBeLessThan(staleMs);
+        }
+      },
+      { staleMs },
+    );
+  });
+});
@@ -0,0 +1,108 @@
+import fs from "fs";
+import path from "path";
+import { test, expect } from "../../fixtures/guardrails.fixture";
+import RunManifestWriter from "../../src/configuration/manifest/runManifestWriter";
+import ErrorHandler from "../../src/utils/errorHandling/errorHandler";
+import { SECURITY_CONFIG } from "../../src/cryptography/types/security.constant";
+import type { RunManifest } from "../../src/configuration/manifest/run-manifest.types";
+
+const REPORTS_DIRECTORY = path.dirname(RunManifestWriter.MANIFEST_FILE);
+const DETAILS = {
+  stage: "dev",
+  envFiles: [".env", ".env.dev"],
+  effectiveConfig: [],
+  playwrightVersion: "1.0.0-test",
+};
+
+async function readManifest(): Promise<RunManifest> {
+  return JSON.parse(
+    await fs.promises.readFile(RunManifestWriter.MANIFEST_FILE, "utf8"),
+  ) as RunManifest;
+}
+
+test.describe("Run Manifest @run-manifest @unit @prod-safe", () => {
+  test("Records the stage, CI build, commit, shard and security settings", ({ scopedEnv }) => {
+    scopedEnv.set("CI", "true");
+    scopedEnv.set("GITHUB_ACTIONS", "true");
+    scopedEnv.set("GITHUB_RUN_ID", "42");
+    scopedEnv.set("GITHUB_SHA", "1a2b3c4d5e");
+    scopedEnv.set("SHARD_INDEX", "2");
+    scopedEnv.set("SHARD_TOTAL", "3");
+
+    const manifest = RunManifestWriter.create(DETAILS);
+
+    expect(manifest).toMatchObject({
+      stage: "dev",
+      envFiles: [".env", ".env.dev"],
+      ci: { isCI: true, provider: "github-actions", buildId: "42" },
+      gitCommit: "1a2b3c4d5e",
+      versions: { node: process.version, playwright: "1.0.0-test" },
+      shard: { index: 2, total: 3 },
+      security: SECURITY_CONFIG,
+    });
+    expect(manifest.endedAt).toBeUndefined();
+
+    // Playwright's --shard wins over the environment
+    expect(RunManifestWriter.create({ ...DETAILS, shard: { index: 1, total: 4 } }).shard).toEqual({
+      index: 1,
+      total: 4,
+    });
+  });
+
+  test.describe("Written files", () => {
+    // start and finish use the manifest of the current run, so it is put back afterwards
+    let backupDirectory: string;
+
+    test.beforeEach(async ({}, testInfo) => {
+      backupDirectory = testInfo.outputPath("reports-backup");
+      await fs.promises.mkdir(backupDirectory, { recursive: true });
+
+      if (fs.existsSync(REPORTS_DIRECTORY)) {
+        await fs.promises.cp(REPORTS_DIRECTORY, backupDirectory, { recursive: true });
+      }
+    });
+
+    test.afterEach(async () => {
+      await fs.promises.rm(RunManifestWriter.WORKER_ERRORS_DIRECTORY, {
+        recursive: true,
+        force: true,
+      });
+      await fs.promises.cp(backupDirectory, REPORTS_DIRECTORY, { recursive: true });
+    });
+
+    test("Clears old worker totals at start and adds them up at finish", async () => {
+      const staleTotals = path.join(RunManifestWriter.WORKER_ERRORS_DIRECTORY, "worker-98.json");
+      await fs.promises.mkdir(RunManifestWriter.WORKER_ERRORS_DIRECTORY, { recursive: true });
+      await fs.promises.writeFile(staleTotals, JSON.stringify({ RUNTIME: 5 }));
+
+      const started = await RunManifestWriter.start(DETAILS);
+
+      expect(fs.existsSync(staleTotals)).toBe(false);
+      expect(await readManifest()).toEqual(JSON.parse(JSON.stringify(started)));
+
+      await fs.promises.mkdir(RunManifestWriter.WORKER_ERRORS_DIRECTORY, { recursive: true });
+      await fs.promises.writeFile(
+        path.join(RunManifestWriter.WORKER_ERRORS_DIRECTORY, "worker-99.json"),
+        JSON.stringify({ FILE_SYSTEM: 2 }),
+      );
+      const ownTotals = ErrorHandler.getCategoryTotals();
+
+      const finished = await RunManifestWriter.finish();
+
+      expect(finished).toMatchObject({ stage: "dev", startedAt: started.startedAt });
+      expect(finished!.durationMs).toBeGreaterThanOrEqual(0);
+      expect(finished!.errorTotals).toEqual({
+        ...ownTotals,
+        FILE_SYSTEM: (ownTotals.FILE_SYSTEM ?? 0) + 2,
+      });
+      expect(await readManifest()).toEqual(JSON.parse(JSON.stringify(finished)));
+    });
+
+    test("Finishes nothing when setup wrote no manifest", async () => {
+      await fs.promises.rm(RunManifestWriter.MANIFEST_FILE, { force: true });
+
+      expect(await RunManifestWriter.finish()).toBeUndefined();
+      expect(fs.existsSync(RunManifestWriter.MANIFEST_FILE)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { test, expect } from "../../fixtures/sandbox.fixture";
+import ScopedEnvironment from "../../src/configuration/environment/overrides/scopedEnvironment";
+import SecureEnvironment from "../../src/configuration/environment/secrets/secureEnvironment";
+import { CryptoService } from "../../src/cryptography/service/cryptoService";
+import SecureKeyGenerator from "../../src/cryptography/key/secureKeyGenerator";
+
+test.describe("Scoped Environment @scoped-env @unit @prod-safe", () => {
+  test("Puts back set, unset and changed variables on restore", ({ scopedEnv }) => {
+    // The fixture's scope restores these after the test
+    scopedEnv.set("SCOPED_KEPT", "original");
+    scopedEnv.set("SCOPED_REMOVED", "original");
+    scopedEnv.unset("SCOPED_ADDED");
+
+    const scope = new ScopedEnvironment({ SCOPED_KEPT: "first", SCOPED_REMOVED: undefined });
+    scope.set("SCOPED_KEPT", "second");
+    scope.set("SCOPED_ADDED", "added");
+
+    expect(process.env.SCOPED_KEPT).toBe("second");
+    expect(process.env.SCOPED_REMOVED).toBeUndefined();
+    expect(scope.getOverriddenKeys()).toEqual(["SCOPED_KEPT", "SCOPED_REMOVED", "SCOPED_ADDED"]);
+
+    scope.restore();
+
+    expect(process.env.SCOPED_KEPT).toBe("original");
+    expect(process.env.SCOPED_REMOVED).toBe("original");
+    expect("SCOPED_ADDED" in process.env).toBe(false);
+    expect(scope.getOverriddenKeys()).toEqual([]);
+  });
+
+  test("Refuses the stage variables and invalid names", () => {
+    const scope = new ScopedEnvironment();
+
+    for (const key of ScopedEnvironment.PROTECTED_VARIABLES) {
+      expect(() => scope.set(key, "qa")).toThrow(
+        `'${key}' selects the stage and cannot be overridden per test`,
+      );
+    }
+    expect(() => scope.set("FEATURE-X", "on")).toThrow("Invalid environment override 'FEATURE-X'");
+    expect(scope.getOverriddenKeys()).toEqual([]);
+  });
+
+  test("Decrypts an encrypted override instead of the plaintext cached before it", async ({
+    sandbox,
+    scopedEnv,
+  }) => {
+    await sandbox.declareStages({ dev: { secretKeys: { providers: ["process-env"] } } });
+    scopedEnv.set("SECRET_KEY_DEV", SecureKeyGenerator.generateBase64SecretKey());
+    scopedEnv.unset("PORTAL_PASSWORD");
+    SecureEnvironment.store("PORTAL_PASSWORD", "loaded-Passw0rd");
+
+    const scope = new ScopedEnvironment({
+      PORTAL_PASSWORD: await CryptoService.encrypt("override-Passw0rd", "SECRET_KEY_DEV", {
+        variable: "PORTAL_PASSWORD",
+        stage: "dev",
+      }),
+    });
+
+    expect(await SecureEnvironment.get("PORTAL_PASSWORD")).toBe("override-Passw0rd");
+
+    scope.restore();
+
+    expect(SecureEnvironment.peek("PORTAL_PASSWORD")).toBe("loaded-Passw0rd");
+  });
+
+  test.describe("Env option", () => {
+    test.use({ env: { SCOPED_FEATURE: "on", SCOPED_REMOVED: undefined } });
+
+    test("Applies the env option before the test", ({ scopedEnv }) => {
+      expect(process.env.SCOPED_FEATURE).toBe("on");
+      expect("SCOPED_REMOVED" in process.env).toBe(false);
+      expect(scopedEnv.getOverriddenKeys()).toEqual(["SCOPED_FEATURE", "SCOPED_REMOVED"]);
+    });
+  });
+});
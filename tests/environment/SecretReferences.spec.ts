@@ -0,0 +1,121 @@
+import path from "path";
+import { test, expect } from "../../fixtures/sandbox.fixture";
+import SecretReferences from "../../src/configuration/environment/references/secretReferences";
+import { SECRET_REFERENCE_RESOLVERS } from "../../src/configuration/environment/references/secretReferenceResolvers";
+import { ErrorCategories } from "../../src/utils/types/errorHandling/error-categories.enum";
+import type { SecretReferenceResolver } from "../../src/configuration/environment/references/secret-reference.types";
+
+async function resolve(variables: Record<string, string>, resolvers?: SecretReferenceResolver[]) {
+  return SecretReferences.resolveAll(variables, (name) => variables[name], resolvers);
+}
+
+test.describe("Secret References @secret-references @unit @prod-safe", () => {
+  test("Treats only a whole value as a reference", () => {
+    expect(SecretReferences.parse("ref+file://certs/client.pem")).toEqual({
+      scheme: "file",
+      target: "certs/client.pem",
+    });
+    expect(SecretReferences.isReference("ref+env://OTHER_VAR")).toBe(true);
+    expect(SecretReferences.isReference("see ref+env://OTHER_VAR")).toBe(false);
+    expect(SecretReferences.isReference("ref+env://")).toBe(false);
+    expect(SecretReferences.isReference(undefined)).toBe(false);
+  });
+
+  test("Reads files from the project root and drops one trailing newline", async ({ sandbox }) => {
+    const certificate = await sandbox.writeFile("client.pem", "-----BEGIN CERT-----\nabc\n\n");
+    await sandbox.writeFile("token.txt", "token-value\r\n");
+
+    const { values, summary } = await resolve({
+      CLIENT_CERT: `ref+file://${path.relative(process.cwd(), certificate)}`,
+      API_TOKEN: `ref+file://${sandbox.resolve("token.txt")}`,
+      PLAIN_VALUE: "ref+file is not a reference",
+    });
+
+    expect(values).toEqual({
+      CLIENT_CERT: "-----BEGIN CERT-----\nabc\n",
+      API_TOKEN: "token-value",
+    });
+    expect(summary).toEqual({ resolved: ["CLIENT_CERT", "API_TOKEN"], failures: [] });
+  });
+
+  test("Follows variables that are references themselves", async ({ sandbox }) => {
+    await sandbox.writeFile("account.json", '{"type":"service_account"}\n');
+
+    const { values } = await resolve({
+      SERVICE_ACCOUNT: "ref+env://GCP_ACCOUNT",
+      GCP_ACCOUNT: "ref+env://ACCOUNT_FILE",
+      ACCOUNT_FILE: `ref+file://${sandbox.resolve("account.json")}`,
+      PLAIN_ALIAS: "ref+env://PLAIN_VALUE",
+      PLAIN_VALUE: "plain",
+    });
+
+    expect(values).toEqual({
+      SERVICE_ACCOUNT: '{"type":"service_account"}',
+      GCP_ACCOUNT: '{"type":"service_account"}',
+      ACCOUNT_FILE: '{"type":"service_account"}',
+      PLAIN_ALIAS: "plain",
+    });
+  });
+
+  test("Reports every failed reference with its category and keeps going", async ({ sandbox }) => {
+    const { values, summary } = await resolve({
+      MISSING_FILE: `ref+file://${sandbox.resolve("missing.pem")}`,
+      MISSING_VARIABLE: "ref+env://NOT_SET",
+      LOOP_START: "ref+env://LOOP_END",
+      LOOP_END: "ref+env://LOOP_START",
+      UNKNOWN_SCHEME: "ref+vault://secret/api",
+      RESOLVED: "ref+env://PLAIN_VALUE",
+      PLAIN_VALUE: "plain",
+    });
+
+    expect(values).toEqual({ RESOLVED: "plain" });
+    expect(
+      summary.failures.map(({ key, scheme, category }) => ({ key, scheme, category })),
+    ).toEqual([
+      { key: "MISSING_FILE", scheme: "file", category: ErrorCategories.FILE_SYSTEM },
+      {
+        key: "MISSING_VARIABLE",
+        scheme: "env",
+        category: ErrorCategories.ENVIRONMENT_AND_DEPENDENCIES,
+      },
+      { key: "LOOP_START", scheme: "env", category: ErrorCategories.ENVIRONMENT_AND_DEPENDENCIES },
+      { key: "LOOP_END", scheme: "env", category: ErrorCategories.ENVIRONMENT_AND_DEPENDENCIES },
+      {
+        key: "UNKNOWN_SCHEME",
+        scheme: "vault",
+        category: ErrorCategories.ENVIRONMENT_AND_DEPENDENCIES,
+      },
+    ]);
+
+    const messages = Object.fromEntries(
+      summary.failures.map((failure) => [failure.key, failure.message]),
+    );
+    // ErrorAnalyzer sanitizes the messages, dropping quotes and angle brackets
+    expect(messages.MISSING_VARIABLE).toContain(
+      "MISSING_VARIABLE references NOT_SET, which is not set",
+    );
+    expect(messages.LOOP_START).toContain(
+      "Circular secret reference detected: LOOP_START - LOOP_END - LOOP_START",
+    );
+    expect(messages.UNKNOWN_SCHEME).toContain("No resolver registered for ref+vault://");
+  });
+
+  test("Resolves each variable once through a custom resolver", async () => {
+    const targets: string[] = [];
+    const vault: SecretReferenceResolver = {
+      scheme: "vault",
+      resolve: async (reference) => {
+        targets.push(reference.target);
+        return `value-of-${reference.target}`;
+      },
+    };
+
+    const { values } = await resolve(
+      { API_TOKEN: "ref+vault://api", TOKEN_ALIAS: "ref+env://API_TOKEN" },
+      [...SECRET_REFERENCE_RESOLVERS, vault],
+    );
+
+    expect(values).toEqual({ API_TOKEN: "value-of-api", TOKEN_ALIAS: "value-of-api" });
+    expect(targets).toEqual(["api"]);
+  });
+});
@@ -0,0 +1,99 @@
+import { test, expect } from "../../fixtures/sandbox.fixture";
+import StageRegistry from "../../src/configuration/environment/stages/stageRegistry";
+import { ENVIRONMENT_FILE_CONFIG } from "../../src/configuration/environment/dotenv/environment.constants";
+import type {
+  PreflightSeverity,
+  StageConfigEntry,
+  TestPolicyAction,
+} from "../../src/configuration/environment/stages/stage.types";
+
+test.describe("Stage Registry @stage-registry @unit @prod-safe", () => {
+  test("Derives the stage defaults from its name", async ({ sandbox }) => {
+    await sandbox.declareStages({ dev: {}, "pre-prod": { productionLike: true } }, "pre-prod");
+
+    expect(StageRegistry.getStageNames()).toEqual(["dev", "pre-prod"]);
+    expect(StageRegistry.getDefaultStage()).toBe("pre-prod");
+    expect(StageRegistry.getStage("pre-prod")).toMatchObject({
+      consoleLogLevel: "debug",
+      secretKeyVariable: "SECRET_KEY_PRE_PROD",
+      filePath: sandbox.resolve(".env.pre-prod"),
+      testPolicy: { blockedTags: ["@destructive", "@writes-data"], action: "skip" },
+      secretKeys: { providers: ["keystore", "process-env", "base-env-file"] },
+    });
+    expect(StageRegistry.findStageBySecretKeyVariable("SECRET_KEY_DEV")?.name).toBe("dev");
+    expect(() => StageRegistry.getStage("uat")).toThrow(
+      "Unknown environment stage 'uat'. Declared stages: dev, pre-prod",
+    );
+  });
+
+  const invalidStages: [string, StageConfigEntry, string][] = [
+    ["qa stage", {}, "Invalid stage name 'qa stage'"],
+    ["qa", { consoleLogLevel: "verbose" }, "Stage 'qa' has invalid consoleLogLevel 'verbose'"],
+    [
+      "qa",
+      { testPolicy: { blockedTags: ["destructive"] } },
+      "Stage 'qa' has invalid testPolicy tags: destructive",
+    ],
+    [
+      "qa",
+      { testPolicy: { action: "delete" as TestPolicyAction } },
+      "Stage 'qa' has invalid testPolicy action 'delete'",
+    ],
+    [
+      "qa",
+      { preflight: { checks: { "required-variables": "fatal" as PreflightSeverity } } },
+      "Stage 'qa' has invalid preflight severities: required-variables=fatal",
+    ],
+    ["qa", { secretKeys: { providers: [] } }, "Stage 'qa' must list at least one secretKeys"],
+    [
+      "qa",
+      { secretKeys: { providers: ["keystore", "keystore"] } },
+      "lists secretKeys providers more than once: keystore",
+    ],
+    ["qa", { secretKeys: { cacheTtl: -1 } }, "Stage 'qa' has invalid secretKeys.cacheTtl '-1'"],
+    [
+      "qa",
+      { secretKeys: { providers: ["http-kms"] } },
+      "Stage 'qa' uses the http-kms provider and needs a valid secretKeys.kmsUrl",
+    ],
+  ];
+
+  test("Rejects invalid stage settings with the stage and setting named", async ({ sandbox }) => {
+    for (const [name, entry, message] of invalidStages) {
+      await sandbox.declareStages({ dev: {}, [name]: entry }, "dev");
+
+      expect(() => StageRegistry.getStageNames()).toThrow(message);
+    }
+  });
+
+  test("Rejects a config file that cannot be read as stages", async ({ sandbox, scopedEnv }) => {
+    const useConfig = async (content: string) => {
+      scopedEnv.set(
+        ENVIRONMENT_FILE_CONFIG.STAGES_CONFIG_OVERRIDE_VARIABLE,
+        await sandbox.writeFile("stages.config.json", content),
+      );
+      StageRegistry.reload();
+    };
+
+    await useConfig("{ stages:");
+    expect(() => StageRegistry.getStageNames()).toThrow("Stages config file is not valid JSON");
+
+    await useConfig(JSON.stringify({ defaultStage: "dev" }));
+    expect(() => StageRegistry.getStageNames()).toThrow("must contain a 'stages' object");
+
+    await useConfig(JSON.stringify({ stages: {} }));
+    expect(() => StageRegistry.getStageNames()).toThrow("must declare at least one stage");
+
+    await useConfig(JSON.stringify({ defaultStage: "prod", stages: { dev: {} } }));
+    expect(() => StageRegistry.getStageNames()).toThrow(
+      "Default stage 'prod' is not declared in the stages config",
+    );
+
+    scopedEnv.set(
+      ENVIRONMENT_FILE_CONFIG.STAGES_CONFIG_OVERRIDE_VARIABLE,
+      sandbox.resolve("missing.json"),
+    );
+    StageRegistry.reload();
+    expect(() => StageRegistry.getStageNames()).toThrow("Stages config file not found");
+  });
+});
@@ -0,0 +1,141 @@
+import fs from "fs";
+import { test, expect } from "../../fixtures/sandbox.fixture";
+import TestPolicyEnforcer from "../../src/configuration/guardrails/testPolicyEnforcer";
+import PlaywrightConfigBuilder from "../../src/configuration/playwright/playwrightConfigBuilder";
+import StageRegistry from "../../src/configuration/environment/stages/stageRegistry";
+import { ENVIRONMENT_FILE_CONFIG } from "../../src/configuration/environment/dotenv/environment.constants";
+
+const POLICY = { blockedTags: ["@destructive"], requiredTags: ["@smoke", "@regression"] };
+const STAGES_CONFIG_VARIABLE = ENVIRONMENT_FILE_CONFIG.STAGES_CONFIG_OVERRIDE_VARIABLE;
+
+function matchesAny(patterns: RegExp[], title: string): boolean {
+  return patterns.some((pattern) => pattern.test(title));
+}
+
+test.describe("Test Policy Enforcer @test-policy @unit @prod-safe", () => {
+  test.beforeEach(async ({ sandbox, scopedEnv }) => {
+    scopedEnv.unset(TestPolicyEnforcer.OVERRIDE_VARIABLE);
+    await sandbox.declareStages({
+      dev: { testPolicy: { ...POLICY, action: "skip" } },
+      qa: { testPolicy: { ...POLICY, action: "exclude" } },
+      prod: { productionLike: true },
+    });
+  });
+
+  test("Rejects blocked tags before checking the required ones", () => {
+    expect(TestPolicyEnforcer.evaluate(["@smoke"], "dev")).toEqual({
+      allowed: true,
+      violatedTags: [],
+      overridden: false,
+    });
+    expect(TestPolicyEnforcer.evaluate(["@smoke", "@destructive"], "dev")).toMatchObject({
+      allowed: false,
+      violatedTags: ["@destructive"],
+      reason:
+        "Test policy: tagged @destructive, which is not allowed on 'dev' (set GUARDRAILS_OVERRIDE=dev to override)",
+    });
+    expect(TestPolicyEnforcer.evaluate(["@unit"], "dev")).toMatchObject({
+      allowed: false,
+      violatedTags: ["@smoke", "@regression"],
+      reason: expect.stringContaining("not tagged @smoke or @regression, which is required"),
+    });
+  });
+
+  test("Blocks the destructive tags on production-like stages by default", () => {
+    expect(TestPolicyEnforcer.getPolicy("prod")).toEqual({
+      blockedTags: ["@destructive", "@writes-data"],
+      requiredTags: [],
+      action: "skip",
+    });
+    expect(TestPolicyEnforcer.evaluate(["@writes-data"], "prod").allowed).toBe(false);
+    expect(TestPolicyEnforcer.describe("prod")).toBe(
+      "Test policy for 'prod' blocks @destructive, @writes-data; other tests are skipped. Set GUARDRAILS_OVERRIDE=prod to override",
+    );
+  });
+
+  test("Excludes disallowed tests at collection only with the exclude action", () => {
+    expect(TestPolicyEnforcer.buildGrepInvert("dev")).toEqual([]);
+
+    const patterns = TestPolicyEnforcer.buildGrepInvert("qa");
+    expect(matchesAny(patterns, "Users Delete a user @smoke @destructive")).toBe(true);
+    expect(matchesAny(patterns, "Users List users @unit")).toBe(true);
+    expect(matchesAny(patterns, "Users List users @smoke")).toBe(false);
+    expect(matchesAny(patterns, "Users List users @regression @destructive-audit")).toBe(false);
+  });
+
+  test("Adds the exclude patterns to the configured grepInvert", () => {
+    const maintenance = /@maintenance/;
+
+    expect(PlaywrightConfigBuilder.build({ grepInvert: maintenance }).grepInvert).toBe(maintenance);
+
+    const qaStages = fs.readFileSync(process.env[STAGES_CONFIG_VARIABLE]!, "utf8");
+    fs.writeFileSync(
+      process.env[STAGES_CONFIG_VARIABLE]!,
+      JSON.stringify({ ...JSON.parse(qaStages), defaultStage: "qa" }),
+    );
+    StageRegistry.reload();
+
+    expect(PlaywrightConfigBuilder.build({ grepInvert: maintenance }).grepInvert).toEqual([
+      maintenance,
+      ...TestPolicyEnforcer.buildGrepInvert("qa"),
+    ]);
+  });
+
+  test("Lifts the policy only for the stage the override names", ({ scopedEnv }) => {
+    scopedEnv.set(TestPolicyEnforcer.OVERRIDE_VARIABLE, "qa");
+
+    expect(TestPolicyEnforcer.evaluate(["@destructive"], "qa")).toMatchObject({
+      allowed: false,
+      overridden: true,
+    });
+    expect(TestPolicyEnforcer.evaluate(["@destructive"], "dev").overridden).toBe(false);
+    expect(TestPolicyEnforcer.buildGrepInvert("qa")).toEqual([]);
+    expect(() => TestPolicyEnforcer.assertOverrideMatchesStage("qa")).not.toThrow();
+    expect(() => TestPolicyEnforcer.assertOverrideMatchesStage("dev")).toThrow(
+      "GUARDRAILS_OVERRIDE is set to 'qa' but the current stage is 'dev'",
+    );
+  });
+});
+
+test.describe("Test Policy Fixture @test-policy @unit @prod-safe", () => {
+  const originalStagesConfig = process.env[STAGES_CONFIG_VARIABLE];
+
+  // The policy fixture runs before any test-scoped fixture, so the stages are set up here
+  test.beforeAll(async ({}, testInfo) => {
+    const configPath = testInfo.outputPath("stages.config.json");
+
+    await fs.promises.mkdir(testInfo.outputDir, { recursive: true });
+    await fs.promises.writeFile(
+      configPath,
+      JSON.stringify({ defaultStage: "dev", stages: { dev: { testPolicy: POLICY } } }),
+    );
+    process.env[STAGES_CONFIG_VARIABLE] = configPath;
+    StageRegistry.reload();
+  });
+
+  test.afterAll(() => {
+    if (originalStagesConfig === undefined) {
+      delete process.env[STAGES_CONFIG_VARIABLE];
+    } else {
+      process.env[STAGES_CONFIG_VARIABLE] = originalStagesConfig;
+    }
+    StageRegistry.reload();
+  });
+
+  test.afterEach(({}, testInfo) => {
+    if (testInfo.title.includes("@destructive")) {
+      expect(testInfo.status).toBe("skipped");
+      expect(testInfo.annotations.find((annotation) => annotation.type === "skip")).toMatchObject({
+        description: expect.stringContaining("tagged @destructive, which is not allowed on 'dev'"),
+      });
+    }
+  });
+
+  test("Skips a blocked test before it runs @smoke @destructive", () => {
+    throw new Error("A test blocked by the policy must not run");
+  });
+
+  test("Runs an allowed test @smoke", ({}, testInfo) => {
+    expect(testInfo.annotations.some((annotation) => annotation.type === "skip")).toBe(false);
+  });
+});
@@ -1,12 +1,12 @@
-import { test, expect } from "@playwright/test";
+import { test, expect } from "../../fixtures/guardrails.fixture";
 import EnvironmentVariables from "../../src/configuration/environment/variables/environmentVariables";
 import logger from "../../src/utils/logger/loggerManager";
 
-test("OrangeHrm", async ({ page }) => {
-  await page.goto(EnvironmentVariables.PORTAL_BASE_URL!);
+test("OrangeHrm @prod-safe", async ({ page }) => {
+  await page.goto("/");
 
   await expect(page).toHaveTitle("OrangeHRM");
-  await expect(page).toHaveURL(EnvironmentVariables.PORTAL_BASE_URL!);
+  await expect(page).toHaveURL(EnvironmentVariables.PORTAL_BASE_URL);
 
   logger.info(`Navigated to ${page.url()}`);
   await page.waitForTimeout(2000);